@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import type { User } from '@supabase/supabase-js';
 import { 
   Key, 
@@ -10,65 +10,164 @@ import {
   Calendar,
   AlertTriangle,
   Clock,
-  Filter
+  Filter,
+  Upload,
+  Download,
+  Pencil,
+  ScrollText,
+  Radio,
+  FileKey
 } from 'lucide-react';
-import { License, SupabaseCredentials } from './types';
-import { initSupabase, getSupabaseClient, getStoredCredentials, saveCredentials } from './services/supabase';
+import { ConnectionProfile, License, Plan, Role, SupabaseCredentials } from './types';
+import { Locale, MessageKey, getStoredLocale, isLocale, saveLocale } from './services/i18n';
+import { useI18n } from './components/I18nProvider';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { initSupabase, getSupabaseClient } from './services/supabase';
+import {
+  ENVIRONMENT_BADGES,
+  clearCredentials,
+  getActiveProfileId,
+  getProfiles,
+  isVaultLocked,
+  profileDisplayName,
+  saveProfileForCredentials,
+  setActiveProfileId,
+  takeCredentialParams,
+} from './services/connectionProfiles';
+import { ConnectionProfilesModal } from './components/ConnectionProfilesModal';
+import { ConnectionSwitcher } from './components/ConnectionSwitcher';
+import { VaultUnlockForm } from './components/VaultUnlockForm';
+import { ExportFormat, downloadBlob, exportFileName, exportLicenses } from './services/licenseExport';
+import { FRIENDLY_KEY_FORMAT, KEY_TEMPLATE_PRESETS, expandKeyTemplate } from './services/keyTemplate';
+import { KeyFormat, generateSecureKey, getStoredKeyFormat, saveKeyFormat, validateKey } from './services/keygen';
+import { Badge, Modal } from './components/ui';
+import { BulkCreateForm } from './components/BulkCreateForm';
+import { KeyFormatSettings } from './components/KeyFormatSettings';
+import { ImportLicensesForm } from './components/ImportLicensesForm';
+import { EditLicenseModal } from './components/EditLicenseModal';
+import { BulkActionBar } from './components/BulkActionBar';
+import { BulkResult } from './services/licenseBulk';
+import { Duration, EMPTY_EXPIRY_INPUT, ExpiryInput, ExtensionBase, toExpiryColumns } from './services/expiry';
+import { AuditLogView, LicenseTimelineModal } from './components/AuditLog';
+import { TrashView } from './components/TrashView';
+import { getActivatedMachines, getSeatUsage } from './services/licenseSeats';
+import { ActivationsModal } from './components/ActivationsModal';
+import { OfflineTokenModal } from './components/OfflineTokenModal';
+import { LicenseEventsModal } from './components/LicenseEventsModal';
+import { DEFAULT_DORMANT_DAYS, DORMANT_DAY_OPTIONS } from './services/licenseEvents';
+import { LicenseStatus, getLicenseStatus, isDormant } from './services/licenseStatus';
+import { EMPTY_METADATA_INPUT, LicenseMetadataInput, fromMetadataInput } from './services/licenseMetadata';
+import { LicenseMetadataFields } from './components/LicenseMetadataFields';
+import { ExpiryFields } from './components/ExpiryFields';
+import { Catalog, EMPTY_CATALOG, NO_PRODUCT, fetchCatalog, planDefaults, planExpiryInput, planName, productName } from './services/catalog';
+import { PlanPicker } from './components/PlanPicker';
+import { CatalogView } from './components/CatalogView';
+import { TeamView } from './components/TeamView';
+import { AnalyticsView } from './components/AnalyticsView';
+import { RemindersView } from './components/RemindersView';
+import { WebhooksView } from './components/WebhooksView';
+import { Permission, can, resolveRole } from './services/roles';
+import { LicenseQuery, LicenseSortField, LicenseStats, LicenseStatusFilter, SortDirection } from './services/licenseQuery';
+import { getLicenseRepository, getStoredDataMode, saveDataMode } from './services/licenseRepository';
+import { useDebouncedValue } from './hooks/useDebouncedValue';
+import { RealtimeStatus, changedLicenseKey, describeLicenseChange, mergeActivationChange, mergeLicenseChange } from './services/licenseRealtime';
 
-// --- Components ---
+// --- Main App ---
 
-const Badge = ({ children, color }: { children?: React.ReactNode, color: 'green' | 'red' | 'yellow' | 'blue' }) => {
-  const colors = {
-    green: 'bg-green-500/10 text-green-400 border-green-500/20',
-    red: 'bg-red-500/10 text-red-400 border-red-500/20',
-    yellow: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
-    blue: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
-  };
-  return (
-    <span className={`px-2 py-0.5 rounded text-xs font-medium border ${colors[color]} whitespace-nowrap`}>
-      {children}
-    </span>
-  );
-};
+type View = 'licenses' | 'analytics' | 'catalog' | 'reminders' | 'webhooks' | 'audit' | 'trash' | 'team';
 
-const Modal = ({ isOpen, onClose, title, children }: { isOpen: boolean, onClose: () => void, title: string, children?: React.ReactNode }) => {
-  if (!isOpen) return null;
-  return (
-    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
-      <div className="bg-slate-900 border border-slate-700 rounded-lg shadow-xl w-full max-w-md overflow-hidden animate-fade-in">
-        <div className="flex justify-between items-center p-4 border-b border-slate-700 bg-slate-800/50">
-          <h3 className="font-semibold text-white">{title}</h3>
-          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
-            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
-          </button>
-        </div>
-        <div className="p-4">
-          {children}
-        </div>
-      </div>
-    </div>
-  );
+// Labels are the `tab.<id>` messages.
+const VIEW_TABS: { id: View, permission?: Permission }[] = [
+  { id: 'licenses' },
+  { id: 'analytics' },
+  { id: 'catalog', permission: 'manage_catalog' },
+  { id: 'reminders', permission: 'manage_reminders' },
+  { id: 'webhooks', permission: 'manage_webhooks' },
+  { id: 'audit' },
+  { id: 'trash', permission: 'manage_trash' },
+  { id: 'team', permission: 'manage_team' },
+];
+
+// The catalog, audit log and trash read Supabase tables directly, so demo mode only has
+// the views built on the license repository.
+const DEMO_VIEWS: View[] = ['licenses', 'analytics'];
+
+const SEARCH_DEBOUNCE_MS = 300;
+const HIGHLIGHT_MS = 2500;
+// Live changes refresh the counters at most this often.
+const COUNTS_REFRESH_MS = 1000;
+
+const REALTIME_BADGES: Record<RealtimeStatus, { label: MessageKey, title: MessageKey, className: string }> = {
+  connecting: { label: 'realtime.connecting', title: 'realtime.connectingTitle', className: 'text-slate-500' },
+  live: { label: 'realtime.live', title: 'realtime.liveTitle', className: 'text-green-400' },
+  offline: { label: 'realtime.offline', title: 'realtime.offlineTitle', className: 'text-yellow-400' },
 };
 
-// --- Main App ---
+const EMPTY_STATS: LicenseStats = { total: 0, active: 0, available: 0, expired: 0 };
 
-type SortField = 'license_key' | 'status' | 'hwid' | 'expires_at';
-type SortDirection = 'asc' | 'desc';
+const STATUS_COLORS: Record<LicenseStatus, 'green' | 'yellow' | 'red' | 'blue'> = {
+  pending: 'blue',
+  available: 'blue',
+  active: 'green',
+  expiring: 'yellow',
+  expired: 'red',
+};
 
 export default function App() {
+  const { t, locale, setLocale, formatDate, formatDateTime, formatNumber, formatRelativeTime, describeError } = useI18n();
   const [isConnected, setIsConnected] = useState(false);
+  const [isDemo, setIsDemo] = useState(() => getStoredDataMode() === 'demo');
+  const [profiles, setProfiles] = useState<ConnectionProfile[]>([]);
+  const [activeProfile, setActiveProfile] = useState<ConnectionProfile | null>(null);
+  const [isProfilesModalOpen, setIsProfilesModalOpen] = useState(false);
+  const connectionId = activeProfile?.id ?? null;
+  // Bumped on every (re)connect, including new credentials for the same profile, so
+  // effects bound to the Supabase client subscribe to the new one.
+  const [connectionGeneration, setConnectionGeneration] = useState(0);
+  const [vaultLocked, setVaultLocked] = useState(false);
+  // Credentials from the URL, held until the vault is unlocked.
+  const pendingUrlCredentials = useRef<SupabaseCredentials | null>(null);
+  const [activeView, setActiveView] = useState<View>('licenses');
+  // Only the current page is held in memory; filtering, sorting and paging happen in the database.
   const [licenses, setLicenses] = useState<License[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [stats, setStats] = useState<LicenseStats>(EMPTY_STATS);
+  const [productCounts, setProductCounts] = useState<Map<string, number>>(new Map());
+  const latestRequest = useRef(0);
+  const [realtimeStatus, setRealtimeStatus] = useState<RealtimeStatus | null>(null);
+  const [highlightedKeys, setHighlightedKeys] = useState<Set<string>>(new Set());
+  const [countsVersion, setCountsVersion] = useState(0);
+  // Set when a realtime change added a row the current page cannot place on its own.
+  const pageStale = useRef(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   // Forms
-  const [newLicense, setNewLicense] = useState({ key: '', expiryDate: '', expiryTime: '23:59' });
+  const [newLicense, setNewLicense] = useState({ key: '', maxActivations: 1, planId: null as string | null });
+  const [newLicenseExpiry, setNewLicenseExpiry] = useState<ExpiryInput>(EMPTY_EXPIRY_INPUT);
+  const [newLicenseMetadata, setNewLicenseMetadata] = useState<LicenseMetadataInput>(EMPTY_METADATA_INPUT);
   const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+  const [isExportMenuOpen, setIsExportMenuOpen] = useState(false);
+  const [editingLicense, setEditingLicense] = useState<License | null>(null);
+  const [timelineKey, setTimelineKey] = useState<string | null>(null);
+  const [activationsKey, setActivationsKey] = useState<string | null>(null);
+  // `license` is null when only inspecting a token a customer sent in.
+  const [offlineToken, setOfflineToken] = useState<{ license: License | null } | null>(null);
+  const [eventsKey, setEventsKey] = useState<string | null>(null);
+  // Selected rows are kept by key so a selection can span several pages.
+  const [selected, setSelected] = useState<Map<string, License>>(new Map());
+  const [bulkBusy, setBulkBusy] = useState(false);
+  const [createMode, setCreateMode] = useState<'single' | 'batch'>('single');
+  const [keyFormat, setKeyFormat] = useState<KeyFormat>(() => getStoredKeyFormat());
   const [searchTerm, setSearchTerm] = useState('');
-  const [filterStatus, setFilterStatus] = useState<'all' | 'active' | 'expired' | 'expiring'>('all');
+  const [filterStatus, setFilterStatus] = useState<LicenseStatusFilter>('all');
+  const [dormantDays, setDormantDays] = useState(DEFAULT_DORMANT_DAYS);
+  const [filterProduct, setFilterProduct] = useState<string>('all');
+  const [catalog, setCatalog] = useState<Catalog>(EMPTY_CATALOG);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize, setPageSize] = useState(10);
-  const [sortConfig, setSortConfig] = useState<{ field: SortField, direction: SortDirection }>({
+  const [sortConfig, setSortConfig] = useState<{ field: LicenseSortField, direction: SortDirection }>({
     field: 'expires_at',
     direction: 'asc'
   });
@@ -76,6 +175,15 @@ export default function App() {
   const [authLoading, setAuthLoading] = useState(false);
   const [authError, setAuthError] = useState<string | null>(null);
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
+  const [roleLoading, setRoleLoading] = useState(false);
+
+  // Build-time connection from the .env file, offered as a read-only profile.
+  const envCredentials = useMemo((): SupabaseCredentials | null => {
+    const url = import.meta.env.VITE_SUPABASE_URL;
+    const key = import.meta.env.VITE_SUPABASE_ANON_KEY;
+    return url && key ? { url, key } : null;
+  }, []);
 
   const adminEmails = useMemo(() => {
     const raw = import.meta.env.VITE_ADMIN_EMAILS || '';
@@ -85,53 +193,150 @@ export default function App() {
       .filter(Boolean);
   }, []);
 
-  const isAuthorized = useMemo(() => {
-    if (!user?.email) return false;
-    if (adminEmails.length === 0) return true;
-    return adminEmails.includes(user.email.toLowerCase());
-  }, [user, adminEmails]);
+  // The language is saved in the signed-in user's metadata so it follows them across
+  // devices; this device's choice only applies before login and in demo mode.
+  useEffect(() => {
+    const saved = user?.user_metadata?.locale;
+    const next = user ? (isLocale(saved) ? saved : locale) : getStoredLocale();
+    if (next !== locale) setLocale(next);
+  }, [user?.id]);
+
+  const handleLocaleChange = (next: Locale) => {
+    setLocale(next);
+    const client = getSupabaseClient();
+    if (!user || isDemo || !client) {
+      saveLocale(next);
+      return;
+    }
+    client.auth.updateUser({ data: { locale: next } })
+      .then(({ error }) => { if (error) console.error('Failed to save language preference', error); });
+  };
+
+  // Roles live in the `user_roles` table; VITE_ADMIN_EMAILS only applies before it exists.
+  useEffect(() => {
+    const client = getSupabaseClient();
+    const email = user?.email;
+    if (isDemo || !client || !email) {
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+    setRoleLoading(true);
+    resolveRole(client, email, adminEmails)
+      .then(next => { if (!cancelled) setRole(next); })
+      .catch(err => {
+        console.error('Failed to load role', err);
+        if (!cancelled) setRole(null);
+      })
+      .finally(() => { if (!cancelled) setRoleLoading(false); });
+    return () => { cancelled = true; };
+  }, [user?.email, isDemo, adminEmails, connectionGeneration]);
+
+  // Demo data lives in this browser only, so there is nobody to sign in as.
+  const effectiveRole: Role | null = isDemo ? 'admin' : role;
+  const isAuthorized = effectiveRole !== null;
+  const allowed = (permission: Permission) => can(effectiveRole, permission);
+
+  const hasSession = isDemo || !!user;
+
+  // Each Supabase project keeps its own auth session, so switching picks up the session
+  // stored for that project (or shows the login form) instead of carrying the user over.
+  const applyProfile = (profile: ConnectionProfile) => {
+    // Drop responses still in flight for the previous project.
+    latestRequest.current++;
+    setConnectionGeneration(prev => prev + 1);
+    setActiveProfileId(profile.id);
+    setActiveProfile(profile);
+    setIsConnected(true);
+    setError(null);
+    setLoading(false);
+    setUser(null);
+    setRole(null);
+    setLicenses([]);
+    setTotalCount(0);
+    setStats(EMPTY_STATS);
+    setProductCounts(new Map());
+    setCatalog(EMPTY_CATALOG);
+    setSelected(new Map());
+    setActiveView('licenses');
+  };
+
+  const connectTo = (profile: ConnectionProfile) => {
+    const result = initSupabase(profile);
+    if (result.success) applyProfile(profile);
+    else setError(result.error ? describeError(result.error) : t('connect.failed', { name: profileDisplayName(profile, t) }));
+  };
+
+  const reloadProfiles = () => {
+    const next = getProfiles(envCredentials);
+    setProfiles(next);
+    // Keep the header badge in sync when the active profile was renamed or relabelled.
+    setActiveProfile(prev => next.find(p => p.id === prev?.id) ?? prev);
+  };
+
+  const connectSaved = (urlCredentials: SupabaseCredentials | null) => {
+    const available = getProfiles(envCredentials);
+    setProfiles(available);
+
+    // URL credentials are saved as a profile so the next visit does not need them.
+    if (urlCredentials) {
+      const result = initSupabase(urlCredentials);
+      if (result.success) {
+        const profile = saveProfileForCredentials(urlCredentials);
+        setProfiles(getProfiles(envCredentials));
+        applyProfile(profile);
+        return;
+      }
+      setError(result.error ? describeError(result.error) : t('connect.urlFailed'));
+    }
+
+    // Otherwise the profile used last time, then the .env one or the first saved profile.
+    const profile = available.find(p => p.id === getActiveProfileId()) ?? available[0];
+    if (profile) connectTo(profile);
+  };
+
+  const handleVaultUnlocked = () => {
+    setVaultLocked(false);
+    connectSaved(pendingUrlCredentials.current);
+    pendingUrlCredentials.current = null;
+  };
+
+  const handleForgetDevice = async () => {
+    if (!confirm(t('connect.confirmForgetDevice'))) return;
+    try {
+      await getSupabaseClient()?.auth.signOut();
+    } catch (err) {
+      console.error('Failed to sign out', err);
+    }
+    clearCredentials();
+    // Reload so no client for the forgotten projects stays in memory.
+    window.location.assign(window.location.pathname);
+  };
 
   // Initial Load
   useEffect(() => {
     const initConnection = () => {
-      // 1. Try Environment Variables (from .env file)
-      const envUrl = import.meta.env.VITE_SUPABASE_URL;
-      const envKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-      
-      if (envUrl && envKey) {
-        const result = initSupabase({ url: envUrl, key: envKey });
-        if (result.success) {
-          setIsConnected(true);
-          return;
-        } else {
-          setError(result.error || "Không thể kết nối với biến môi trường");
-        }
-      }
+      // 0. URL parameters are removed from the address bar right away, even in demo mode
+      const urlCredentials = takeCredentialParams();
 
-      // 2. Try URL parameters
-      const params = new URLSearchParams(window.location.search);
-      const urlParam = params.get('sb_url');
-      const keyParam = params.get('sb_key');
-
-      if (urlParam && keyParam) {
-        const result = initSupabase({ url: urlParam, key: keyParam });
-        if (result.success) {
-          saveCredentials({ url: urlParam, key: keyParam });
-          setIsConnected(true);
-          return;
-        } else {
-          setError(result.error || "Không thể kết nối với thông tin xác thực từ URL");
-        }
+      // 1. Demo mode, remembered from an earlier visit or requested with ?demo=1
+      if (new URLSearchParams(window.location.search).get('demo') === '1') {
+        saveDataMode('demo');
+        setIsDemo(true);
+      }
+      if (getStoredDataMode() === 'demo') {
+        setIsConnected(true);
+        return;
       }
 
-      // 3. Try Local Storage
-      const stored = getStoredCredentials();
-      if (stored) {
-        const result = initSupabase(stored);
-        if (result.success) {
-          setIsConnected(true);
-        }
+      // Encrypted profiles need the passphrase first; URL credentials wait for it too.
+      if (isVaultLocked()) {
+        pendingUrlCredentials.current = urlCredentials;
+        setVaultLocked(true);
+        return;
       }
+      connectSaved(urlCredentials);
     };
 
     initConnection();
@@ -140,9 +345,9 @@ export default function App() {
   // Fetch data when connected and authorized
   useEffect(() => {
     if (isConnected && isAuthorized) {
-      fetchLicenses();
+      loadCatalog();
     }
-  }, [isConnected, isAuthorized]);
+  }, [isConnected, isAuthorized, effectiveRole, connectionGeneration]);
 
   // Auth listener
   useEffect(() => {
@@ -171,187 +376,230 @@ export default function App() {
       mounted = false;
       subscription.unsubscribe();
     };
-  }, [isConnected]);
+  }, [isConnected, connectionGeneration]);
 
   const fetchLicenses = async () => {
     if (!isAuthorized) return;
-    const client = getSupabaseClient();
-    if (!client) return;
+    const repository = getLicenseRepository();
+    if (!repository) return;
 
+    // Responses can arrive out of order while the user types; only the latest one is applied.
+    const requestId = ++latestRequest.current;
     setLoading(true);
     try {
-      const { data, error } = await client
-        .from('licenses')
-        .select('*')
-        .order('expires_at', { ascending: true });
+      const [page, nextStats, nextProductCounts] = await Promise.all([
+        repository.query(licenseQuery, currentPage, pageSize),
+        repository.stats(filterProduct),
+        repository.productCounts(catalog.products.map(p => p.id)),
+      ]);
+      if (requestId !== latestRequest.current) return;
 
-      if (error) throw error;
-      setLicenses(data || []);
+      setLicenses(page.licenses);
+      setTotalCount(page.total);
+      setStats(nextStats);
+      setProductCounts(nextProductCounts);
       setError(null);
     } catch (err: any) {
       console.error(err);
-      setError(err.message);
+      if (requestId === latestRequest.current) setError(describeError(err));
     } finally {
-      setLoading(false);
+      if (requestId === latestRequest.current) setLoading(false);
     }
   };
 
-  const handleCreateLicense = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const client = getSupabaseClient();
-    if (!client) return;
-
+  const refreshCounts = async () => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    const requestId = latestRequest.current;
     try {
-      // Combine date and time
-      const finalDate = new Date(`${newLicense.expiryDate}T${newLicense.expiryTime}:00`);
-      
-      const { error } = await client.from('licenses').insert({
-        license_key: newLicense.key,
-        expires_at: finalDate.toISOString(),
-        hwid: null
+      const [nextStats, nextProductCounts] = await Promise.all([
+        repository.stats(filterProduct),
+        repository.productCounts(catalog.products.map(p => p.id)),
+      ]);
+      if (requestId !== latestRequest.current) return;
+      setStats(nextStats);
+      setProductCounts(nextProductCounts);
+    } catch (err) {
+      console.error('Failed to refresh license counts', err);
+    }
+  };
+
+  const highlightRow = (key: string | null) => {
+    if (!key) return;
+    setHighlightedKeys(prev => new Set(prev).add(key));
+    setTimeout(() => {
+      setHighlightedKeys(prev => {
+        const next = new Set(prev);
+        next.delete(key);
+        return next;
       });
+    }, HIGHLIGHT_MS);
+  };
 
-      if (error) throw error;
+  // Realtime listener: changes made by other admins or by client activations are merged
+  // into the current page instead of refetching it.
+  useEffect(() => {
+    if (!isConnected || !isAuthorized) return;
+    const repository = getLicenseRepository();
+    if (!repository?.subscribe) return;
 
-      setIsAddModalOpen(false);
-      setNewLicense({ key: '', expiryDate: '', expiryTime: '23:59' });
+    const unsubscribe = repository.subscribe({
+      onLicenseChange: payload => {
+        const query = currentQuery.current;
+        const { totalDelta, stale } = describeLicenseChange(payload, query);
+        setLicenses(prev => mergeLicenseChange(prev, payload, query));
+        if (totalDelta !== 0) setTotalCount(prev => Math.max(0, prev + totalDelta));
+        if (stale) pageStale.current = true;
+        highlightRow(changedLicenseKey(payload));
+        setCountsVersion(prev => prev + 1);
+      },
+      onActivationChange: payload => {
+        setLicenses(prev => mergeActivationChange(prev, payload));
+        highlightRow(changedLicenseKey(payload));
+        setCountsVersion(prev => prev + 1);
+      },
+      onStatusChange: setRealtimeStatus,
+    });
+
+    return () => {
+      unsubscribe();
+      setRealtimeStatus(null);
+    };
+  }, [isConnected, isAuthorized, connectionGeneration]);
+
+  const debouncedCountsVersion = useDebouncedValue(countsVersion, COUNTS_REFRESH_MS);
+
+  // A page that gained rows is fetched again, which refreshes the counts as well.
+  useEffect(() => {
+    if (debouncedCountsVersion === 0) return;
+    if (pageStale.current) {
+      pageStale.current = false;
       fetchLicenses();
-    } catch (err: any) {
-      alert(`Lỗi khi tạo license: ${err.message}`);
+    } else {
+      refreshCounts();
     }
-  };
+  }, [debouncedCountsVersion]);
 
-  const handleResetHWID = async (key: string) => {
-    if (!isAuthorized) return;
+  const loadCatalog = async () => {
     const client = getSupabaseClient();
     if (!client) return;
-    if (!confirm('Bạn có chắc chắn muốn mở khóa license này? Người dùng sẽ có thể liên kết với máy mới.')) return;
+    try {
+      setCatalog(await fetchCatalog(client));
+    } catch (err) {
+      console.error('Failed to load product catalog', err);
+    }
+  };
+
+  const handleCreateLicense = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    if (newKeyValidation?.reason === 'checksum') return;
 
     try {
-      const { error } = await client
-        .from('licenses')
-        .update({ hwid: null })
-        .eq('license_key', key);
-      
-      if (error) throw error;
+      const plan = catalog.plans.find(p => p.id === newLicense.planId);
+      const created: License = {
+        ...(plan ? planDefaults(plan) : {}),
+        license_key: newLicense.key.trim().toUpperCase(),
+        ...toExpiryColumns(newLicenseExpiry),
+        hwid: null,
+        max_activations: newLicense.maxActivations,
+        ...fromMetadataInput(newLicenseMetadata)
+      };
+      const [result] = await repository.create([created]);
+      if (result.status !== 'created') throw result.error ?? new Error(t('licenses.keyExists'));
+
+      setIsAddModalOpen(false);
+      setNewLicense({ key: '', maxActivations: 1, planId: null });
+      setNewLicenseExpiry(EMPTY_EXPIRY_INPUT);
+      setNewLicenseMetadata(EMPTY_METADATA_INPUT);
       fetchLicenses();
     } catch (err: any) {
-      alert(err.message);
+      alert(t('licenses.createFailed', { message: describeError(err) }));
     }
   };
 
   const handleDelete = async (key: string) => {
     if (!isAuthorized) return;
-    const client = getSupabaseClient();
-    if (!client) return;
-    if (!confirm('Hành động này không thể hoàn tác. Xóa license?')) return;
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    const license = licenses.find(l => l.license_key === key);
+    if (!license) return;
+    if (!confirm(t('licenses.confirmTrash'))) return;
 
     try {
-      const { error } = await client
-        .from('licenses')
-        .delete()
-        .eq('license_key', key);
-      
-      if (error) throw error;
+      const result = await repository.delete([license]);
+      if (result.failed.length > 0) throw result.failed[0].error;
       fetchLicenses();
     } catch (err: any) {
-      alert(err.message);
+      alert(describeError(err));
     }
   };
 
   const generateRandomKey = (type: 'random' | 'friendly' = 'random') => {
-    const today = new Date();
-    const year = today.getFullYear();
-    
-    let key = '';
-    
-    if (type === 'random') {
-       // VIP-XXXX-202X
-       const random = Math.random().toString(36).substring(2, 8).toUpperCase();
-       key = `KEY-${random}-${year}`;
-    } else {
-       // CUSTOMER001-JAN2026
-       const months = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
-       const month = months[today.getMonth()];
-       const randNum = Math.floor(Math.random() * 999).toString().padStart(3, '0');
-       key = `USER${randNum}-${month}${year}`;
-    }
-    
+    if (type === 'random' && keyFormat.alphabet.length < 2) return;
+    const key = type === 'random'
+      ? generateSecureKey(keyFormat)
+      : expandKeyTemplate(KEY_TEMPLATE_PRESETS.friendly, { seq: 1, date: new Date() });
     setNewLicense(prev => ({ ...prev, key }));
   };
 
+  // Picking a plan pre-fills the expiry (or duration) and seat count; both stay editable.
+  const handlePlanSelect = (plan: Plan | null) => {
+    if (!plan) {
+      setNewLicense(prev => ({ ...prev, planId: null }));
+      return;
+    }
+    setNewLicenseExpiry(prev => planExpiryInput(plan, prev));
+    setNewLicense(prev => ({ ...prev, planId: plan.id, maxActivations: plan.max_activations }));
+  };
+
+  const handleKeyFormatChange = (format: KeyFormat) => {
+    setKeyFormat(format);
+    saveKeyFormat(format);
+  };
+
+  // Only keys that look like our generated format can be checksum-verified;
+  // anything else (legacy or hand-picked keys) just gets a soft warning.
+  const newKeyValidation = useMemo(() => {
+    if (!newLicense.key.trim()) return null;
+    const result = validateKey(newLicense.key, keyFormat);
+    if (!('reason' in result) || result.reason !== 'format') return result.valid ? null : result;
+    // Keys from the "friendly" button carry a checksum too, in their own shape.
+    const friendly = validateKey(newLicense.key, FRIENDLY_KEY_FORMAT);
+    if (!('reason' in friendly)) return null;
+    return friendly.reason === 'checksum' ? friendly : result;
+  }, [newLicense.key, keyFormat]);
+
   // Filter & Stats
+  const debouncedSearch = useDebouncedValue(searchTerm, SEARCH_DEBOUNCE_MS);
+
+  const licenseQuery = useMemo<LicenseQuery>(() => ({
+    search: debouncedSearch,
+    status: filterStatus,
+    dormantDays,
+    product: filterProduct,
+    sort: sortConfig,
+  }), [debouncedSearch, filterStatus, dormantDays, filterProduct, sortConfig]);
+
+  // The realtime subscription outlives filter changes; it reads the query through this.
+  const currentQuery = useRef(licenseQuery);
+  currentQuery.current = licenseQuery;
+
   useEffect(() => {
     setCurrentPage(1);
-  }, [searchTerm, filterStatus, pageSize]);
-
-  const filteredLicenses = useMemo(() => {
-    return licenses.filter(l => {
-      // 1. Search Filter
-      const matchesSearch = l.license_key.toLowerCase().includes(searchTerm.toLowerCase()) || 
-        (l.hwid && l.hwid.toLowerCase().includes(searchTerm.toLowerCase()));
-      
-      if (!matchesSearch) return false;
-
-      // 2. Status/Date Filter
-      const now = new Date();
-      const expiryDate = new Date(l.expires_at);
-      const isExpired = expiryDate < now;
-      
-      const msPerDay = 1000 * 60 * 60 * 24;
-      const diffTime = expiryDate.getTime() - now.getTime();
-      const diffDays = diffTime / msPerDay;
-      const isExpiringSoon = !isExpired && diffDays <= 7;
-
-      switch (filterStatus) {
-        case 'active': return !isExpired;
-        case 'expired': return isExpired;
-        case 'expiring': return isExpiringSoon;
-        default: return true; // 'all'
-      }
-    });
-  }, [licenses, searchTerm, filterStatus]);
-
-  const getLicenseStatus = (license: License) => {
-    const now = new Date();
-    const expiryDate = new Date(license.expires_at);
-    const isExpired = expiryDate < now;
-
-    const msPerDay = 1000 * 60 * 60 * 24;
-    const diffTime = expiryDate.getTime() - now.getTime();
-    const diffDays = diffTime / msPerDay;
-    const isExpiringSoon = !isExpired && diffDays <= 7;
-
-    if (isExpired) return 'expired';
-    if (isExpiringSoon) return 'expiring';
-    if (license.hwid) return 'active';
-    return 'available';
-  };
+  }, [debouncedSearch, filterStatus, dormantDays, filterProduct, pageSize]);
 
-  const sortedLicenses = useMemo(() => {
-    const sorted = [...filteredLicenses];
-    sorted.sort((a, b) => {
-      const dirMultiplier = sortConfig.direction === 'asc' ? 1 : -1;
-      
-      switch (sortConfig.field) {
-        case 'license_key':
-          return a.license_key.localeCompare(b.license_key) * dirMultiplier;
-        case 'hwid':
-          return (a.hwid || '').localeCompare(b.hwid || '') * dirMultiplier;
-        case 'status': {
-          const order = ['available', 'active', 'expiring', 'expired'];
-          const diff = order.indexOf(getLicenseStatus(a)) - order.indexOf(getLicenseStatus(b));
-          return diff * dirMultiplier;
-        }
-        case 'expires_at':
-        default:
-          return (new Date(a.expires_at).getTime() - new Date(b.expires_at).getTime()) * dirMultiplier;
-      }
-    });
-    return sorted;
-  }, [filteredLicenses, sortConfig]);
+  // A selection only makes sense for the filter it was made under.
+  useEffect(() => {
+    setSelected(new Map());
+  }, [debouncedSearch, filterStatus, dormantDays, filterProduct]);
 
-  const totalPages = Math.max(1, Math.ceil(sortedLicenses.length / pageSize));
+  useEffect(() => {
+    if (isConnected && isAuthorized) fetchLicenses();
+  }, [isConnected, isAuthorized, licenseQuery, currentPage, pageSize, catalog, connectionGeneration]);
+
+  const totalPages = Math.max(1, Math.ceil(totalCount / pageSize));
 
   useEffect(() => {
     if (currentPage > totalPages) {
@@ -359,12 +607,7 @@ export default function App() {
     }
   }, [totalPages, currentPage]);
 
-  const paginatedLicenses = useMemo(() => {
-    const startIdx = (currentPage - 1) * pageSize;
-    return sortedLicenses.slice(startIdx, startIdx + pageSize);
-  }, [sortedLicenses, currentPage, pageSize]);
-
-  const handleSort = (field: SortField) => {
+  const handleSort = (field: LicenseSortField) => {
     setSortConfig(prev => {
       if (prev.field === field) {
         return {
@@ -376,6 +619,104 @@ export default function App() {
     });
   };
 
+  // Exports everything matching the current search/filter/sort, not just the visible page.
+  const handleExport = async (format: ExportFormat) => {
+    setIsExportMenuOpen(false);
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    try {
+      const matching = await repository.queryAll(licenseQuery);
+      downloadBlob(exportLicenses(matching, format, { locale }), exportFileName(format));
+    } catch (err: any) {
+      alert(describeError(err));
+    }
+  };
+
+  const isPageSelected = licenses.length > 0 && licenses.every(l => selected.has(l.license_key));
+
+  const toggleSelected = (license: License) => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      if (next.has(license.license_key)) next.delete(license.license_key);
+      else next.set(license.license_key, license);
+      return next;
+    });
+  };
+
+  const togglePageSelected = () => {
+    setSelected(prev => {
+      const next = new Map(prev);
+      licenses.forEach(l => (isPageSelected ? next.delete(l.license_key) : next.set(l.license_key, l)));
+      return next;
+    });
+  };
+
+  const selectAllMatching = async () => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    try {
+      const matching = await repository.queryAll(licenseQuery);
+      setSelected(new Map(matching.map(l => [l.license_key, l])));
+    } catch (err: any) {
+      alert(describeError(err));
+    }
+  };
+
+  const selectedLicenses = useMemo(() => Array.from(selected.values()), [selected]);
+
+  const runBulkAction = async (confirmMessage: string, action: () => Promise<BulkResult>) => {
+    if (!isAuthorized) return;
+    if (selectedLicenses.length === 0 || !confirm(confirmMessage)) return;
+
+    setBulkBusy(true);
+    try {
+      const result = await action();
+      if (result.failed.length > 0) {
+        const details = result.failed.slice(0, 10).map(f => `${f.license_key}: ${describeError(f.error)}`).join('\n');
+        const more = result.failed.length > 10 ? `\n${t('bulk.moreFailures', { count: result.failed.length - 10 })}` : '';
+        alert(t('bulk.partialFailure', { succeeded: result.succeeded.length, requested: result.requested, details: details + more }));
+      }
+      const failedKeys = new Set(result.failed.map(f => f.license_key));
+      setSelected(new Map(selectedLicenses.filter(l => failedKeys.has(l.license_key)).map(l => [l.license_key, l])));
+      fetchLicenses();
+    } catch (err: any) {
+      alert(describeError(err));
+    } finally {
+      setBulkBusy(false);
+    }
+  };
+
+  const handleBulkResetHWID = () => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    runBulkAction(
+      t('bulk.confirmResetHwid', { count: selectedLicenses.length }),
+      () => repository.resetHwid(selectedLicenses)
+    );
+  };
+
+  const handleBulkExtend = (duration: Duration, base: ExtensionBase) => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    runBulkAction(
+      t('bulk.confirmExtend', { count: selectedLicenses.length }),
+      () => repository.extend(selectedLicenses, duration, base)
+    );
+  };
+
+  const handleBulkDelete = () => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    runBulkAction(
+      t('bulk.confirmDelete', { count: selectedLicenses.length }),
+      () => repository.delete(selectedLicenses)
+    );
+  };
+
+  const handleBulkExport = (format: ExportFormat) => {
+    downloadBlob(exportLicenses(selectedLicenses, format, { locale }), exportFileName(format));
+  };
+
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     const client = getSupabaseClient();
@@ -389,18 +730,12 @@ export default function App() {
         password: loginForm.password,
       });
       if (signInError) {
-        setAuthError(signInError.message);
+        setAuthError(describeError(signInError));
         return;
       }
-      const signedInEmail = data.user?.email?.toLowerCase();
-      if (signedInEmail && adminEmails.length > 0 && !adminEmails.includes(signedInEmail)) {
-        setAuthError('Tài khoản không có quyền truy cập.');
-        await client.auth.signOut();
-      } else {
-        setLoginForm(prev => ({ ...prev, password: '' }));
-      }
+      setLoginForm(prev => ({ ...prev, password: '' }));
     } catch (err: any) {
-      setAuthError(err.message);
+      setAuthError(describeError(err));
     } finally {
       setAuthLoading(false);
     }
@@ -413,41 +748,79 @@ export default function App() {
     setLoginForm({ email: '', password: '' });
   };
 
-  const stats = useMemo(() => {
-    const now = new Date();
-    return {
-      total: licenses.length,
-      active: licenses.filter(l => l.hwid !== null).length,
-      expired: licenses.filter(l => new Date(l.expires_at) < now).length,
-      available: licenses.filter(l => l.hwid === null && new Date(l.expires_at) > now).length
-    };
-  }, [licenses]);
+  const handleStartDemo = () => {
+    saveDataMode('demo');
+    setIsDemo(true);
+    setIsConnected(true);
+  };
+
+  const handleExitDemo = () => {
+    saveDataMode('supabase');
+    // Reload so the Supabase connection is set up again from scratch.
+    window.location.assign(window.location.pathname);
+  };
+
+  const productBreakdown = useMemo(() => [
+    ...catalog.products.map(p => ({ id: p.id, name: p.name, count: productCounts.get(p.id) ?? 0 })),
+    { id: NO_PRODUCT, name: t('product.none'), count: productCounts.get(NO_PRODUCT) ?? 0 },
+  ], [productCounts, catalog, t]);
 
   return (
     <div className="min-h-screen bg-slate-950 text-slate-200 font-sans">
       {/* Header */}
       <header className="border-b border-slate-800 bg-slate-900/50 backdrop-blur sticky top-0 z-40">
+        {activeProfile && !isDemo && <div className={`h-1 ${ENVIRONMENT_BADGES[activeProfile.environment].stripe}`} />}
         <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
           <div className="flex items-center gap-3">
             <div className="p-2 bg-blue-600 rounded">
               <Key className="w-5 h-5 text-white" />
             </div>
-            <span className="font-bold text-lg text-white">Quản Lý License Pro</span>
+            <span className="font-bold text-lg text-white">{t('app.title')}</span>
           </div>
           
           <div className="flex items-center gap-3">
             <div className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/50 rounded-full border border-slate-800">
                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : 'bg-slate-500'}`} />
-               <span className="text-xs text-slate-400 font-medium hidden sm:inline">{isConnected ? 'Đã kết nối' : 'Ngoại tuyến'}</span>
+               <span className="text-xs text-slate-400 font-medium hidden sm:inline">{t(isDemo ? 'header.demoData' : isConnected ? 'header.connected' : 'header.offline')}</span>
+               {realtimeStatus && (
+                 <span
+                   className={`flex items-center gap-1 text-[10px] font-semibold uppercase pl-2 border-l border-slate-700 ${REALTIME_BADGES[realtimeStatus].className}`}
+                   title={t(REALTIME_BADGES[realtimeStatus].title)}
+                 >
+                   <Radio className={`w-3 h-3 ${realtimeStatus === 'live' ? 'animate-pulse' : ''}`} />
+                   <span className="hidden sm:inline">{t(REALTIME_BADGES[realtimeStatus].label)}</span>
+                 </span>
+               )}
             </div>
-            {user && (
+            <LanguageSwitcher value={locale} onChange={handleLocaleChange} />
+            {!isDemo && profiles.length > 0 && (
+              <ConnectionSwitcher
+                profiles={profiles}
+                active={activeProfile}
+                onSwitch={connectTo}
+                onManage={() => setIsProfilesModalOpen(true)}
+              />
+            )}
+            {isDemo && (
+              <div className="flex items-center gap-2 bg-amber-500/10 border border-amber-500/30 rounded-full px-3 py-1.5 text-xs text-amber-300">
+                <span title={t('header.demoModeTitle')}>{t('header.demoMode')}</span>
+                <button
+                  onClick={handleExitDemo}
+                  className="text-amber-200 hover:text-white transition-colors font-medium"
+                >
+                  {t('header.exitDemo')}
+                </button>
+              </div>
+            )}
+            {user && !isDemo && (
               <div className="flex items-center gap-2 bg-slate-800/50 border border-slate-800 rounded-full px-3 py-1.5 text-xs text-slate-300">
                 <span>{user.email}</span>
+                {role && <span className="text-slate-500">· {t(`role.${role as Role}`)}</span>}
                 <button
                   onClick={handleLogout}
                   className="text-rose-400 hover:text-rose-200 transition-colors font-medium"
                 >
-                  Đăng xuất
+                  {t('header.signOut')}
                 </button>
               </div>
             )}
@@ -459,38 +832,58 @@ export default function App() {
       <main className="max-w-7xl mx-auto px-4 py-8">
         
         <div className="space-y-6">
-          {!isConnected && (
+          {!isConnected && vaultLocked && (
+            <VaultUnlockForm onUnlocked={handleVaultUnlocked} onForget={handleForgetDevice} />
+          )}
+
+          {!isConnected && !vaultLocked && (
             <div className="bg-blue-900/20 border border-blue-500/20 p-4 rounded-lg flex items-start gap-3">
               <AlertTriangle className="w-5 h-5 text-blue-400 mt-0.5" />
               <div>
-                <h3 className="text-sm font-semibold text-blue-300">Chưa kết nối cơ sở dữ liệu</h3>
+                <h3 className="text-sm font-semibold text-blue-300">{t('connect.notConnected')}</h3>
                 <p className="text-sm text-blue-400/70 mt-1">
-                  Vui lòng cấu hình thông tin xác thực Supabase bằng một trong các phương thức sau:
+                  {t('connect.intro')}
                 </p>
                 <ul className="text-xs text-blue-400/70 mt-2 space-y-1 list-disc list-inside">
                   <li>
-                    <strong>Phương thức 1 (Khuyến nghị):</strong> Tạo file <code className="bg-black/30 px-1 py-0.5 rounded">.env</code> trong thư mục gốc với nội dung:
+                    <strong>{t('connect.method1')}</strong> {t('connect.method1Before')} <code className="bg-black/30 px-1 py-0.5 rounded">.env</code> {t('connect.method1After')}
                     <br/>
                     <code className="bg-black/30 px-1 py-0.5 rounded block mt-1">VITE_SUPABASE_URL=your-url<br/>VITE_SUPABASE_ANON_KEY=your-key</code>
                   </li>
                   <li>
-                    <strong>Phương thức 2:</strong> Thêm tham số URL: <code className="bg-black/30 px-1 py-0.5 rounded">?sb_url=YOUR_URL&sb_key=YOUR_ANON_KEY</code>
+                    <strong>{t('connect.method2')}</strong>{' '}
+                    <button
+                      onClick={() => setIsProfilesModalOpen(true)}
+                      className="font-medium text-blue-300 hover:text-white underline underline-offset-2 transition-colors"
+                    >
+                      {t('connect.method2Link')}
+                    </button>
+                    {' '}{t('connect.method2Note')}
+                  </li>
+                  <li>
+                    <strong>{t('connect.method3')}</strong> {t('connect.method3Before')} <code className="bg-black/30 px-1 py-0.5 rounded">?sb_url=YOUR_URL&sb_key=YOUR_ANON_KEY</code> {t('connect.method3After')}
                   </li>
                 </ul>
-                {error && <p className="text-xs text-red-400 mt-2">Lỗi: {error}</p>}
+                {error && <p className="text-xs text-red-400 mt-2">{t('common.error', { message: error })}</p>}
+                <button
+                  onClick={handleStartDemo}
+                  className="mt-3 text-xs font-medium text-blue-300 hover:text-white underline underline-offset-2 transition-colors"
+                >
+                  {t('connect.tryDemo')}
+                </button>
               </div>
             </div>
           )}
 
-          {isConnected && !user && (
+          {isConnected && !hasSession && (
             <div className="bg-slate-900 border border-slate-800 p-6 rounded-lg max-w-xl">
-              <h3 className="text-lg font-semibold text-white mb-2">Đăng nhập quản trị</h3>
+              <h3 className="text-lg font-semibold text-white mb-2">{t('auth.title')}</h3>
               <p className="text-sm text-slate-400 mb-4">
-                Chỉ thành viên trong danh sách quản trị mới có quyền truy cập dashboard.
+                {t('auth.intro')}
               </p>
               <form onSubmit={handleLogin} className="space-y-3">
                 <div>
-                  <label className="block text-xs font-medium text-slate-400 mb-1">Email</label>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">{t('auth.email')}</label>
                   <input
                     type="email"
                     value={loginForm.email}
@@ -500,7 +893,7 @@ export default function App() {
                   />
                 </div>
                 <div>
-                  <label className="block text-xs font-medium text-slate-400 mb-1">Mật khẩu</label>
+                  <label className="block text-xs font-medium text-slate-400 mb-1">{t('auth.password')}</label>
                   <input
                     type="password"
                     value={loginForm.password}
@@ -517,55 +910,93 @@ export default function App() {
                   disabled={authLoading}
                   className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors"
                 >
-                  {authLoading ? 'Đang xử lý...' : 'Đăng nhập'}
+                  {authLoading ? t('common.processing') : t('auth.signIn')}
                 </button>
               </form>
-              {adminEmails.length > 0 && (
-                <p className="text-xs text-slate-500 mt-4">
-                  Email được phép: {adminEmails.join(', ')}
-                </p>
-              )}
             </div>
           )}
 
-          {isConnected && user && !isAuthorized && (
+          {isConnected && user && !isAuthorized && !roleLoading && (
             <div className="bg-red-900/10 border border-red-500/20 p-4 rounded-lg">
               <p className="text-sm text-red-200 font-medium">
-                Tài khoản {user.email} không nằm trong danh sách quản trị. Vui lòng liên hệ quản trị viên.
+                {t('auth.notAuthorized', { email: user.email ?? '' })}
               </p>
             </div>
           )}
 
-          {(!isConnected || !user || !isAuthorized) && (
+          {(!isConnected || !hasSession || !isAuthorized) && (
             <div className="text-center text-slate-500 text-sm">
-              {!isConnected ? 'Đang chờ kết nối...' : !user ? 'Vui lòng đăng nhập để tiếp tục.' : 'Bạn không có quyền xem nội dung này.'}
+              {t(!isConnected ? 'auth.waitingConnection' : !hasSession ? 'auth.signInToContinue' : roleLoading ? 'auth.checkingAccess' : 'auth.noAccess')}
             </div>
           )}
 
-          {(!isConnected || !user || !isAuthorized) && <div className="h-10" />}
+          {(!isConnected || !hasSession || !isAuthorized) && <div className="h-10" />}
+
+          {isConnected && hasSession && isAuthorized && (
+          <>
+          {/* View Tabs */}
+          <div className="flex gap-1 border-b border-slate-800">
+            {VIEW_TABS.filter(tab => (!isDemo || DEMO_VIEWS.includes(tab.id)) && (!tab.permission || allowed(tab.permission))).map(tab => (
+              <button
+                key={tab.id}
+                onClick={() => setActiveView(tab.id)}
+                className={`px-4 py-2 text-sm font-medium border-b-2 -mb-px transition-colors ${activeView === tab.id ? 'border-blue-500 text-white' : 'border-transparent text-slate-400 hover:text-white'}`}
+              >
+                {t(`tab.${tab.id}`)}
+              </button>
+            ))}
+          </div>
+
+          {activeView === 'catalog' && <CatalogView catalog={catalog} onChanged={loadCatalog} />}
+
+          {activeView === 'analytics' && <AnalyticsView catalog={catalog} />}
+
+          {activeView === 'reminders' && <RemindersView />}
+
+          {activeView === 'webhooks' && <WebhooksView />}
+
+          {activeView === 'audit' && <AuditLogView />}
 
-          {isConnected && user && isAuthorized && (
+          {activeView === 'trash' && <TrashView onChanged={fetchLicenses} />}
+
+          {activeView === 'team' && <TeamView currentEmail={user?.email ?? null} />}
+
+          {activeView === 'licenses' && (
           <>
           {/* Stats Cards */}
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
             <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
-              <div className="text-slate-500 text-xs font-medium uppercase mb-1">Tổng License</div>
-              <div className="text-2xl font-bold text-white">{stats.total}</div>
+              <div className="text-slate-500 text-xs font-medium uppercase mb-1">{t('stats.total')}</div>
+              <div className="text-2xl font-bold text-white">{formatNumber(stats.total)}</div>
             </div>
             <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
-              <div className="text-green-500/80 text-xs font-medium uppercase mb-1">Người dùng đang hoạt động</div>
-              <div className="text-2xl font-bold text-white">{stats.active}</div>
+              <div className="text-green-500/80 text-xs font-medium uppercase mb-1">{t('stats.active')}</div>
+              <div className="text-2xl font-bold text-white">{formatNumber(stats.active)}</div>
             </div>
             <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
-              <div className="text-blue-500/80 text-xs font-medium uppercase mb-1">Có sẵn</div>
-              <div className="text-2xl font-bold text-white">{stats.available}</div>
+              <div className="text-blue-500/80 text-xs font-medium uppercase mb-1">{t('stats.available')}</div>
+              <div className="text-2xl font-bold text-white">{formatNumber(stats.available)}</div>
             </div>
             <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
-              <div className="text-red-500/80 text-xs font-medium uppercase mb-1">Đã hết hạn</div>
-              <div className="text-2xl font-bold text-white">{stats.expired}</div>
+              <div className="text-red-500/80 text-xs font-medium uppercase mb-1">{t('stats.expired')}</div>
+              <div className="text-2xl font-bold text-white">{formatNumber(stats.expired)}</div>
             </div>
           </div>
 
+          {catalog.products.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              {productBreakdown.map(item => (
+                <button
+                  key={item.id}
+                  onClick={() => setFilterProduct(prev => prev === item.id ? 'all' : item.id)}
+                  className={`px-3 py-1 rounded-full border transition-colors ${filterProduct === item.id ? 'border-blue-500 bg-blue-500/10 text-white' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {item.name} <span className="text-slate-500">{formatNumber(item.count)}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Toolbar */}
           <div className="flex flex-col sm:flex-row justify-between gap-4">
             <div className="flex flex-col sm:flex-row flex-1 gap-2 max-w-2xl">
@@ -573,7 +1004,7 @@ export default function App() {
                 <Search className="absolute left-3 top-2.5 w-4 h-4 text-slate-500" />
                 <input 
                   type="text" 
-                  placeholder="Tìm kiếm key hoặc HWID..." 
+                  placeholder={t('filter.searchPlaceholder')}
                   className="w-full bg-slate-900 border border-slate-800 rounded pl-10 pr-4 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors"
                   value={searchTerm}
                   onChange={e => setSearchTerm(e.target.value)}
@@ -586,13 +1017,36 @@ export default function App() {
                   onChange={(e) => setFilterStatus(e.target.value as any)}
                   className="w-full sm:w-48 bg-slate-900 border border-slate-800 rounded pl-10 pr-4 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors appearance-none cursor-pointer"
                 >
-                  <option value="all">Tất cả trạng thái</option>
-                  <option value="active">Chỉ đang hoạt động</option>
-                  <option value="expiring">Sắp hết hạn (7 ngày)</option>
-                  <option value="expired">Đã hết hạn</option>
+                  <option value="all">{t('filter.allStatuses')}</option>
+                  <option value="pending">{t('filter.pending')}</option>
+                  <option value="active">{t('filter.active')}</option>
+                  <option value="expiring">{t('filter.expiring')}</option>
+                  <option value="expired">{t('filter.expired')}</option>
+                  <option value="dormant">{t('filter.dormant')}</option>
                 </select>
                 <div className="absolute right-3 top-3 w-2 h-2 border-r border-b border-slate-500 rotate-45 pointer-events-none sm:block hidden"></div>
               </div>
+              {filterStatus === 'dormant' && (
+                <select
+                  value={dormantDays}
+                  onChange={e => setDormantDays(Number(e.target.value))}
+                  className="w-full sm:w-36 bg-slate-900 border border-slate-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors cursor-pointer"
+                  title={t('filter.dormantTitle')}
+                >
+                  {DORMANT_DAY_OPTIONS.map(days => <option key={days} value={days}>{t('filter.dormantDays', { count: days })}</option>)}
+                </select>
+              )}
+              {catalog.products.length > 0 && (
+                <select
+                  value={filterProduct}
+                  onChange={e => setFilterProduct(e.target.value)}
+                  className="w-full sm:w-44 bg-slate-900 border border-slate-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors cursor-pointer"
+                >
+                  <option value="all">{t('filter.allProducts')}</option>
+                  {catalog.products.map(product => <option key={product.id} value={product.id}>{product.name}</option>)}
+                  <option value={NO_PRODUCT}>{t('product.none')}</option>
+                </select>
+              )}
             </div>
             
             <div className="flex gap-2">
@@ -600,30 +1054,102 @@ export default function App() {
                 onClick={fetchLicenses} 
                 disabled={!isConnected}
                 className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed" 
-                title="Làm mới dữ liệu"
+                title={t('licenses.refresh')}
               >
                 <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
               </button>
+              {!isDemo && allowed('create') && (
+              <button 
+                onClick={() => setIsImportModalOpen(true)}
+                disabled={!isConnected}
+                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed" 
+                title={t('licenses.import')}
+              >
+                <Upload className="w-5 h-5" />
+              </button>
+              )}
+              <button 
+                onClick={() => setOfflineToken({ license: null })}
+                className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors" 
+                title={t('licenses.checkOfflineToken')}
+              >
+                <FileKey className="w-5 h-5" />
+              </button>
+              <div className="relative">
+                <button 
+                  onClick={() => setIsExportMenuOpen(prev => !prev)}
+                  disabled={totalCount === 0}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed" 
+                  title={t('licenses.export')}
+                >
+                  <Download className="w-5 h-5" />
+                </button>
+                {isExportMenuOpen && (
+                  <div className="absolute right-0 mt-1 w-44 bg-slate-900 border border-slate-700 rounded shadow-xl z-30 py-1">
+                    {(['csv', 'json', 'xlsx'] as const).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => handleExport(format)}
+                        className="w-full text-left px-3 py-1.5 text-sm text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+                      >
+                        {format.toUpperCase()} <span className="text-xs text-slate-500">{t('licenses.exportRows', { count: totalCount })}</span>
+                      </button>
+                    ))}
+                  </div>
+                )}
+              </div>
+              {allowed('create') && (
               <button 
                 onClick={() => setIsAddModalOpen(true)}
                 disabled={!isConnected}
                 className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-medium flex items-center gap-2 transition-colors shadow-lg shadow-blue-500/20 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
               >
                 <Plus className="w-4 h-4" />
-                License mới
+                {t('licenses.new')}
               </button>
+              )}
             </div>
           </div>
 
+          {selectedLicenses.length > 0 && (
+            <BulkActionBar
+              count={selectedLicenses.length}
+              busy={bulkBusy}
+              onResetHwid={allowed('reset_hwid') ? handleBulkResetHWID : undefined}
+              onExtend={allowed('extend') ? handleBulkExtend : undefined}
+              onDelete={allowed('delete') ? handleBulkDelete : undefined}
+              onExport={handleBulkExport}
+              onClear={() => setSelected(new Map())}
+            />
+          )}
+
+          {isPageSelected && selectedLicenses.length < totalCount && (
+            <div className="text-center text-xs text-slate-400">
+              {t('licenses.selected', { count: selectedLicenses.length })}{' '}
+              <button onClick={selectAllMatching} className="text-blue-400 hover:text-blue-300 font-medium">
+                {t('licenses.selectAllMatching', { count: totalCount })}
+              </button>
+            </div>
+          )}
+
           {/* Table */}
           <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden shadow-xl">
             <div className="overflow-x-auto">
               <table className="w-full text-left border-collapse">
                 <thead>
                   <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500 font-semibold">
+                    <th className="p-4 w-10">
+                      <input
+                        type="checkbox"
+                        checked={isPageSelected}
+                        onChange={togglePageSelected}
+                        title={t('licenses.selectPage')}
+                        className="cursor-pointer"
+                      />
+                    </th>
                     <th className="p-4 cursor-pointer select-none" onClick={() => handleSort('license_key')}>
                       <div className="flex items-center gap-2">
-                        Mã License
+                        {t('licenses.columnKey')}
                         {sortConfig.field === 'license_key' && (
                           <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
                         )}
@@ -631,7 +1157,7 @@ export default function App() {
                     </th>
                     <th className="p-4 cursor-pointer select-none" onClick={() => handleSort('status')}>
                       <div className="flex items-center gap-2">
-                        Trạng thái
+                        {t('licenses.columnStatus')}
                         {sortConfig.field === 'status' && (
                           <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
                         )}
@@ -639,7 +1165,7 @@ export default function App() {
                     </th>
                     <th className="p-4 cursor-pointer select-none" onClick={() => handleSort('hwid')}>
                       <div className="flex items-center gap-2">
-                        ID Phần cứng (HWID)
+                        {t('licenses.columnHwid')}
                         {sortConfig.field === 'hwid' && (
                           <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
                         )}
@@ -647,85 +1173,155 @@ export default function App() {
                     </th>
                     <th className="p-4 cursor-pointer select-none" onClick={() => handleSort('expires_at')}>
                       <div className="flex items-center gap-2">
-                        Hết hạn lúc
+                        {t('licenses.columnExpiresAt')}
                         {sortConfig.field === 'expires_at' && (
                           <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
                         )}
                       </div>
                     </th>
-                    <th className="p-4 text-right">Thao tác</th>
+                    <th className="p-4 cursor-pointer select-none" onClick={() => handleSort('last_seen_at')}>
+                      <div className="flex items-center gap-2">
+                        {t('licenses.columnLastSeen')}
+                        {sortConfig.field === 'last_seen_at' && (
+                          <span>{sortConfig.direction === 'asc' ? '▲' : '▼'}</span>
+                        )}
+                      </div>
+                    </th>
+                    <th className="p-4 text-right">{t('licenses.columnActions')}</th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-slate-800">
-                  {paginatedLicenses.length === 0 ? (
+                  {licenses.length === 0 ? (
                     <tr>
-                      <td colSpan={5} className="p-8 text-center text-slate-500">
+                      <td colSpan={7} className="p-8 text-center text-slate-500">
                         {isConnected ? (
-                          searchTerm || filterStatus !== 'all' ? 'Không tìm thấy license phù hợp.' : 'Chưa có license nào được tạo.'
+                          t(searchTerm || filterStatus !== 'all' || filterProduct !== 'all' ? 'licenses.noMatches' : 'licenses.empty')
                         ) : (
-                          'Đang chờ kết nối...'
+                          t('auth.waitingConnection')
                         )}
                       </td>
                     </tr>
                   ) : (
-                    paginatedLicenses.map((license) => {
+                    licenses.map((license) => {
                       const now = new Date();
-                      const expiryDate = new Date(license.expires_at);
-                      const isExpired = expiryDate < now;
-                      const isUsed = !!license.hwid;
-                      
-                      // Check for expiring within 7 days
-                      const msPerDay = 1000 * 60 * 60 * 24;
-                      const diffTime = expiryDate.getTime() - now.getTime();
-                      const diffDays = diffTime / msPerDay;
-                      const isExpiringSoon = !isExpired && diffDays <= 7;
+                      const status = getLicenseStatus(license, now);
+                      const seats = getSeatUsage(license);
+                      const isUsed = seats.used > 0;
+                      const isExpiringSoon = status === 'expiring';
                       
                       return (
-                        <tr key={license.license_key} className="hover:bg-slate-800/50 transition-colors">
-                          <td className="p-4 font-mono text-sm text-white">
-                            {license.license_key}
+                        <tr key={license.license_key} className={`hover:bg-slate-800/50 transition-colors duration-700 ${highlightedKeys.has(license.license_key) ? 'bg-yellow-400/10' : selected.has(license.license_key) ? 'bg-blue-500/5' : ''}`}>
+                          <td className="p-4 w-10">
+                            <input
+                              type="checkbox"
+                              checked={selected.has(license.license_key)}
+                              onChange={() => toggleSelected(license)}
+                              className="cursor-pointer"
+                            />
                           </td>
                           <td className="p-4">
-                            {isExpired ? (
-                              <Badge color="red">Đã hết hạn</Badge>
-                            ) : isExpiringSoon ? (
-                              <Badge color="yellow">Sắp hết hạn</Badge>
-                            ) : isUsed ? (
-                              <Badge color="green">Đang hoạt động</Badge>
-                            ) : (
-                              <Badge color="blue">Có sẵn</Badge>
+                            <div className="font-mono text-sm text-white">{license.license_key}</div>
+                            {license.product_id && (
+                              <div className="text-xs text-blue-300/80 mt-0.5">
+                                {[productName(catalog, license.product_id), planName(catalog, license.plan_id)].filter(Boolean).join(' – ')}
+                              </div>
+                            )}
+                            {(license.customer_name || license.order_id) && (
+                              <div className="text-xs text-slate-400 mt-0.5" title={license.notes ?? undefined}>
+                                {[license.customer_name, license.order_id && `#${license.order_id}`].filter(Boolean).join(' · ')}
+                              </div>
                             )}
+                            {license.tags && license.tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mt-1">
+                                {license.tags.map(tag => (
+                                  <span key={tag} className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">{tag}</span>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                          <td className="p-4">
+                            <Badge color={STATUS_COLORS[status]}>{t(`licenseStatus.${status}`)}</Badge>
                           </td>
                           <td className="p-4 text-xs font-mono text-slate-400">
-                            {license.hwid ? (
-                              <span title={license.hwid}>{license.hwid.substring(0, 16)}...</span>
+                            {isUsed ? (
+                              <button
+                                onClick={() => setActivationsKey(license.license_key)}
+                                className="text-left hover:text-white transition-colors"
+                                title={getActivatedMachines(license).join('\n')}
+                              >
+                                <span className={seats.used >= seats.limit ? 'text-yellow-400' : 'text-slate-300'}>{t('licenses.seats', { used: seats.used, limit: seats.limit })}</span>
+                                <span className="block text-slate-500">{getActivatedMachines(license)[0].substring(0, 16)}...</span>
+                              </button>
                             ) : (
-                              <span className="text-slate-600">Chờ kích hoạt</span>
+                              <span className="text-slate-600">{t('licenses.awaitingActivation')}{seats.limit > 1 ? ` ${t('licenses.awaitingSeats', { limit: seats.limit })}` : ''}</span>
                             )}
                           </td>
                           <td className="p-4 text-sm">
                             <div className={`flex items-center gap-2 ${isExpiringSoon ? 'text-yellow-400 font-medium' : 'text-slate-300'}`}>
                               {isExpiringSoon ? <Clock className="w-3 h-3" /> : <Calendar className="w-3 h-3 text-slate-500" />}
-                              {new Date(license.expires_at).toLocaleDateString()}
+                              {license.expires_at
+                                ? formatDate(license.expires_at)
+                                : <span className="text-slate-400">{t('licenses.pendingDuration', { count: license.duration_days ?? 0 })}</span>}
                             </div>
                           </td>
+                          <td className="p-4 text-xs">
+                            {license.last_seen_at ? (
+                              <button
+                                onClick={() => setEventsKey(license.license_key)}
+                                className={`text-left hover:text-white transition-colors ${isDormant(license, dormantDays, now) ? 'text-yellow-400' : 'text-slate-300'}`}
+                                title={formatDateTime(license.last_seen_at)}
+                              >
+                                {formatRelativeTime(license.last_seen_at, now)}
+                              </button>
+                            ) : (
+                              <span className="text-slate-600">{t('licenses.neverSeen')}</span>
+                            )}
+                          </td>
                           <td className="p-4 text-right">
                             <div className="flex items-center justify-end gap-2">
+                              {allowed('extend') && (
+                              <button 
+                                onClick={() => setEditingLicense(license)}
+                                className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                                title={t(allowed('edit') ? 'licenses.editOrExtend' : 'licenses.extend')}
+                              >
+                                <Pencil className="w-4 h-4" />
+                              </button>
+                              )}
+                              {!isDemo && (
                               <button 
-                                onClick={() => handleResetHWID(license.license_key)}
-                                disabled={!license.hwid}
-                                className={`p-1.5 rounded transition-colors ${!license.hwid ? 'text-slate-700 cursor-not-allowed' : 'text-slate-400 hover:text-yellow-400 hover:bg-yellow-400/10'}`}
-                                title="Mở khóa HWID"
+                                onClick={() => setTimelineKey(license.license_key)}
+                                className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                                title={t('licenses.timeline')}
+                              >
+                                <ScrollText className="w-4 h-4" />
+                              </button>
+                              )}
+                              <button 
+                                onClick={() => setActivationsKey(license.license_key)}
+                                className="p-1.5 rounded transition-colors text-slate-400 hover:text-yellow-400 hover:bg-yellow-400/10"
+                                title={t('licenses.machines')}
                               >
                                 <ShieldAlert className="w-4 h-4" />
                               </button>
+                              {allowed('issue_offline') && (
+                              <button 
+                                onClick={() => setOfflineToken({ license })}
+                                className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                                title={t('licenses.issueOffline')}
+                              >
+                                <FileKey className="w-4 h-4" />
+                              </button>
+                              )}
+                              {allowed('delete') && (
                               <button 
                                 onClick={() => handleDelete(license.license_key)}
                                 className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
-                                title="Xóa License"
+                                title={t('licenses.moveToTrash')}
                               >
                                 <Trash2 className="w-4 h-4" />
                               </button>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -740,17 +1336,17 @@ export default function App() {
           {/* Pagination */}
           <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 text-sm text-slate-400">
             <div className="flex items-center gap-2">
-              <span>Hiển thị</span>
+              <span>{t('pagination.show')}</span>
               <select
                 value={pageSize}
                 onChange={e => setPageSize(Number(e.target.value))}
                 className="bg-slate-900 border border-slate-800 rounded px-2 py-1 focus:border-blue-500 outline-none"
               >
                 {[10, 25, 50].map(size => (
-                  <option key={size} value={size}>{size}/trang</option>
+                  <option key={size} value={size}>{t('pagination.perPage', { size })}</option>
                 ))}
               </select>
-              <span>• {sortedLicenses.length} kết quả</span>
+              <span>{t('pagination.results', { count: totalCount })}</span>
             </div>
             <div className="flex items-center gap-2 self-end md:self-auto">
               <button
@@ -758,22 +1354,24 @@ export default function App() {
                 disabled={currentPage === 1}
                 className="px-3 py-1 rounded border border-slate-800 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed hover:border-blue-500 hover:text-white transition-colors"
               >
-                Trước
+                {t('pagination.previous')}
               </button>
               <span className="text-slate-500">
-                Trang {currentPage}/{totalPages}
+                {t('pagination.page', { page: currentPage, total: totalPages })}
               </span>
               <button
                 onClick={() => setCurrentPage(prev => Math.min(totalPages, prev + 1))}
                 disabled={currentPage === totalPages}
                 className="px-3 py-1 rounded border border-slate-800 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed hover:border-blue-500 hover:text-white transition-colors"
               >
-                Sau
+                {t('pagination.next')}
               </button>
             </div>
           </div>
           </>
           )}
+          </>
+          )}
         </div>
 
       </main>
@@ -782,72 +1380,149 @@ export default function App() {
       <Modal 
         isOpen={isAddModalOpen} 
         onClose={() => setIsAddModalOpen(false)} 
-        title="Tạo License mới"
+        title={t('create.title')}
+        size="lg"
       >
-        <form onSubmit={handleCreateLicense} className="space-y-4">
-          <div>
-            <label className="block text-xs font-medium text-slate-400 mb-1">Mã License</label>
-            <div className="flex gap-2">
-              <input 
-                type="text" 
-                className="flex-1 bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none font-mono uppercase"
-                placeholder="PRO-XXXX-XXXX"
-                value={newLicense.key}
-                onChange={e => setNewLicense({...newLicense, key: e.target.value})}
-                required
-              />
-              <div className="flex flex-col gap-1">
-                <button 
-                  type="button" 
-                  onClick={() => generateRandomKey('random')}
-                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors"
-                >
-                  NGẪU NHIÊN
-                </button>
-                 <button 
-                  type="button" 
-                  onClick={() => generateRandomKey('friendly')}
-                  className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors"
-                >
-                  THÂN THIỆN
-                </button>
+        <div className="flex gap-1 mb-4 p-1 bg-slate-800 rounded">
+          {(['single', 'batch'] as const).map(mode => (
+            <button
+              key={mode}
+              type="button"
+              onClick={() => setCreateMode(mode)}
+              className={`flex-1 py-1 text-xs font-medium rounded transition-colors ${createMode === mode ? 'bg-blue-600 text-white' : 'text-slate-400 hover:text-white'}`}
+            >
+              {t(mode === 'single' ? 'create.single' : 'create.batch')}
+            </button>
+          ))}
+        </div>
+        {createMode === 'batch' ? (
+          <BulkCreateForm catalog={catalog} onCompleted={fetchLicenses} />
+        ) : (
+          <form onSubmit={handleCreateLicense} className="space-y-4">
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('licenses.columnKey')}</label>
+              <div className="flex gap-2">
+                <input 
+                  type="text" 
+                  className="flex-1 bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none font-mono uppercase"
+                  placeholder="PRO-XXXX-XXXX"
+                  value={newLicense.key}
+                  onChange={e => setNewLicense({...newLicense, key: e.target.value.toUpperCase()})}
+                  required
+                />
+                <div className="flex flex-col gap-1">
+                  <button 
+                    type="button" 
+                    onClick={() => generateRandomKey('random')}
+                    className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors"
+                  >
+                    {t('create.random')}
+                  </button>
+                   <button 
+                    type="button" 
+                    onClick={() => generateRandomKey('friendly')}
+                    className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors"
+                  >
+                    {t('create.friendly')}
+                  </button>
+                </div>
               </div>
+              {newKeyValidation?.reason === 'checksum' && (
+                <p className="text-xs text-red-400 mt-1">{t('create.checksumMismatch')}</p>
+              )}
+              {newKeyValidation?.reason === 'format' && (
+                <p className="text-xs text-yellow-400 mt-1">{t('create.formatMismatch')}</p>
+              )}
             </div>
-          </div>
-          
-          <div className="grid grid-cols-2 gap-4">
+
+            <KeyFormatSettings format={keyFormat} onChange={handleKeyFormatChange} />
+
+            {catalog.plans.length > 0 && (
+              <PlanPicker catalog={catalog} value={newLicense.planId} onChange={handlePlanSelect} />
+            )}
+            
+            <ExpiryFields value={newLicenseExpiry} onChange={setNewLicenseExpiry} />
+
             <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">Ngày hết hạn</label>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.maxActivations')}</label>
               <input 
-                type="date" 
+                type="number" 
+                min={1}
                 className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
-                value={newLicense.expiryDate}
-                onChange={e => setNewLicense({...newLicense, expiryDate: e.target.value})}
+                value={newLicense.maxActivations}
+                onChange={e => setNewLicense({...newLicense, maxActivations: Math.max(1, Math.floor(Number(e.target.value)) || 1)})}
                 required
               />
             </div>
-            <div>
-              <label className="block text-xs font-medium text-slate-400 mb-1">Giờ</label>
-              <input 
-                type="time" 
-                className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
-                value={newLicense.expiryTime}
-                onChange={e => setNewLicense({...newLicense, expiryTime: e.target.value})}
-                required
-              />
+
+            <LicenseMetadataFields value={newLicenseMetadata} onChange={setNewLicenseMetadata} />
+
+            <div className="pt-2">
+               <button 
+                  type="submit" 
+                  disabled={newKeyValidation?.reason === 'checksum'}
+                  className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors shadow-lg shadow-blue-500/20"
+                >
+                  {t('create.submit')}
+                </button>
             </div>
-          </div>
+          </form>
+        )}
+      </Modal>
 
-          <div className="pt-2">
-             <button 
-                type="submit" 
-                className="w-full bg-blue-600 hover:bg-blue-500 text-white font-medium py-2 rounded transition-colors shadow-lg shadow-blue-500/20"
-              >
-                Tạo License
-              </button>
-          </div>
-        </form>
+      <Modal
+        isOpen={isImportModalOpen}
+        onClose={() => setIsImportModalOpen(false)}
+        title={t('import.title')}
+        size="lg"
+      >
+        <ImportLicensesForm onCompleted={fetchLicenses} />
       </Modal>
+
+      <EditLicenseModal
+        license={editingLicense}
+        onClose={() => setEditingLicense(null)}
+        onSaved={fetchLicenses}
+        catalog={catalog}
+        canEditDetails={allowed('edit')}
+      />
+
+      <LicenseTimelineModal
+        licenseKey={timelineKey}
+        onClose={() => setTimelineKey(null)}
+      />
+
+      <ActivationsModal
+        license={licenses.find(l => l.license_key === activationsKey) ?? null}
+        canDeactivate={allowed('reset_hwid')}
+        canEditSeats={allowed('manage_seats')}
+        onClose={() => setActivationsKey(null)}
+        onChanged={fetchLicenses}
+      />
+
+      <LicenseEventsModal
+        licenseKey={eventsKey}
+        onClose={() => setEventsKey(null)}
+      />
+
+      <OfflineTokenModal
+        isOpen={!!offlineToken}
+        license={offlineToken?.license ?? null}
+        onClose={() => setOfflineToken(null)}
+      />
+
+      <ConnectionProfilesModal
+        isOpen={isProfilesModalOpen}
+        profiles={profiles}
+        activeId={connectionId}
+        onClose={() => setIsProfilesModalOpen(false)}
+        onChanged={reloadProfiles}
+        onForgetDevice={handleForgetDevice}
+        onConnect={profile => {
+          connectTo(profile);
+          setIsProfilesModalOpen(false);
+        }}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { MonitorX } from 'lucide-react';
+import { License, LicenseActivation } from '../types';
+import { LicenseRepository, getLicenseRepository } from '../services/licenseRepository';
+import { getSeatLimit } from '../services/licenseSeats';
+import { Modal } from './ui';
+import { useI18n } from './I18nProvider';
+
+interface ActivationsModalProps {
+  license: License | null;
+  canDeactivate: boolean;
+  canEditSeats: boolean;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+export const ActivationsModal = ({ license, canDeactivate, canEditSeats, onClose, onChanged }: ActivationsModalProps) => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [seatLimit, setSeatLimitInput] = useState(1);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!license) return;
+    setSeatLimitInput(getSeatLimit(license));
+    setError(null);
+  }, [license?.license_key, license?.max_activations]);
+
+  if (!license) return null;
+
+  // The list comes from the row the dashboard already holds, which is refreshed after
+  // every change and by live updates.
+  const activations: LicenseActivation[] = license.activations ?? [];
+
+  const run = async (action: (repository: LicenseRepository) => Promise<unknown>) => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    setBusy(true);
+    setError(null);
+    try {
+      await action(repository);
+      onChanged();
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDeactivate = (hwid: string) => {
+    if (!confirm(t('activations.confirmDeactivate'))) return;
+    run(repository => repository.deactivate(license, hwid));
+  };
+
+  const handleDeactivateAll = () => {
+    if (!confirm(t('activations.confirmDeactivateAll'))) return;
+    run(async repository => {
+      const result = await repository.resetHwid([license]);
+      if (result.failed.length > 0) throw result.failed[0].error;
+    });
+  };
+
+  const handleSaveSeatLimit = (e: React.FormEvent) => {
+    e.preventDefault();
+    run(repository => repository.setSeatLimit(license, seatLimit));
+  };
+
+  const overLimit = activations.length > seatLimit;
+
+  return (
+    <Modal isOpen={!!license} onClose={onClose} title={t('activations.title', { key: license.license_key })} size="lg">
+      <form onSubmit={handleSaveSeatLimit} className="flex items-end gap-2 mb-4">
+        <div className="flex-1">
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.maxActivations')}</label>
+          <input
+            type="number"
+            min={1}
+            value={seatLimit}
+            disabled={!canEditSeats}
+            onChange={e => setSeatLimitInput(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={busy || !canEditSeats || seatLimit === getSeatLimit(license)}
+          className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded transition-colors"
+        >
+          {t('common.save')}
+        </button>
+      </form>
+
+      {overLimit && (
+        <p className="text-xs text-yellow-400 mb-2">
+          {t('activations.overLimit', { count: activations.length })}
+        </p>
+      )}
+      {error && <p className="text-xs text-red-400 mb-2">{t('common.error', { message: error })}</p>}
+
+      <div className="flex items-center justify-between text-xs text-slate-400 mb-2">
+        <span>{t('activations.inUse', { used: activations.length, limit: getSeatLimit(license) })}</span>
+        {canDeactivate && (
+          <button
+            onClick={handleDeactivateAll}
+            disabled={busy || activations.length === 0}
+            className="text-yellow-400 hover:text-yellow-300 disabled:text-slate-600 disabled:cursor-not-allowed transition-colors"
+          >
+            {t('activations.deactivateAll')}
+          </button>
+        )}
+      </div>
+
+      <div className="border border-slate-800 rounded overflow-hidden">
+        <table className="w-full text-left text-xs">
+          <thead>
+            <tr className="bg-slate-950/50 border-b border-slate-800 uppercase text-slate-500">
+              <th className="p-2">HWID</th>
+              <th className="p-2">{t('activations.columnActivatedAt')}</th>
+              <th className="p-2">{t('activations.columnLastSeen')}</th>
+              <th className="p-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {activations.length === 0 ? (
+              <tr>
+                <td colSpan={4} className="p-4 text-center text-slate-500">
+                  {t('activations.empty')}
+                </td>
+              </tr>
+            ) : activations.map(activation => (
+              <tr key={activation.id}>
+                <td className="p-2 font-mono text-slate-300 break-all">{activation.hwid}</td>
+                <td className="p-2 text-slate-400 whitespace-nowrap">{formatDateTime(activation.first_seen_at)}</td>
+                <td className="p-2 text-slate-400 whitespace-nowrap">{formatDateTime(activation.last_seen_at)}</td>
+                <td className="p-2 text-right">
+                  {canDeactivate && (
+                    <button
+                      onClick={() => handleDeactivate(activation.hwid)}
+                      disabled={busy}
+                      className="p-1.5 text-slate-400 hover:text-yellow-400 hover:bg-yellow-400/10 rounded transition-colors disabled:opacity-50"
+                      title={t('activations.deactivate')}
+                    >
+                      <MonitorX className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,182 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { License, LicenseHistoryEntry } from '../types';
+import { getLicenseRepository } from '../services/licenseRepository';
+import { Catalog, NO_PRODUCT } from '../services/catalog';
+import { fromDateTimeInputs, toDateInputValue } from '../services/expiry';
+import {
+  DateRange,
+  FORECAST_DAYS,
+  RANGE_PRESETS,
+  activationSummary,
+  createdVsActivated,
+  expiryForecast,
+  presetRange,
+  renewalSummary,
+} from '../services/licenseAnalytics';
+import { BarChart } from './BarChart';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+const DEFAULT_PRESET_MONTHS = 6;
+
+const MetricCard = ({ label, value, hint }: { label: string, value: string, hint: string }) => (
+  <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
+    <div className="text-slate-500 text-xs font-medium uppercase mb-1">{label}</div>
+    <div className="text-2xl font-bold text-white">{value}</div>
+    <div className="text-xs text-slate-500 mt-1">{hint}</div>
+  </div>
+);
+
+const ChartCard = ({ title, children }: { title: string, children?: React.ReactNode }) => (
+  <div className="bg-slate-900 border border-slate-800 p-4 rounded-lg">
+    <h3 className="text-sm font-medium text-white mb-3">{title}</h3>
+    {children}
+  </div>
+);
+
+/**
+ * Charts computed in the browser from every license of the selected product and the
+ * expiry history of the range.
+ */
+export const AnalyticsView = ({ catalog }: { catalog: Catalog }) => {
+  const { t, formatDate, formatNumber, formatPercent, describeError } = useI18n();
+  const [range, setRange] = useState<DateRange>(() => presetRange(DEFAULT_PRESET_MONTHS));
+  const [product, setProduct] = useState('all');
+  const [licenses, setLicenses] = useState<License[]>([]);
+  const [history, setHistory] = useState<LicenseHistoryEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const repository = getLicenseRepository();
+    if (!repository) return;
+    setLoading(true);
+    try {
+      const [nextLicenses, nextHistory] = await Promise.all([
+        repository.queryAll({ search: '', status: 'all', dormantDays: 0, product, sort: { field: 'expires_at', direction: 'asc' } }),
+        repository.expiryHistory(range.from),
+      ]);
+      setLicenses(nextLicenses);
+      setHistory(nextHistory);
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [range, product]);
+
+  const now = new Date();
+  const forecast = useMemo(() => expiryForecast(licenses), [licenses]);
+  const monthly = useMemo(() => createdVsActivated(licenses, range), [licenses, range]);
+  const activation = useMemo(() => activationSummary(licenses, range), [licenses, range]);
+  const renewal = useMemo(() => renewalSummary(licenses, history, range), [licenses, history, range]);
+  const missingCreatedAt = licenses.filter(l => !l.created_at).length;
+
+  const percent = (value: number | null) => value === null ? '—' : formatPercent(value);
+
+  const days = (value: number | null) => value === null
+    ? '—'
+    : t('analytics.days', { count: formatNumber(value, { maximumFractionDigits: value < 10 ? 1 : 0 }) });
+
+  const setDate = (field: keyof DateRange, value: string) => {
+    if (!value) return;
+    const date = fromDateTimeInputs(value, field === 'from' ? '00:00' : '23:59');
+    setRange(prev => ({ ...prev, [field]: date }));
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center gap-2">
+        {RANGE_PRESETS.map(months => (
+          <button
+            key={months}
+            onClick={() => setRange(presetRange(months))}
+            className="px-3 py-1.5 rounded border border-slate-700 text-xs text-slate-300 hover:bg-slate-800 hover:text-white transition-colors"
+          >
+            {t('duration.months', { count: months })}
+          </button>
+        ))}
+        <input
+          type="date"
+          className={inputClass}
+          value={toDateInputValue(range.from)}
+          max={toDateInputValue(range.to)}
+          onChange={e => setDate('from', e.target.value)}
+        />
+        <span className="text-slate-500 text-sm">→</span>
+        <input
+          type="date"
+          className={inputClass}
+          value={toDateInputValue(range.to)}
+          min={toDateInputValue(range.from)}
+          onChange={e => setDate('to', e.target.value)}
+        />
+        <select value={product} onChange={e => setProduct(e.target.value)} className={`${inputClass} cursor-pointer`}>
+          <option value="all">{t('filter.allProducts')}</option>
+          {catalog.products.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          <option value={NO_PRODUCT}>{t('product.none')}</option>
+        </select>
+        <button
+          onClick={load}
+          className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+          title={t('analytics.refresh')}
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <MetricCard
+          label={t('analytics.activationRate')}
+          value={percent(activation.rate)}
+          hint={t('analytics.activationRateHint', { activated: activation.activated, created: activation.created })}
+        />
+        <MetricCard
+          label={t('analytics.timeToActivation')}
+          value={days(activation.medianDays)}
+          hint={t('analytics.timeToActivationHint', { average: days(activation.averageDays) })}
+        />
+        <MetricCard
+          label={t('analytics.renewalRate')}
+          value={percent(renewal.rate)}
+          hint={t('analytics.renewalRateHint', { renewed: renewal.renewed, due: renewal.due })}
+        />
+        <MetricCard
+          label={t('analytics.expiringSoon', { count: FORECAST_DAYS })}
+          value={formatNumber(forecast.reduce((sum, b) => sum + b.values[0], 0))}
+          hint={t('analytics.expiringSoonHint')}
+        />
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+        <ChartCard title={t('analytics.forecastTitle', { count: FORECAST_DAYS })}>
+          <BarChart buckets={forecast} series={[{ name: t('analytics.expiring'), fill: 'fill-yellow-500' }]} />
+        </ChartCard>
+        <ChartCard title={t('analytics.monthlyTitle')}>
+          <BarChart
+            buckets={monthly}
+            series={[
+              { name: t('analytics.created'), fill: 'fill-blue-500' },
+              { name: t('analytics.firstActivation'), fill: 'fill-green-500' },
+            ]}
+          />
+        </ChartCard>
+      </div>
+
+      <p className="text-xs text-slate-500">
+        {t('analytics.forecastNote', { date: formatDate(now) })}
+        {missingCreatedAt > 0 && ` ${t('analytics.missingCreatedAt', { count: missingCreatedAt })}`}
+        {' '}{t('analytics.renewalNote')}
+      </p>
+    </div>
+  );
+};
@@ -0,0 +1,237 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { AuditAction, AuditLogEntry } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import {
+  AUDIT_ACTIONS,
+  AuditLogFilters,
+  diffAuditEntry,
+  fetchAuditLog,
+  fetchLicenseTimeline
+} from '../services/auditLog';
+import { Badge, Modal } from './ui';
+import { useI18n } from './I18nProvider';
+
+const PAGE_SIZE = 50;
+
+const ACTION_COLORS: Record<AuditAction, 'green' | 'red' | 'yellow' | 'blue'> = {
+  create: 'green',
+  import: 'green',
+  update: 'blue',
+  extend: 'green',
+  rename: 'blue',
+  reset_hwid: 'yellow',
+  deactivate: 'yellow',
+  issue_offline: 'blue',
+  delete: 'red',
+  restore: 'green',
+  purge: 'red',
+};
+
+const formatValue = (field: string, value: unknown, formatDateTime: (value: string) => string) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (field.endsWith('_at') && typeof value === 'string') return formatDateTime(value);
+  return String(value);
+};
+
+export const AuditChanges = ({ entry }: { entry: AuditLogEntry }) => {
+  const { formatDateTime } = useI18n();
+  const changes = diffAuditEntry(entry);
+  if (changes.length === 0) return <span className="text-slate-600">—</span>;
+  return (
+    <div className="space-y-0.5">
+      {changes.map(change => (
+        <div key={change.field}>
+          <span className="text-slate-500">{change.field}:</span>{' '}
+          <span className="text-red-300/80 line-through">{formatValue(change.field, change.before, formatDateTime)}</span>
+          {' → '}
+          <span className="text-green-300">{formatValue(change.field, change.after, formatDateTime)}</span>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const inputClass = 'bg-slate-900 border border-slate-800 rounded px-3 py-2 text-sm focus:outline-none focus:border-blue-500 transition-colors';
+
+export const AuditLogView = () => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [filters, setFilters] = useState<AuditLogFilters>({ actor: '', action: '', licenseKey: '' });
+  const [page, setPage] = useState(1);
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    setLoading(true);
+    try {
+      const result = await fetchAuditLog(client, filters, page, PAGE_SIZE);
+      setEntries(result.entries);
+      setTotal(result.total);
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, [filters, page]);
+
+  const updateFilters = (patch: Partial<AuditLogFilters>) => {
+    setFilters(prev => ({ ...prev, ...patch }));
+    setPage(1);
+  };
+
+  const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          placeholder={t('audit.actorPlaceholder')}
+          className={`${inputClass} flex-1`}
+          value={filters.actor}
+          onChange={e => updateFilters({ actor: e.target.value })}
+        />
+        <select
+          value={filters.action}
+          onChange={e => updateFilters({ action: e.target.value as AuditAction | '' })}
+          className={`${inputClass} sm:w-48 cursor-pointer`}
+        >
+          <option value="">{t('audit.allActions')}</option>
+          {AUDIT_ACTIONS.map(action => <option key={action} value={action}>{t(`auditAction.${action}`)}</option>)}
+        </select>
+        <input
+          type="text"
+          placeholder={t('audit.keyPlaceholder')}
+          className={`${inputClass} flex-1 font-mono`}
+          value={filters.licenseKey}
+          onChange={e => updateFilters({ licenseKey: e.target.value })}
+        />
+        <button
+          onClick={load}
+          className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+          title={t('licenses.refresh')}
+        >
+          <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden shadow-xl">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500 font-semibold">
+                <th className="p-4">{t('audit.columnTime')}</th>
+                <th className="p-4">{t('audit.columnActor')}</th>
+                <th className="p-4">{t('audit.columnAction')}</th>
+                <th className="p-4">{t('licenses.columnKey')}</th>
+                <th className="p-4">{t('audit.columnChanges')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {entries.length === 0 ? (
+                <tr>
+                  <td colSpan={5} className="p-8 text-center text-slate-500">
+                    {loading ? t('common.loading') : t('audit.empty')}
+                  </td>
+                </tr>
+              ) : entries.map(entry => (
+                <tr key={entry.id} className="hover:bg-slate-800/50 transition-colors align-top">
+                  <td className="p-4 text-xs text-slate-400 whitespace-nowrap">{formatDateTime(entry.created_at)}</td>
+                  <td className="p-4 text-sm text-slate-300">{entry.actor_email || '—'}</td>
+                  <td className="p-4">
+                    <Badge color={ACTION_COLORS[entry.action] ?? 'blue'}>{t(`auditAction.${entry.action as AuditAction}`)}</Badge>
+                  </td>
+                  <td className="p-4 font-mono text-sm">
+                    <button
+                      onClick={() => updateFilters({ licenseKey: entry.license_key })}
+                      className="text-white hover:text-blue-400 transition-colors"
+                    >
+                      {entry.license_key}
+                    </button>
+                  </td>
+                  <td className="p-4 text-xs font-mono"><AuditChanges entry={entry} /></td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between text-sm text-slate-400">
+        <span>{t('audit.total', { count: total })}</span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => setPage(prev => Math.max(1, prev - 1))}
+            disabled={page === 1}
+            className="px-3 py-1 rounded border border-slate-800 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed hover:border-blue-500 hover:text-white transition-colors"
+          >
+            {t('pagination.previous')}
+          </button>
+          <span className="text-slate-500">{t('pagination.page', { page, total: totalPages })}</span>
+          <button
+            onClick={() => setPage(prev => Math.min(totalPages, prev + 1))}
+            disabled={page === totalPages}
+            className="px-3 py-1 rounded border border-slate-800 text-slate-300 disabled:opacity-40 disabled:cursor-not-allowed hover:border-blue-500 hover:text-white transition-colors"
+          >
+            {t('pagination.next')}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const LicenseTimelineModal = ({ licenseKey, onClose }: { licenseKey: string | null, onClose: () => void }) => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [entries, setEntries] = useState<AuditLogEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!licenseKey) return;
+    const client = getSupabaseClient();
+    if (!client) return;
+
+    let cancelled = false;
+    setEntries([]);
+    setError(null);
+    setLoading(true);
+    fetchLicenseTimeline(client, licenseKey)
+      .then(result => { if (!cancelled) setEntries(result); })
+      .catch(err => { if (!cancelled) setError(describeError(err)); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [licenseKey]);
+
+  return (
+    <Modal isOpen={!!licenseKey} onClose={onClose} title={t('audit.timelineTitle', { key: licenseKey ?? '' })} size="lg">
+      {error && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+      {!error && !loading && entries.length === 0 && <p className="text-sm text-slate-500">{t('audit.timelineEmpty')}</p>}
+      {loading && <p className="text-sm text-slate-400">{t('common.loading')}</p>}
+      <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+        {entries.map(entry => (
+          <li key={entry.id} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-slate-700 border border-slate-900" />
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Badge color={ACTION_COLORS[entry.action] ?? 'blue'}>{t(`auditAction.${entry.action as AuditAction}`)}</Badge>
+              <span>{formatDateTime(entry.created_at)}</span>
+              <span className="text-slate-500">• {entry.actor_email || '—'}</span>
+            </div>
+            <div className="mt-1 text-xs font-mono"><AuditChanges entry={entry} /></div>
+          </li>
+        ))}
+      </ol>
+    </Modal>
+  );
+};
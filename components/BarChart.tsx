@@ -0,0 +1,86 @@
+import React from 'react';
+import { ChartBucket } from '../services/licenseAnalytics';
+import { useI18n } from './I18nProvider';
+
+export interface ChartSeries {
+  name: string;
+  // Tailwind fill class for the bars and the legend swatch.
+  fill: string;
+}
+
+const WIDTH = 600;
+const HEIGHT = 160;
+const LABEL_HEIGHT = 18;
+const GROUP_GAP = 0.3;
+
+/**
+ * Plain SVG bar chart: one group per bucket, one bar per series. Scales with its container;
+ * the exact value of a bar is shown on hover.
+ */
+export const BarChart = ({ buckets, series }: { buckets: ChartBucket[], series: ChartSeries[] }) => {
+  const { t, formatNumber } = useI18n();
+  const max = Math.max(1, ...buckets.flatMap(b => b.values));
+  const groupWidth = WIDTH / Math.max(buckets.length, 1);
+  const barWidth = (groupWidth * (1 - GROUP_GAP)) / series.length;
+  // Every label would overlap on long ranges; keep about twelve.
+  const labelEvery = Math.ceil(buckets.length / 12);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT + LABEL_HEIGHT}`} className="w-full" role="img">
+        {[0.25, 0.5, 0.75, 1].map(step => (
+          <line
+            key={step}
+            x1={0}
+            x2={WIDTH}
+            y1={HEIGHT - HEIGHT * step}
+            y2={HEIGHT - HEIGHT * step}
+            className="stroke-slate-800"
+            strokeWidth={0.5}
+          />
+        ))}
+        {buckets.map((bucket, bucketIndex) => (
+          <g key={bucketIndex} transform={`translate(${bucketIndex * groupWidth + (groupWidth * GROUP_GAP) / 2}, 0)`}>
+            {bucket.values.map((value, seriesIndex) => {
+              const barHeight = (value / max) * HEIGHT;
+              return (
+                <rect
+                  key={seriesIndex}
+                  x={seriesIndex * barWidth}
+                  y={HEIGHT - barHeight}
+                  width={barWidth}
+                  height={barHeight}
+                  className={series[seriesIndex].fill}
+                >
+                  <title>{`${bucket.label} · ${series[seriesIndex].name}: ${formatNumber(value)}`}</title>
+                </rect>
+              );
+            })}
+            {bucketIndex % labelEvery === 0 && (
+              <text
+                x={(groupWidth * (1 - GROUP_GAP)) / 2}
+                y={HEIGHT + LABEL_HEIGHT - 4}
+                textAnchor="middle"
+                className="fill-slate-500"
+                fontSize={10}
+              >
+                {bucket.label}
+              </text>
+            )}
+          </g>
+        ))}
+      </svg>
+      <div className="flex items-center justify-between mt-2 text-xs text-slate-500">
+        <div className="flex gap-3">
+          {series.length > 1 && series.map(s => (
+            <span key={s.name} className="flex items-center gap-1">
+              <svg width={10} height={10}><rect width={10} height={10} className={s.fill} /></svg>
+              {s.name}
+            </span>
+          ))}
+        </div>
+        <span>{t('analytics.max', { value: max })}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,90 @@
+import React, { useState } from 'react';
+import { CalendarPlus, Download, ShieldAlert, Trash2, X } from 'lucide-react';
+import { Duration, ExtensionBase, QUICK_EXTENSIONS, extensionLabel } from '../services/expiry';
+import { ExportFormat } from '../services/licenseExport';
+import { useI18n } from './I18nProvider';
+
+interface BulkActionBarProps {
+  count: number;
+  busy: boolean;
+  // Actions the current role may not perform are left out and not shown.
+  onResetHwid?: () => void;
+  onExtend?: (duration: Duration, base: ExtensionBase) => void;
+  onDelete?: () => void;
+  onExport: (format: ExportFormat) => void;
+  onClear: () => void;
+}
+
+const buttonClass = 'flex items-center gap-1.5 px-3 py-1.5 rounded text-xs font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed';
+
+export const BulkActionBar = ({ count, busy, onResetHwid, onExtend, onDelete, onExport, onClear }: BulkActionBarProps) => {
+  const { t } = useI18n();
+  const [extension, setExtension] = useState(0);
+  const [base, setBase] = useState<ExtensionBase>('current');
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 bg-blue-900/20 border border-blue-500/20 rounded-lg px-3 py-2">
+      <span className="text-sm text-blue-200 font-medium mr-2">{t('bulk.selected', { count })}</span>
+
+      {onResetHwid && (
+        <button onClick={onResetHwid} disabled={busy} className={`${buttonClass} text-yellow-300 hover:bg-yellow-400/10`}>
+          <ShieldAlert className="w-3.5 h-3.5" />
+          {t('bulk.resetHwid')}
+        </button>
+      )}
+
+      {onExtend && (
+      <div className="flex items-center gap-1">
+        <select
+          value={extension}
+          onChange={e => setExtension(Number(e.target.value))}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none"
+        >
+          {QUICK_EXTENSIONS.map((duration, i) => <option key={i} value={i}>{extensionLabel(duration, t)}</option>)}
+        </select>
+        <select
+          value={base}
+          onChange={e => setBase(e.target.value as ExtensionBase)}
+          className="bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-200 outline-none"
+        >
+          <option value="current">{t('extend.fromCurrent')}</option>
+          <option value="today">{t('extend.fromToday')}</option>
+        </select>
+        <button
+          onClick={() => onExtend(QUICK_EXTENSIONS[extension], base)}
+          disabled={busy}
+          className={`${buttonClass} text-green-300 hover:bg-green-400/10`}
+        >
+          <CalendarPlus className="w-3.5 h-3.5" />
+          {t('licenses.extend')}
+        </button>
+      </div>
+      )}
+
+      {onDelete && (
+        <button onClick={onDelete} disabled={busy} className={`${buttonClass} text-red-300 hover:bg-red-400/10`}>
+          <Trash2 className="w-3.5 h-3.5" />
+          {t('common.delete')}
+        </button>
+      )}
+
+      <div className="flex items-center gap-1">
+        <Download className="w-3.5 h-3.5 text-slate-400" />
+        {(['csv', 'json', 'xlsx'] as const).map(format => (
+          <button
+            key={format}
+            onClick={() => onExport(format)}
+            disabled={busy}
+            className={`${buttonClass} text-slate-300 hover:bg-slate-800 px-2`}
+          >
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </div>
+
+      <button onClick={onClear} disabled={busy} className={`${buttonClass} text-slate-400 hover:text-white ml-auto`} title={t('bulk.clearSelection')}>
+        <X className="w-3.5 h-3.5" />
+      </button>
+    </div>
+  );
+};
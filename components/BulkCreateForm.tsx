@@ -0,0 +1,219 @@
+import React, { useMemo, useState } from 'react';
+import { getLicenseRepository } from '../services/licenseRepository';
+import { KEY_TEMPLATE_PRESETS, generateKeysFromTemplate, usesSequence, validateKeyTemplate } from '../services/keyTemplate';
+import { BatchKeyResult } from '../services/licenseBatch';
+import { EMPTY_METADATA_INPUT, LicenseMetadataInput, fromMetadataInput } from '../services/licenseMetadata';
+import { Catalog, planDefaults, planExpiryInput } from '../services/catalog';
+import { EMPTY_EXPIRY_INPUT, ExpiryInput, toExpiryColumns } from '../services/expiry';
+import { Plan } from '../types';
+import { Badge } from './ui';
+import { PlanPicker } from './PlanPicker';
+import { LicenseMetadataFields } from './LicenseMetadataFields';
+import { ExpiryFields } from './ExpiryFields';
+import { useI18n } from './I18nProvider';
+
+const MAX_BATCH_SIZE = 1000;
+
+const STATUS_COLORS: Record<BatchKeyResult['status'], 'green' | 'yellow' | 'red'> = {
+  created: 'green',
+  duplicate: 'yellow',
+  error: 'red',
+};
+
+export const BulkCreateForm = ({ catalog, onCompleted }: { catalog: Catalog, onCompleted: () => void }) => {
+  const { t, describeError } = useI18n();
+  const [form, setForm] = useState({
+    count: 10,
+    template: KEY_TEMPLATE_PRESETS.random,
+    startSeq: 1,
+    maxActivations: 1,
+    planId: null as string | null
+  });
+  const [expiry, setExpiry] = useState<ExpiryInput>(EMPTY_EXPIRY_INPUT);
+  const [metadata, setMetadata] = useState<LicenseMetadataInput>(EMPTY_METADATA_INPUT);
+  const [submitting, setSubmitting] = useState(false);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [results, setResults] = useState<BatchKeyResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const templateError = validateKeyTemplate(form.template);
+
+  const preview = useMemo(() => {
+    if (templateError) return [];
+    try {
+      return generateKeysFromTemplate(form.template, Math.min(3, form.count), { startSeq: form.startSeq });
+    } catch {
+      return [];
+    }
+  }, [form.template, form.count, form.startSeq, templateError]);
+
+  const summary = useMemo(() => {
+    if (!results) return null;
+    return {
+      created: results.filter(r => r.status === 'created').length,
+      duplicate: results.filter(r => r.status === 'duplicate').length,
+      error: results.filter(r => r.status === 'error').length,
+    };
+  }, [results]);
+
+  const handlePlanSelect = (plan: Plan | null) => {
+    if (!plan) {
+      setForm(prev => ({ ...prev, planId: null }));
+      return;
+    }
+    setExpiry(prev => planExpiryInput(plan, prev));
+    setForm(prev => ({ ...prev, planId: plan.id, maxActivations: plan.max_activations }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const repository = getLicenseRepository();
+    if (!repository) return;
+
+    setSubmitting(true);
+    setError(null);
+    setResults(null);
+    try {
+      const keys = generateKeysFromTemplate(form.template, form.count, { startSeq: form.startSeq });
+      const expiryColumns = toExpiryColumns(expiry);
+      const details = fromMetadataInput(metadata);
+      const plan = catalog.plans.find(p => p.id === form.planId);
+
+      const batchResults = await repository.create(
+        keys.map(license_key => ({
+          ...(plan ? planDefaults(plan) : {}),
+          license_key,
+          ...expiryColumns,
+          hwid: null,
+          max_activations: form.maxActivations,
+          ...details,
+        })),
+        (done, total) => setProgress({ done, total })
+      );
+
+      setResults(batchResults);
+      onCompleted();
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setSubmitting(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-4">
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('batch.template')}</label>
+        <input
+          type="text"
+          className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none font-mono uppercase"
+          value={form.template}
+          onChange={e => setForm({ ...form, template: e.target.value.toUpperCase() })}
+          required
+        />
+        <div className="flex gap-1 mt-1">
+          {Object.entries(KEY_TEMPLATE_PRESETS).map(([name, template]) => (
+            <button
+              key={name}
+              type="button"
+              onClick={() => setForm({ ...form, template })}
+              className="px-2 py-0.5 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors font-mono"
+            >
+              {template}
+            </button>
+          ))}
+        </div>
+        <p className="text-[10px] text-slate-500 mt-1">
+          {t('batch.tokens', { tokens: '{RAND6} {NUM3} {SEQ:4} {YYYY} {YY} {MM} {DD} {MON} {CHECK2}' })}
+        </p>
+        {templateError && <p className="text-xs text-red-400 mt-1">{describeError(templateError)}</p>}
+        {preview.length > 0 && (
+          <p className="text-xs text-slate-400 mt-1 font-mono">{t('batch.example', { keys: preview.join(', ') })}</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('batch.count')}</label>
+          <input
+            type="number"
+            min={1}
+            max={MAX_BATCH_SIZE}
+            className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
+            value={form.count}
+            onChange={e => setForm({ ...form, count: Math.max(1, Math.min(MAX_BATCH_SIZE, Number(e.target.value) || 1)) })}
+            required
+          />
+        </div>
+        {usesSequence(form.template) && (
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t('batch.startSeq')}</label>
+            <input
+              type="number"
+              min={0}
+              className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
+              value={form.startSeq}
+              onChange={e => setForm({ ...form, startSeq: Math.max(0, Number(e.target.value) || 0) })}
+              required
+            />
+          </div>
+        )}
+      </div>
+
+      {catalog.plans.length > 0 && (
+        <PlanPicker catalog={catalog} value={form.planId} onChange={handlePlanSelect} />
+      )}
+
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('batch.maxActivations')}</label>
+        <input
+          type="number"
+          min={1}
+          className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
+          value={form.maxActivations}
+          onChange={e => setForm({ ...form, maxActivations: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+          required
+        />
+      </div>
+
+      <ExpiryFields value={expiry} onChange={setExpiry} />
+
+      <LicenseMetadataFields value={metadata} onChange={setMetadata} />
+
+      {error && <p className="text-xs text-red-400">{t('licenses.createFailed', { message: error })}</p>}
+
+      {summary && results && (
+        <div className="space-y-2">
+          <div className="flex gap-2 text-xs">
+            <Badge color="green">{t('batch.created', { count: summary.created })}</Badge>
+            <Badge color="yellow">{t('batch.duplicates', { count: summary.duplicate })}</Badge>
+            <Badge color="red">{t('batch.errors', { count: summary.error })}</Badge>
+          </div>
+          <div className="max-h-48 overflow-y-auto border border-slate-800 rounded divide-y divide-slate-800">
+            {results.map(result => (
+              <div key={result.license_key} className="flex items-center justify-between gap-2 px-2 py-1 text-xs">
+                <span className="font-mono text-slate-300">{result.license_key}</span>
+                <span title={result.error && describeError(result.error)}>
+                  <Badge color={STATUS_COLORS[result.status]}>{t(`batchStatus.${result.status as BatchKeyResult['status']}`)}</Badge>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="pt-2">
+        <button
+          type="submit"
+          disabled={submitting || !!templateError}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors shadow-lg shadow-blue-500/20"
+        >
+          {submitting
+            ? progress ? t('batch.progress', { done: progress.done, total: progress.total }) : t('common.processing')
+            : t('batch.submit', { count: form.count })}
+        </button>
+      </div>
+    </form>
+  );
+};
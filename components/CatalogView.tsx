@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Plan, Product } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import { Catalog, deletePlan, deleteProduct, savePlan, saveProduct } from '../services/catalog';
+import { parseTags } from '../services/licenseMetadata';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+const EMPTY_PLAN_FORM = { name: '', duration_days: 365, max_activations: 1, features: '' };
+
+const ProductCard = ({ product, plans, run }: { product: Product, plans: Plan[], run: (action: () => Promise<unknown>) => Promise<boolean> }) => {
+  const { t } = useI18n();
+  const [planForm, setPlanForm] = useState(EMPTY_PLAN_FORM);
+
+  const handleAddPlan = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client) return;
+    const saved = await run(() => savePlan(client, {
+      product_id: product.id,
+      name: planForm.name,
+      duration_days: planForm.duration_days,
+      max_activations: planForm.max_activations,
+      features: parseTags(planForm.features),
+    }));
+    if (saved) setPlanForm(EMPTY_PLAN_FORM);
+  };
+
+  const handleRename = () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    const name = prompt(t('catalog.productName'), product.name);
+    if (!name || name === product.name) return;
+    run(() => saveProduct(client, { id: product.id, name }));
+  };
+
+  const handleDeleteProduct = () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (!confirm(t('catalog.confirmDeleteProduct', { name: product.name }))) return;
+    run(() => deleteProduct(client, product.id));
+  };
+
+  const handleDeletePlan = (plan: Plan) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (!confirm(t('catalog.confirmDeletePlan', { name: plan.name }))) return;
+    run(() => deletePlan(client, plan.id));
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden shadow-xl">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-800">
+        <button onClick={handleRename} className="font-semibold text-white hover:text-blue-400 transition-colors" title={t('catalog.rename')}>
+          {product.name}
+        </button>
+        <button
+          onClick={handleDeleteProduct}
+          className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+          title={t('catalog.deleteProduct')}
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+      <table className="w-full text-left text-sm">
+        <thead>
+          <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500">
+            <th className="p-3">{t('catalog.columnPlan')}</th>
+            <th className="p-3">{t('catalog.columnDuration')}</th>
+            <th className="p-3">{t('catalog.columnMachines')}</th>
+            <th className="p-3">{t('catalog.columnFeatures')}</th>
+            <th className="p-3"></th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-800">
+          {plans.map(plan => (
+            <tr key={plan.id}>
+              <td className="p-3 text-white">{plan.name}</td>
+              <td className="p-3 text-slate-300">{t('common.days', { count: plan.duration_days })}</td>
+              <td className="p-3 text-slate-300">{plan.max_activations}</td>
+              <td className="p-3">
+                <div className="flex flex-wrap gap-1">
+                  {plan.features.length === 0 && <span className="text-slate-600">—</span>}
+                  {plan.features.map(feature => (
+                    <span key={feature} className="px-1.5 py-0.5 rounded bg-blue-500/10 text-[10px] text-blue-300">{feature}</span>
+                  ))}
+                </div>
+              </td>
+              <td className="p-3 text-right">
+                <button
+                  onClick={() => handleDeletePlan(plan)}
+                  className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                  title={t('catalog.deletePlan')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <form onSubmit={handleAddPlan} className="grid grid-cols-2 sm:grid-cols-5 gap-2 p-3 border-t border-slate-800">
+        <input
+          type="text"
+          placeholder={t('catalog.planName')}
+          className={inputClass}
+          value={planForm.name}
+          onChange={e => setPlanForm({ ...planForm, name: e.target.value })}
+          required
+        />
+        <input
+          type="number"
+          min={1}
+          title={t('catalog.durationDays')}
+          className={inputClass}
+          value={planForm.duration_days}
+          onChange={e => setPlanForm({ ...planForm, duration_days: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+          required
+        />
+        <input
+          type="number"
+          min={1}
+          title={t('catalog.columnMachines')}
+          className={inputClass}
+          value={planForm.max_activations}
+          onChange={e => setPlanForm({ ...planForm, max_activations: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+          required
+        />
+        <input
+          type="text"
+          placeholder={t('catalog.featuresPlaceholder')}
+          className={inputClass}
+          value={planForm.features}
+          onChange={e => setPlanForm({ ...planForm, features: e.target.value })}
+        />
+        <button type="submit" className="bg-slate-700 hover:bg-slate-600 text-white text-sm rounded px-3 py-2 transition-colors">
+          {t('catalog.addPlan')}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export const CatalogView = ({ catalog, onChanged }: { catalog: Catalog, onChanged: () => void }) => {
+  const { t, describeError } = useI18n();
+  const [newProduct, setNewProduct] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      onChanged();
+      return true;
+    } catch (err: any) {
+      setError(describeError(err));
+      return false;
+    }
+  };
+
+  const handleAddProduct = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (await run(() => saveProduct(client, { name: newProduct }))) setNewProduct('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAddProduct} className="flex gap-2">
+        <input
+          type="text"
+          placeholder={t('catalog.newProductPlaceholder')}
+          className={`${inputClass} flex-1`}
+          value={newProduct}
+          onChange={e => setNewProduct(e.target.value)}
+          required
+        />
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-medium flex items-center gap-2 transition-colors whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          {t('catalog.addProduct')}
+        </button>
+      </form>
+
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      {catalog.products.length === 0 && <p className="text-sm text-slate-500">{t('catalog.empty')}</p>}
+      {catalog.products.map(product => (
+        <div key={product.id}>
+          <ProductCard
+            product={product}
+            plans={catalog.plans.filter(plan => plan.product_id === product.id)}
+            run={run}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useEffect, useState } from 'react';
+import { Lock, Pencil, Plug, Plus, Trash2, Unlock } from 'lucide-react';
+import { ConnectionEnvironment, ConnectionProfile } from '../types';
+import {
+  CONNECTION_ENVIRONMENTS,
+  ENVIRONMENT_BADGES,
+  ENV_PROFILE_ID,
+  deleteProfile,
+  disableVault,
+  enableVault,
+  hasVault,
+  profileDisplayName,
+  saveProfile,
+} from '../services/connectionProfiles';
+import { Modal } from './ui';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none disabled:opacity-60';
+
+type ProfileForm = { id?: string, name: string, environment: ConnectionEnvironment, url: string, key: string };
+
+const EMPTY_FORM: ProfileForm = { name: '', environment: 'staging', url: '', key: '' };
+
+export const EnvironmentBadge = ({ environment }: { environment: ConnectionEnvironment }) => (
+  <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold tracking-wide ${ENVIRONMENT_BADGES[environment].className}`}>
+    {ENVIRONMENT_BADGES[environment].label}
+  </span>
+);
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const ConnectionProfilesModal = ({ isOpen, profiles, activeId, onClose, onChanged, onConnect, onForgetDevice }: {
+  isOpen: boolean,
+  profiles: ConnectionProfile[],
+  activeId: string | null,
+  onClose: () => void,
+  onChanged: () => void,
+  onConnect: (profile: ConnectionProfile) => void,
+  onForgetDevice: () => void,
+}) => {
+  const { t, describeError } = useI18n();
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [encrypted, setEncrypted] = useState(hasVault);
+  const [passphrase, setPassphrase] = useState({ value: '', confirm: '' });
+  const [vaultBusy, setVaultBusy] = useState(false);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setForm(profiles.length === 0 ? EMPTY_FORM : null);
+    setError(null);
+    setEncrypted(hasVault());
+    setPassphrase({ value: '', confirm: '' });
+  }, [isOpen]);
+
+  const handleEnableVault = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase.value.length < MIN_PASSPHRASE_LENGTH) {
+      setError(t('profiles.passphraseTooShort', { count: MIN_PASSPHRASE_LENGTH }));
+      return;
+    }
+    if (passphrase.value !== passphrase.confirm) {
+      setError(t('profiles.passphraseMismatch'));
+      return;
+    }
+    setVaultBusy(true);
+    setError(null);
+    try {
+      await enableVault(passphrase.value);
+      setEncrypted(true);
+      setPassphrase({ value: '', confirm: '' });
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setVaultBusy(false);
+    }
+  };
+
+  const handleDisableVault = () => {
+    if (!confirm(t('profiles.confirmDisableVault'))) return;
+    try {
+      disableVault();
+      setEncrypted(false);
+    } catch (err: any) {
+      setError(describeError(err));
+    }
+  };
+
+  const isEnvProfile = form?.id === ENV_PROFILE_ID;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+    try {
+      const previous = profiles.find(p => p.id === form.id);
+      const saved = saveProfile(form);
+      setForm(null);
+      setError(null);
+      onChanged();
+      // Connect to the first profile added, and re-connect when the active one's credentials changed.
+      const credentialsChanged = previous?.url !== saved.url || previous?.key !== saved.key;
+      if (activeId === null || (saved.id === activeId && credentialsChanged)) onConnect(saved);
+    } catch (err: any) {
+      setError(describeError(err));
+    }
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    const warning = profile.environment === 'production'
+      ? t('profiles.confirmDeleteProduction', { name: profileDisplayName(profile, t) })
+      : t('profiles.confirmDelete', { name: profileDisplayName(profile, t) });
+    if (!confirm(warning)) return;
+    deleteProfile(profile.id);
+    onChanged();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={t('profiles.title')} size="lg">
+      <div className="space-y-4">
+        {profiles.length > 0 && (
+          <ul className="divide-y divide-slate-800 border border-slate-800 rounded">
+            {profiles.map(profile => (
+              <li key={profile.id} className="flex items-center gap-3 p-3">
+                <EnvironmentBadge environment={profile.environment} />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {profileDisplayName(profile, t)}
+                    {profile.id === activeId && <span className="ml-2 text-xs text-green-400">{t('profiles.active')}</span>}
+                  </p>
+                  <p className="text-xs text-slate-500 font-mono truncate">{profile.url}</p>
+                </div>
+                {profile.id !== activeId && (
+                  <button
+                    onClick={() => onConnect(profile)}
+                    className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-green-400/10 rounded transition-colors"
+                    title={t('profiles.connect')}
+                  >
+                    <Plug className="w-4 h-4" />
+                  </button>
+                )}
+                <button
+                  onClick={() => { setForm({ ...profile, name: profileDisplayName(profile, t) }); setError(null); }}
+                  className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                  title={t('common.edit')}
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => handleDelete(profile)}
+                  disabled={profile.id === ENV_PROFILE_ID || profile.id === activeId}
+                  className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                  title={profile.id === ENV_PROFILE_ID ? t('profiles.envNotDeletable') : profile.id === activeId ? t('profiles.activeNotDeletable') : t('common.delete')}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {!form && (
+          <button
+            onClick={() => { setForm(EMPTY_FORM); setError(null); }}
+            className="text-sm text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            {t('profiles.add')}
+          </button>
+        )}
+
+        {form && (
+          <form onSubmit={handleSubmit} className="space-y-3 border border-slate-800 rounded p-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t('profiles.name')}</label>
+                <input
+                  type="text"
+                  className={inputClass}
+                  placeholder={t('profiles.namePlaceholder')}
+                  value={form.name}
+                  onChange={e => setForm({ ...form, name: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t('profiles.environment')}</label>
+                <select
+                  className={`${inputClass} cursor-pointer`}
+                  value={form.environment}
+                  onChange={e => setForm({ ...form, environment: e.target.value as ConnectionEnvironment })}
+                >
+                  {CONNECTION_ENVIRONMENTS.map(env => <option key={env} value={env}>{ENVIRONMENT_BADGES[env].label}</option>)}
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('profiles.url')}</label>
+              <input
+                type="url"
+                className={`${inputClass} font-mono`}
+                placeholder="https://xxxx.supabase.co"
+                value={form.url}
+                onChange={e => setForm({ ...form, url: e.target.value })}
+                disabled={isEnvProfile}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('profiles.anonKey')}</label>
+              <input
+                type="password"
+                className={`${inputClass} font-mono`}
+                value={form.key}
+                onChange={e => setForm({ ...form, key: e.target.value })}
+                disabled={isEnvProfile}
+                required
+              />
+              {isEnvProfile && <p className="text-[10px] text-slate-500 mt-1">{t('profiles.envHint')}</p>}
+            </div>
+            {error && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                className="px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white text-sm rounded transition-colors"
+              >
+                {form.id ? t('common.save') : t('profiles.create')}
+              </button>
+              {profiles.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => setForm(null)}
+                  className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors"
+                >
+                  {t('common.cancel')}
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+
+        <div className="border-t border-slate-800 pt-4 space-y-3">
+          <h4 className="text-sm font-medium text-white flex items-center gap-2">
+            {encrypted ? <Lock className="w-4 h-4 text-green-400" /> : <Unlock className="w-4 h-4 text-slate-400" />}
+            {t('profiles.vaultTitle')}
+          </h4>
+          {encrypted ? (
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-xs text-slate-400">{t('profiles.vaultEnabled')}</p>
+              <button
+                onClick={handleDisableVault}
+                className="px-3 py-1.5 bg-slate-700 hover:bg-slate-600 text-white text-xs rounded transition-colors whitespace-nowrap"
+              >
+                {t('profiles.disableVault')}
+              </button>
+            </div>
+          ) : (
+            <form onSubmit={handleEnableVault} className="space-y-2">
+              <p className="text-xs text-slate-400">{t('profiles.vaultDisabled')}</p>
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="password"
+                  placeholder={t('profiles.passphrase')}
+                  className={inputClass}
+                  value={passphrase.value}
+                  onChange={e => setPassphrase({ ...passphrase, value: e.target.value })}
+                  required
+                />
+                <input
+                  type="password"
+                  placeholder={t('profiles.passphraseConfirm')}
+                  className={inputClass}
+                  value={passphrase.confirm}
+                  onChange={e => setPassphrase({ ...passphrase, confirm: e.target.value })}
+                  required
+                />
+                <button
+                  type="submit"
+                  disabled={vaultBusy}
+                  className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white text-sm rounded transition-colors whitespace-nowrap"
+                >
+                  {vaultBusy ? t('profiles.encrypting') : t('profiles.encrypt')}
+                </button>
+              </div>
+            </form>
+          )}
+          {error && !form && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+          <button
+            onClick={onForgetDevice}
+            className="text-xs text-red-400 hover:text-red-300 transition-colors"
+          >
+            {t('profiles.forgetDevice')}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { ChevronDown, Database, Settings } from 'lucide-react';
+import { ConnectionProfile } from '../types';
+import { profileDisplayName } from '../services/connectionProfiles';
+import { EnvironmentBadge } from './ConnectionProfilesModal';
+import { useI18n } from './I18nProvider';
+
+export const ConnectionSwitcher = ({ profiles, active, onSwitch, onManage }: {
+  profiles: ConnectionProfile[],
+  active: ConnectionProfile | null,
+  onSwitch: (profile: ConnectionProfile) => void,
+  onManage: () => void,
+}) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const choose = (action: () => void) => {
+    setIsOpen(false);
+    action();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        className="flex items-center gap-2 px-3 py-1.5 bg-slate-800/50 rounded-full border border-slate-800 text-xs text-slate-300 hover:text-white transition-colors"
+        title={active?.url ?? t('connection.choose')}
+      >
+        {active ? <EnvironmentBadge environment={active.environment} /> : <Database className="w-3.5 h-3.5" />}
+        <span className="hidden md:inline max-w-[10rem] truncate">{active ? profileDisplayName(active, t) : t('connection.none')}</span>
+        <ChevronDown className="w-3 h-3" />
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 mt-1 w-64 bg-slate-900 border border-slate-700 rounded shadow-xl z-50 py-1">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              onClick={() => choose(() => onSwitch(profile))}
+              disabled={profile.id === active?.id}
+              className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-300 hover:bg-slate-800 hover:text-white disabled:bg-slate-800/60 disabled:text-white transition-colors"
+            >
+              <EnvironmentBadge environment={profile.environment} />
+              <span className="truncate">{profileDisplayName(profile, t)}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => choose(onManage)}
+            className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-400 hover:bg-slate-800 hover:text-white border-t border-slate-800 transition-colors"
+          >
+            <Settings className="w-4 h-4" />
+            {t('connection.manage')}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
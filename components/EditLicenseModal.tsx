@@ -0,0 +1,259 @@
+import React, { useEffect, useState } from 'react';
+import { History } from 'lucide-react';
+import { License, LicenseHistoryEntry, LicenseHistoryAction, Plan } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import { fetchLicenseHistory } from '../services/licenseHistory';
+import { getLicenseRepository } from '../services/licenseRepository';
+import { EMPTY_METADATA_INPUT, LicenseMetadataInput, fromMetadataInput, parseTags, toMetadataInput } from '../services/licenseMetadata';
+import { Catalog } from '../services/catalog';
+import {
+  Duration,
+  ExtensionBase,
+  QUICK_EXTENSIONS,
+  extendExpiry,
+  extensionLabel,
+  fromDateTimeInputs,
+  toDateInputValue,
+  toTimeInputValue
+} from '../services/expiry';
+import { Badge, Modal } from './ui';
+import { LicenseMetadataFields } from './LicenseMetadataFields';
+import { PlanPicker } from './PlanPicker';
+import { useI18n } from './I18nProvider';
+
+const ACTION_BADGES: Record<LicenseHistoryAction, 'green' | 'yellow' | 'blue'> = {
+  extend: 'green',
+  edit: 'yellow',
+  rename: 'blue',
+};
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+// `canEditDetails` is false for support staff, who may only change the expiry.
+export const EditLicenseModal = ({ license, catalog, canEditDetails = true, onClose, onSaved }: { license: License | null, catalog: Catalog, canEditDetails?: boolean, onClose: () => void, onSaved: () => void }) => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [form, setForm] = useState({ key: '', expiryDate: '', expiryTime: '23:59', durationDays: 1 });
+  const [metadata, setMetadata] = useState<LicenseMetadataInput>(EMPTY_METADATA_INPUT);
+  const [entitlement, setEntitlement] = useState({ productId: null as string | null, planId: null as string | null, features: '' });
+  const [base, setBase] = useState<ExtensionBase>('current');
+  const [history, setHistory] = useState<LicenseHistoryEntry[]>([]);
+  const [historyError, setHistoryError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!license) return;
+    // Duration keys that have not been activated have no expiry yet; only their duration is editable.
+    const expiry = license.expires_at ? new Date(license.expires_at) : null;
+    setForm({
+      key: license.license_key,
+      expiryDate: expiry ? toDateInputValue(expiry) : '',
+      expiryTime: expiry ? toTimeInputValue(expiry) : '23:59',
+      durationDays: license.duration_days ?? 1,
+    });
+    setMetadata(toMetadataInput(license));
+    setEntitlement({ productId: license.product_id ?? null, planId: license.plan_id ?? null, features: (license.features ?? []).join(', ') });
+    setBase(expiry && expiry < new Date() ? 'today' : 'current');
+    setError(null);
+    setHistory([]);
+    setHistoryError(null);
+
+    // History is only kept in Supabase; demo mode has no client and shows none.
+    const client = getSupabaseClient();
+    if (!client) return;
+    let cancelled = false;
+    fetchLicenseHistory(client, license.license_key)
+      .then(entries => { if (!cancelled) setHistory(entries); })
+      .catch(err => { if (!cancelled) setHistoryError(describeError(err)); });
+    return () => { cancelled = true; };
+  }, [license]);
+
+  if (!license) return null;
+
+  const isPending = !license.expires_at;
+
+  const applyExtension = (duration: Duration) => {
+    // Quick extensions always start from the stored expiry, not from what is currently typed.
+    const next = extendExpiry(license.expires_at, duration, base);
+    setForm(prev => ({ ...prev, expiryDate: toDateInputValue(next), expiryTime: toTimeInputValue(next) }));
+  };
+
+  // Moving a key to another plan takes that plan's features; expiry and seats are left as they are.
+  const handlePlanSelect = (plan: Plan | null) => {
+    setEntitlement(plan
+      ? { productId: plan.product_id, planId: plan.id, features: plan.features.join(', ') }
+      : { productId: null, planId: null, features: entitlement.features });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const repository = getLicenseRepository();
+    if (!repository) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      await repository.update(license, {
+        ...fromMetadataInput(metadata),
+        product_id: entitlement.productId,
+        plan_id: entitlement.planId,
+        features: parseTags(entitlement.features),
+        license_key: form.key,
+        ...(isPending
+          ? { expires_at: null, duration_days: form.durationDays }
+          : { expires_at: fromDateTimeInputs(form.expiryDate, form.expiryTime).toISOString() }),
+      });
+      onSaved();
+      onClose();
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={!!license} onClose={onClose} title={t('edit.title')} size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <fieldset disabled={!canEditDetails} className="disabled:opacity-60">
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('licenses.columnKey')}</label>
+          <input
+            type="text"
+            className={`${inputClass} font-mono uppercase`}
+            value={form.key}
+            onChange={e => setForm({ ...form, key: e.target.value })}
+            required
+          />
+          {form.key.trim() !== license.license_key && (
+            <p className="text-xs text-yellow-400 mt-1">{t('edit.renameFrom')} <span className="font-mono">{license.license_key}</span>.</p>
+          )}
+        </fieldset>
+
+        {isPending ? (
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.durationDays')}</label>
+            <input
+              type="number"
+              min={1}
+              className={inputClass}
+              value={form.durationDays}
+              onChange={e => setForm({ ...form, durationDays: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+              required
+            />
+            <p className="text-xs text-slate-500 mt-1">{t('edit.pendingHint')}</p>
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.expiryDate')}</label>
+                <input
+                  type="date"
+                  className={inputClass}
+                  value={form.expiryDate}
+                  onChange={e => setForm({ ...form, expiryDate: e.target.value })}
+                  required
+                />
+              </div>
+              <div>
+                <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.expiryTime')}</label>
+                <input
+                  type="time"
+                  className={inputClass}
+                  value={form.expiryTime}
+                  onChange={e => setForm({ ...form, expiryTime: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center gap-4 text-xs text-slate-300">
+                <span className="text-slate-400">{t('edit.extendLabel')}</span>
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="radio" checked={base === 'current'} onChange={() => setBase('current')} />
+                  {t('edit.fromCurrent')}
+                </label>
+                <label className="flex items-center gap-1 cursor-pointer">
+                  <input type="radio" checked={base === 'today'} onChange={() => setBase('today')} />
+                  {t('edit.fromToday')}
+                </label>
+              </div>
+              <div className="flex gap-2">
+                {QUICK_EXTENSIONS.map((duration, i) => (
+                  <button
+                    key={i}
+                    type="button"
+                    onClick={() => applyExtension(duration)}
+                    className="flex-1 px-3 py-1 bg-slate-700 hover:bg-slate-600 text-xs text-white rounded transition-colors"
+                  >
+                    {extensionLabel(duration, t)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </>
+        )}
+
+        <fieldset disabled={!canEditDetails} className="space-y-4 disabled:opacity-60">
+        {catalog.plans.length > 0 && (
+          <PlanPicker catalog={catalog} value={entitlement.planId} onChange={handlePlanSelect} />
+        )}
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('edit.features')}</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={t('edit.featuresPlaceholder')}
+            value={entitlement.features}
+            onChange={e => setEntitlement({ ...entitlement, features: e.target.value })}
+          />
+        </div>
+
+        <LicenseMetadataFields value={metadata} onChange={setMetadata} />
+        </fieldset>
+
+        {error && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+
+        <button
+          type="submit"
+          disabled={saving}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors shadow-lg shadow-blue-500/20"
+        >
+          {saving ? t('edit.saving') : t('edit.submit')}
+        </button>
+      </form>
+
+      <div className="mt-6">
+        <div className="flex items-center gap-2 text-xs font-semibold uppercase text-slate-500 mb-2">
+          <History className="w-3 h-3" />
+          {t('edit.history')}
+        </div>
+        {historyError && <p className="text-xs text-red-400">{historyError}</p>}
+        {!historyError && history.length === 0 && <p className="text-xs text-slate-500">{t('edit.historyEmpty')}</p>}
+        <div className="space-y-1 max-h-48 overflow-y-auto">
+          {history.map(entry => (
+            <div key={entry.id} className="flex items-start justify-between gap-2 text-xs border-b border-slate-800 pb-1">
+              <div className="space-y-0.5">
+                <Badge color={ACTION_BADGES[entry.action]}>{t(`historyAction.${entry.action as LicenseHistoryAction}`)}</Badge>
+                <div className="text-slate-400">
+                  {entry.action === 'rename'
+                    ? <span className="font-mono">{entry.previous_key} → {entry.license_key}</span>
+                    : <>
+                        {entry.previous_expires_at ? formatDateTime(entry.previous_expires_at) : '—'}
+                        {' → '}
+                        {entry.new_expires_at ? formatDateTime(entry.new_expires_at) : '—'}
+                      </>}
+                </div>
+              </div>
+              <div className="text-right text-slate-500 whitespace-nowrap">
+                <div>{formatDateTime(entry.created_at)}</div>
+                {entry.changed_by && <div>{entry.changed_by}</div>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </Modal>
+  );
+};
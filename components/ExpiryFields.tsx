@@ -0,0 +1,81 @@
+import React from 'react';
+import { DURATION_PRESETS, ExpiryInput, ExpiryMode, TRIAL_DAYS } from '../services/expiry';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+/**
+ * Expiry of new keys: a fixed date and time, or a number of days that starts counting
+ * when the key is first activated.
+ */
+export const ExpiryFields = ({ value, onChange }: { value: ExpiryInput, onChange: (value: ExpiryInput) => void }) => {
+  const { t } = useI18n();
+  const set = (patch: Partial<ExpiryInput>) => onChange({ ...value, ...patch });
+
+  const modeOption = (mode: ExpiryMode, label: string) => (
+    <label className="flex items-center gap-1 cursor-pointer">
+      <input type="radio" checked={value.mode === mode} onChange={() => set({ mode })} />
+      {label}
+    </label>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-4 text-xs text-slate-300">
+        <span className="text-slate-400">{t('create.expiryMode')}</span>
+        {modeOption('fixed', t('create.fixedDate'))}
+        {modeOption('duration', t('create.fromActivation'))}
+      </div>
+
+      {value.mode === 'fixed' ? (
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.expiryDate')}</label>
+            <input
+              type="date"
+              className={inputClass}
+              value={value.expiryDate}
+              onChange={e => set({ expiryDate: e.target.value })}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.expiryTime')}</label>
+            <input
+              type="time"
+              className={inputClass}
+              value={value.expiryTime}
+              onChange={e => set({ expiryTime: e.target.value })}
+              required
+            />
+          </div>
+        </div>
+      ) : (
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('create.durationDays')}</label>
+          <input
+            type="number"
+            min={1}
+            className={inputClass}
+            value={value.durationDays}
+            onChange={e => set({ durationDays: Math.max(1, Math.floor(Number(e.target.value)) || 1) })}
+            required
+          />
+          <div className="flex gap-2 mt-2">
+            {DURATION_PRESETS.map(days => (
+              <button
+                key={days}
+                type="button"
+                onClick={() => set({ durationDays: days })}
+                className="flex-1 px-3 py-1 bg-slate-700 hover:bg-slate-600 text-xs text-white rounded transition-colors"
+              >
+                {days === TRIAL_DAYS ? t('create.trial', { count: days }) : t('common.days', { count: days })}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-slate-500 mt-1">{t('create.durationHint')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
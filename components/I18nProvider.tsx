@@ -0,0 +1,30 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { I18n, Locale, createI18n, getStoredLocale } from '../services/i18n';
+
+export interface I18nContextValue extends I18n {
+  // Only switches the language; where the choice is remembered is up to the caller.
+  setLocale: (locale: Locale) => void;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider = ({ children }: { children?: React.ReactNode }) => {
+  const [locale, setLocaleState] = useState<Locale>(() => getStoredLocale());
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+  }, [locale]);
+
+  const value = useMemo((): I18nContextValue => ({
+    ...createI18n(locale),
+    setLocale: setLocaleState,
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const value: I18nContextValue | null = useContext(I18nContext);
+  if (!value) throw new Error('useI18n must be used inside I18nProvider');
+  return value;
+};
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Upload } from 'lucide-react';
+import { getSupabaseClient } from '../services/supabase';
+import {
+  ImportConflictMode,
+  ImportRow,
+  ImportSummary,
+  detectImportFormat,
+  importLicenses,
+  parseImportFile,
+  prepareImport
+} from '../services/licenseImport';
+import { Badge } from './ui';
+import { useI18n } from './I18nProvider';
+
+const STATUS_COLORS: Record<ImportRow['status'], 'green' | 'yellow' | 'red'> = {
+  new: 'green',
+  conflict: 'yellow',
+  duplicate: 'red',
+  invalid: 'red',
+};
+
+const PREVIEW_LIMIT = 200;
+
+export const ImportLicensesForm = ({ onCompleted }: { onCompleted: () => void }) => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [conflictMode, setConflictMode] = useState<ImportConflictMode>('skip');
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number, total: number } | null>(null);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const counts = useMemo(() => {
+    const result = { new: 0, conflict: 0, duplicate: 0, invalid: 0 };
+    rows?.forEach(r => result[r.status]++);
+    return result;
+  }, [rows]);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const client = getSupabaseClient();
+    if (!client) return;
+
+    setFileName(file.name);
+    setRows(null);
+    setSummary(null);
+    setError(null);
+    setLoading(true);
+    try {
+      const text = await file.text();
+      const format = detectImportFormat(file.name, text);
+      const records = parseImportFile(text, format);
+      if (records.length === 0) throw new Error(t('import.noRows'));
+      setRows(await prepareImport(client, records, format));
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleImport = async () => {
+    const client = getSupabaseClient();
+    if (!client || !rows) return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await importLicenses(client, rows, conflictMode, (done, total) => setProgress({ done, total }));
+      setSummary(result);
+      setRows(null);
+      onCompleted();
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const writableCount = counts.new + (conflictMode === 'overwrite' ? counts.conflict : 0);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <label className="flex items-center justify-center gap-2 w-full border border-dashed border-slate-700 hover:border-blue-500 rounded p-4 text-sm text-slate-400 cursor-pointer transition-colors">
+          <Upload className="w-4 h-4" />
+          {fileName ? fileName : t('import.chooseFile')}
+          <input type="file" accept=".csv,.json,text/csv,application/json" className="hidden" onChange={handleFile} />
+        </label>
+        <p className="text-[10px] text-slate-500 mt-1">
+          {t('import.requiredColumns')} <code>license_key</code>, <code>expires_at</code> {t('import.dateFormats')} {t('import.optionalColumns')} <code>hwid</code>.
+        </p>
+      </div>
+
+      {error && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+
+      {rows && (
+        <>
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge color="green">{t('import.countNew', { count: counts.new })}</Badge>
+            <Badge color="yellow">{t('import.countConflict', { count: counts.conflict })}</Badge>
+            <Badge color="red">{t('import.countRejected', { count: counts.duplicate + counts.invalid })}</Badge>
+          </div>
+
+          <div className="max-h-72 overflow-auto border border-slate-800 rounded">
+            <table className="w-full text-left text-xs">
+              <thead className="bg-slate-950/50 text-slate-500 uppercase sticky top-0">
+                <tr>
+                  <th className="p-2">#</th>
+                  <th className="p-2">{t('licenses.columnKey')}</th>
+                  <th className="p-2">{t('licenses.columnExpiresAt')}</th>
+                  <th className="p-2">HWID</th>
+                  <th className="p-2">{t('licenses.columnStatus')}</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-800">
+                {rows.slice(0, PREVIEW_LIMIT).map(row => (
+                  <tr key={row.row}>
+                    <td className="p-2 text-slate-500">{row.row}</td>
+                    <td className="p-2 font-mono text-slate-200">{row.license.license_key || '—'}</td>
+                    <td className="p-2 text-slate-300">
+                      {row.license.expires_at ? formatDateTime(row.license.expires_at) : '—'}
+                    </td>
+                    <td className="p-2 font-mono text-slate-400">{row.license.hwid || '—'}</td>
+                    <td className="p-2" title={row.error && describeError(row.error)}>
+                      <Badge color={STATUS_COLORS[row.status]}>{t(`importStatus.${row.status as ImportRow['status']}`)}</Badge>
+                      {row.error && <div className="text-[10px] text-red-400 mt-0.5">{describeError(row.error)}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > PREVIEW_LIMIT && (
+              <p className="p-2 text-[10px] text-slate-500">{t('import.moreRows', { count: rows.length - PREVIEW_LIMIT })}</p>
+            )}
+          </div>
+
+          {counts.conflict > 0 && (
+            <div className="flex items-center gap-4 text-xs text-slate-300">
+              <span className="text-slate-400">{t('import.existingKeys')}</span>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="radio" checked={conflictMode === 'skip'} onChange={() => setConflictMode('skip')} />
+                {t('import.skip')}
+              </label>
+              <label className="flex items-center gap-1 cursor-pointer">
+                <input type="radio" checked={conflictMode === 'overwrite'} onChange={() => setConflictMode('overwrite')} />
+                {t('import.overwrite')}
+              </label>
+            </div>
+          )}
+
+          <button
+            type="button"
+            onClick={handleImport}
+            disabled={loading || writableCount === 0}
+            className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors shadow-lg shadow-blue-500/20"
+          >
+            {loading && progress ? t('import.progress', { done: progress.done, total: progress.total }) : t('import.submit', { count: writableCount })}
+          </button>
+        </>
+      )}
+
+      {!rows && loading && <p className="text-xs text-slate-400">{t('import.reading')}</p>}
+
+      {summary && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2 text-xs">
+            <Badge color="green">{t('import.inserted', { count: summary.inserted })}</Badge>
+            <Badge color="blue">{t('import.updated', { count: summary.updated })}</Badge>
+            <Badge color="yellow">{t('import.skipped', { count: summary.skipped })}</Badge>
+            <Badge color="red">{t('import.countRejected', { count: summary.rejected })}</Badge>
+          </div>
+          {summary.errors.length > 0 && (
+            <div className="max-h-40 overflow-y-auto border border-slate-800 rounded divide-y divide-slate-800 text-xs">
+              {summary.errors.map(err => (
+                <div key={`${err.row}-${err.license_key}`} className="flex justify-between gap-2 px-2 py-1">
+                  <span className="text-slate-400">#{err.row} <span className="font-mono text-slate-300">{err.license_key || '—'}</span></span>
+                  <span className="text-red-400 text-right">{describeError(err.error)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React, { useMemo, useState } from 'react';
+import { DEFAULT_KEY_FORMAT, KeyFormat, generateSecureKey } from '../services/keygen';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-1.5 text-white text-xs focus:border-blue-500 outline-none';
+
+// Alphabet is stored uppercase and de-duplicated so validation can compare case-insensitively.
+const normalizeAlphabet = (value: string) => Array.from(new Set(value.toUpperCase().replace(/\s/g, ''))).join('');
+
+export const KeyFormatSettings = ({ format, onChange }: { format: KeyFormat, onChange: (format: KeyFormat) => void }) => {
+  const { t } = useI18n();
+  const [isOpen, setIsOpen] = useState(false);
+
+  const sample = useMemo(() => (format.alphabet.length >= 2 ? generateSecureKey(format) : ''), [format]);
+
+  const update = (patch: Partial<KeyFormat>) => onChange({ ...format, ...patch });
+
+  return (
+    <div className="border border-slate-800 rounded">
+      <button
+        type="button"
+        onClick={() => setIsOpen(prev => !prev)}
+        className="w-full flex items-center justify-between px-2 py-1.5 text-xs text-slate-400 hover:text-white transition-colors"
+      >
+        <span>{t('keyFormat.title')}</span>
+        <span className="font-mono text-slate-500">{isOpen ? '▲' : sample}</span>
+      </button>
+      {isOpen && (
+        <div className="p-2 border-t border-slate-800 space-y-2">
+          <div>
+            <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.alphabet')}</label>
+            <input
+              type="text"
+              className={`${inputClass} font-mono`}
+              value={format.alphabet}
+              onChange={e => update({ alphabet: normalizeAlphabet(e.target.value) })}
+            />
+            {format.alphabet.length < 2 && <p className="text-[10px] text-red-400 mt-1">{t('keyFormat.alphabetTooShort')}</p>}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <div>
+              <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.prefix')}</label>
+              <input
+                type="text"
+                className={`${inputClass} font-mono uppercase`}
+                value={format.prefix}
+                onChange={e => update({ prefix: e.target.value.toUpperCase() })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.groups')}</label>
+              <input
+                type="number"
+                min={1}
+                max={8}
+                className={inputClass}
+                value={format.groups}
+                onChange={e => update({ groups: Math.max(1, Math.min(8, Number(e.target.value) || 1)) })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.groupLength')}</label>
+              <input
+                type="number"
+                min={2}
+                max={12}
+                className={inputClass}
+                value={format.groupLength}
+                onChange={e => update({ groupLength: Math.max(2, Math.min(12, Number(e.target.value) || 2)) })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.separator')}</label>
+              <input
+                type="text"
+                maxLength={1}
+                className={`${inputClass} font-mono`}
+                value={format.separator}
+                onChange={e => update({ separator: e.target.value })}
+              />
+            </div>
+            <div>
+              <label className="block text-[10px] font-medium text-slate-500 mb-1">{t('keyFormat.checksumLength')}</label>
+              <input
+                type="number"
+                min={0}
+                max={4}
+                className={inputClass}
+                value={format.checksumLength}
+                onChange={e => update({ checksumLength: Math.max(0, Math.min(4, Number(e.target.value) || 0)) })}
+              />
+            </div>
+            <div className="flex items-end">
+              <button
+                type="button"
+                onClick={() => onChange(DEFAULT_KEY_FORMAT)}
+                className="w-full px-2 py-1.5 bg-slate-700 hover:bg-slate-600 text-[10px] text-white rounded transition-colors"
+              >
+                {t('keyFormat.reset')}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
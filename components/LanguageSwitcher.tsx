@@ -0,0 +1,20 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { LOCALES, LOCALE_NAMES, Locale } from '../services/i18n';
+import { useI18n } from './I18nProvider';
+
+export const LanguageSwitcher = ({ value, onChange }: { value: Locale, onChange: (locale: Locale) => void }) => {
+  const { t } = useI18n();
+  return (
+    <label className="flex items-center gap-1.5 bg-slate-800/50 border border-slate-800 rounded-full px-3 py-1.5 text-xs text-slate-300" title={t('common.language')}>
+      <Languages className="w-3.5 h-3.5 text-slate-500" />
+      <select
+        value={value}
+        onChange={e => onChange(e.target.value as Locale)}
+        className="bg-transparent outline-none cursor-pointer"
+      >
+        {LOCALES.map(locale => <option key={locale} value={locale} className="bg-slate-900">{LOCALE_NAMES[locale]}</option>)}
+      </select>
+    </label>
+  );
+};
@@ -0,0 +1,58 @@
+import React, { useEffect, useState } from 'react';
+import { LicenseEvent, LicenseEventType } from '../types';
+import { getLicenseRepository } from '../services/licenseRepository';
+import { Badge, Modal } from './ui';
+import { useI18n } from './I18nProvider';
+
+const EVENT_COLORS: Record<LicenseEventType, 'green' | 'blue' | 'yellow'> = {
+  activate: 'green',
+  check: 'blue',
+  deactivate: 'yellow',
+};
+
+export const LicenseEventsModal = ({ licenseKey, onClose }: { licenseKey: string | null, onClose: () => void }) => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [events, setEvents] = useState<LicenseEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!licenseKey) return;
+    const repository = getLicenseRepository();
+    if (!repository) return;
+
+    let cancelled = false;
+    setEvents([]);
+    setError(null);
+    setLoading(true);
+    repository.events(licenseKey)
+      .then(result => { if (!cancelled) setEvents(result); })
+      .catch(err => { if (!cancelled) setError(describeError(err)); })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [licenseKey]);
+
+  return (
+    <Modal isOpen={!!licenseKey} onClose={onClose} title={t('events.title', { key: licenseKey ?? '' })} size="lg">
+      {error && <p className="text-xs text-red-400">{t('common.error', { message: error })}</p>}
+      {!error && !loading && events.length === 0 && <p className="text-sm text-slate-500">{t('events.empty')}</p>}
+      {loading && <p className="text-sm text-slate-400">{t('common.loading')}</p>}
+      <ol className="relative border-l border-slate-700 ml-2 space-y-4">
+        {events.map(event => (
+          <li key={event.id} className="ml-4">
+            <div className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-slate-700 border border-slate-900" />
+            <div className="flex items-center gap-2 text-xs text-slate-400">
+              <Badge color={EVENT_COLORS[event.event] ?? 'blue'}>{t(`licenseEvent.${event.event as LicenseEventType}`)}</Badge>
+              <span>{formatDateTime(event.created_at)}</span>
+              {event.app_version && <span className="text-slate-500">• v{event.app_version}</span>}
+            </div>
+            <div className="mt-1 text-xs font-mono text-slate-300 break-all">{event.hwid}</div>
+            {(event.ip || event.country) && (
+              <div className="text-xs text-slate-500">{[event.ip, event.country].filter(Boolean).join(' · ')}</div>
+            )}
+          </li>
+        ))}
+      </ol>
+    </Modal>
+  );
+};
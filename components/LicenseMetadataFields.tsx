@@ -0,0 +1,67 @@
+import React from 'react';
+import { LicenseMetadataInput } from '../services/licenseMetadata';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+export const LicenseMetadataFields = ({ value, onChange }: { value: LicenseMetadataInput, onChange: (value: LicenseMetadataInput) => void }) => {
+  const { t } = useI18n();
+  const set = (patch: Partial<LicenseMetadataInput>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('metadata.customerName')}</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={t('metadata.customerNamePlaceholder')}
+            value={value.customer_name}
+            onChange={e => set({ customer_name: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('metadata.customerEmail')}</label>
+          <input
+            type="email"
+            className={inputClass}
+            placeholder="customer@example.com"
+            value={value.customer_email}
+            onChange={e => set({ customer_email: e.target.value })}
+          />
+        </div>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('metadata.orderIdLabel')}</label>
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            value={value.order_id}
+            onChange={e => set({ order_id: e.target.value })}
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('metadata.tags')}</label>
+          <input
+            type="text"
+            className={inputClass}
+            placeholder={t('metadata.tagsPlaceholder')}
+            value={value.tags}
+            onChange={e => set({ tags: e.target.value })}
+          />
+        </div>
+      </div>
+      <div>
+        <label className="block text-xs font-medium text-slate-400 mb-1">{t('metadata.notes')}</label>
+        <textarea
+          rows={2}
+          className={`${inputClass} resize-y`}
+          value={value.notes}
+          onChange={e => set({ notes: e.target.value })}
+        />
+      </div>
+    </div>
+  );
+};
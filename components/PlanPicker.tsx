@@ -0,0 +1,38 @@
+import React from 'react';
+import { Plan } from '../types';
+import { Catalog } from '../services/catalog';
+import { useI18n } from './I18nProvider';
+
+export const PlanPicker = ({ catalog, value, onChange }: { catalog: Catalog, value: string | null, onChange: (plan: Plan | null) => void }) => {
+  const { t } = useI18n();
+  const selected = catalog.plans.find(p => p.id === value) ?? null;
+
+  return (
+    <div>
+      <label className="block text-xs font-medium text-slate-400 mb-1">{t('plan.picker')}</label>
+      <select
+        value={value ?? ''}
+        onChange={e => onChange(catalog.plans.find(p => p.id === e.target.value) ?? null)}
+        className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none cursor-pointer"
+      >
+        <option value="">{t('plan.none')}</option>
+        {catalog.products.map(product => (
+          <optgroup key={product.id} label={product.name}>
+            {catalog.plans.filter(plan => plan.product_id === product.id).map(plan => (
+              <option key={plan.id} value={plan.id}>
+                {t('plan.option', { product: product.name, plan: plan.name, days: t('common.days', { count: plan.duration_days }), machines: plan.max_activations })}
+              </option>
+            ))}
+          </optgroup>
+        ))}
+      </select>
+      {selected && selected.features.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {selected.features.map(feature => (
+            <span key={feature} className="px-1.5 py-0.5 rounded bg-blue-500/10 text-[10px] text-blue-300">{feature}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
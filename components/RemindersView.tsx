@@ -0,0 +1,446 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Play, Plus, Trash2 } from 'lucide-react';
+import { BotFormat, ReminderChannel, ReminderChannelType, ReminderLogEntry, ReminderSettings } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import {
+  ReminderChannelInput,
+  deleteReminderChannel,
+  fetchReminderCandidates,
+  fetchReminderChannels,
+  fetchReminderLog,
+  fetchReminderLogSince,
+  fetchReminderSettings,
+  reminderWindow,
+  saveReminderChannel,
+  saveReminderSettings,
+} from '../services/reminderSettings';
+import { REMINDER_CHANNEL_TYPES, ReminderMessage, TEMPLATE_PLACEHOLDERS, planReminders } from '../services/reminders';
+import { LOCALES, LOCALE_NAMES, Locale } from '../services/i18n';
+import { Badge } from './ui';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+const sectionClass = 'bg-slate-900 border border-slate-800 rounded-lg p-4 space-y-3';
+
+const EMPTY_CONFIGS: { [T in ReminderChannelType]: Extract<ReminderChannelInput, { type: T }>['config'] } = {
+  email: { recipient: 'customer' },
+  webhook: { url: '' },
+  bot: { format: 'telegram', url: 'https://api.telegram.org/bot<token>/sendMessage', chat_id: '' },
+};
+
+const newChannel = (type: ReminderChannelType): ReminderChannelInput =>
+  ({ name: '', enabled: true, type, config: { ...EMPTY_CONFIGS[type] } }) as ReminderChannelInput;
+
+const parseThresholds = (value: string) =>
+  value.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+
+const ChannelFields = ({ channel, onChange }: { channel: ReminderChannelInput, onChange: (channel: ReminderChannelInput) => void }) => {
+  const { t } = useI18n();
+  const setConfig = (changes: object) => onChange({ ...channel, config: { ...channel.config, ...changes } } as ReminderChannelInput);
+
+  switch (channel.type) {
+    case 'email':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <select
+            className={`${inputClass} cursor-pointer`}
+            value={channel.config.recipient}
+            onChange={e => setConfig({ recipient: e.target.value })}
+          >
+            <option value="customer">{t('reminders.recipientCustomer')}</option>
+            <option value="fixed">{t('reminders.recipientFixed')}</option>
+          </select>
+          {channel.config.recipient === 'fixed' && (
+            <input
+              type="email"
+              className={inputClass}
+              placeholder="sales@example.com"
+              value={channel.config.address ?? ''}
+              onChange={e => setConfig({ address: e.target.value })}
+              required
+            />
+          )}
+        </div>
+      );
+    case 'webhook':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <input
+            type="url"
+            className={`${inputClass} font-mono`}
+            placeholder="https://example.com/hooks/license"
+            value={channel.config.url}
+            onChange={e => setConfig({ url: e.target.value })}
+            required
+          />
+          <input
+            type="password"
+            className={`${inputClass} font-mono`}
+            placeholder={t('reminders.bearerToken')}
+            value={channel.config.secret ?? ''}
+            onChange={e => setConfig({ secret: e.target.value || undefined })}
+          />
+        </div>
+      );
+    case 'bot':
+      return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <select
+            className={`${inputClass} cursor-pointer`}
+            value={channel.config.format}
+            onChange={e => setConfig({ format: e.target.value as BotFormat })}
+          >
+            <option value="telegram">Telegram</option>
+            <option value="zalo">Zalo OA</option>
+          </select>
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            placeholder={channel.config.format === 'zalo' ? 'User id' : 'Chat id'}
+            value={channel.config.chat_id}
+            onChange={e => setConfig({ chat_id: e.target.value })}
+            required
+          />
+          <input
+            type="url"
+            className={`${inputClass} font-mono sm:col-span-2`}
+            value={channel.config.url}
+            onChange={e => setConfig({ url: e.target.value })}
+            required
+          />
+          {channel.config.format === 'zalo' && (
+            <input
+              type="password"
+              className={`${inputClass} font-mono sm:col-span-2`}
+              placeholder="Access token"
+              value={channel.config.access_token ?? ''}
+              onChange={e => setConfig({ access_token: e.target.value || undefined })}
+            />
+          )}
+        </div>
+      );
+  }
+};
+
+export const RemindersView = () => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [settings, setSettings] = useState<ReminderSettings | null>(null);
+  const [thresholdInput, setThresholdInput] = useState('');
+  const [channels, setChannels] = useState<ReminderChannel[]>([]);
+  const [editing, setEditing] = useState<ReminderChannelInput | null>(null);
+  const [log, setLog] = useState<ReminderLogEntry[]>([]);
+  const [preview, setPreview] = useState<ReminderMessage[] | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const load = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    try {
+      const [nextSettings, nextChannels, nextLog] = await Promise.all([
+        fetchReminderSettings(client),
+        fetchReminderChannels(client),
+        fetchReminderLog(client),
+      ]);
+      setSettings(nextSettings);
+      setThresholdInput(nextSettings.thresholds.join(', '));
+      setChannels(nextChannels);
+      setLog(nextLog);
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    setBusy(true);
+    setError(null);
+    setNotice(null);
+    try {
+      await action();
+      if (success) setNotice(success);
+      return true;
+    } catch (err: any) {
+      setError(describeError(err));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSaveSettings = (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client || !settings) return;
+    run(async () => {
+      await saveReminderSettings(client, { ...settings, thresholds: parseThresholds(thresholdInput) });
+      await load();
+    }, t('reminders.settingsSaved'));
+  };
+
+  const handleSaveChannel = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client || !editing) return;
+    const saved = await run(async () => {
+      await saveReminderChannel(client, editing);
+      setChannels(await fetchReminderChannels(client));
+    });
+    if (saved) setEditing(null);
+  };
+
+  const handleToggleChannel = (channel: ReminderChannel) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    run(async () => {
+      await saveReminderChannel(client, { ...channel, enabled: !channel.enabled });
+      setChannels(await fetchReminderChannels(client));
+    });
+  };
+
+  const handleDeleteChannel = (channel: ReminderChannel) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (!confirm(t('reminders.confirmDeleteChannel', { name: channel.name }))) return;
+    run(async () => {
+      await deleteReminderChannel(client, channel.id);
+      setChannels(await fetchReminderChannels(client));
+    });
+  };
+
+  // Uses the form as it is now, so template edits can be previewed before saving.
+  const handleDryRun = () => {
+    const client = getSupabaseClient();
+    if (!client || !settings) return;
+    run(async () => {
+      const draft = { ...settings, thresholds: parseThresholds(thresholdInput).filter(days => Number.isInteger(days) && days >= 0) };
+      const window = reminderWindow(draft);
+      const [licenses, sentLog] = await Promise.all([
+        fetchReminderCandidates(client, window),
+        fetchReminderLogSince(client, window.from),
+      ]);
+      setPreview(planReminders({ licenses, settings: draft, channels, log: sentLog }));
+    });
+  };
+
+  const channelName = (id: string) => channels.find(c => c.id === id)?.name ?? t('reminders.deletedChannel');
+
+  const thresholdLabel = (days: number) => days === 0 ? t('reminders.expiryDay') : t('common.days', { count: days });
+
+  if (!settings) {
+    return <p className="text-sm text-slate-500">{error ? t('common.error', { message: error }) : t('common.loading')}</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+      {notice && <p className="text-sm text-green-400">{notice}</p>}
+
+      <form onSubmit={handleSaveSettings} className={sectionClass}>
+        <h3 className="text-sm font-medium text-white">{t('reminders.settingsTitle')}</h3>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('reminders.thresholds')}</label>
+          <input
+            type="text"
+            className={`${inputClass} font-mono`}
+            value={thresholdInput}
+            onChange={e => setThresholdInput(e.target.value)}
+            placeholder="30, 7, 1, 0"
+          />
+          <p className="text-[10px] text-slate-500 mt-1">{t('reminders.thresholdsHint')}</p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('reminders.subject')}</label>
+          <input
+            type="text"
+            className={inputClass}
+            value={settings.subject_template}
+            onChange={e => setSettings({ ...settings, subject_template: e.target.value })}
+            required
+          />
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('reminders.body')}</label>
+          <textarea
+            className={`${inputClass} h-28`}
+            value={settings.body_template}
+            onChange={e => setSettings({ ...settings, body_template: e.target.value })}
+            required
+          />
+          <p className="text-[10px] text-slate-500 mt-1">
+            {t('reminders.placeholders')} {TEMPLATE_PLACEHOLDERS.map(name => <code key={name} className="bg-black/30 px-1 rounded mr-1">{`{{${name}}}`}</code>)}
+          </p>
+        </div>
+        <div>
+          <label className="block text-xs font-medium text-slate-400 mb-1">{t('reminders.locale')}</label>
+          <select
+            className={inputClass}
+            value={settings.locale}
+            onChange={e => setSettings({ ...settings, locale: e.target.value as Locale })}
+          >
+            {LOCALES.map(locale => <option key={locale} value={locale}>{LOCALE_NAMES[locale]}</option>)}
+          </select>
+        </div>
+        <div className="flex gap-2">
+          <button
+            type="submit"
+            disabled={busy}
+            className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm rounded transition-colors"
+          >
+            {t('common.save')}
+          </button>
+          <button
+            type="button"
+            onClick={handleDryRun}
+            disabled={busy}
+            className="px-4 py-2 bg-slate-700 hover:bg-slate-600 disabled:opacity-50 text-white text-sm rounded flex items-center gap-2 transition-colors"
+          >
+            <Play className="w-4 h-4" />
+            {t('reminders.dryRun')}
+          </button>
+        </div>
+      </form>
+
+      {preview && (
+        <div className={sectionClass}>
+          <h3 className="text-sm font-medium text-white">{t('reminders.previewTitle', { count: preview.length })}</h3>
+          {preview.length === 0 && <p className="text-sm text-slate-500">{t('reminders.previewEmpty')}</p>}
+          <ul className="divide-y divide-slate-800">
+            {preview.map(message => (
+              <li key={`${message.license.license_key}-${message.channel.id}`} className="py-2 text-sm">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-mono text-white">{message.license.license_key}</span>
+                  <Badge color="yellow">{thresholdLabel(message.threshold)}</Badge>
+                  <span className="text-xs text-slate-400">→ {message.channel.name}</span>
+                </div>
+                <details className="mt-1">
+                  <summary className="text-xs text-slate-300 cursor-pointer">{message.subject}</summary>
+                  <pre className="text-xs text-slate-400 whitespace-pre-wrap mt-1 font-sans">{message.body}</pre>
+                </details>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className={sectionClass}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-white">{t('reminders.channels')}</h3>
+          {!editing && (
+            <div className="flex gap-2">
+              {REMINDER_CHANNEL_TYPES.map(type => (
+                <button
+                  key={type}
+                  onClick={() => setEditing(newChannel(type))}
+                  className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
+                >
+                  <Plus className="w-3 h-3" />
+                  {t(`reminderChannel.${type}`)}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {channels.length === 0 && !editing && <p className="text-sm text-slate-500">{t('reminders.noChannels')}</p>}
+        <ul className="divide-y divide-slate-800">
+          {channels.map(channel => (
+            <li key={channel.id} className="flex items-center gap-3 py-2">
+              <input
+                type="checkbox"
+                checked={channel.enabled}
+                onChange={() => handleToggleChannel(channel)}
+                title={channel.enabled ? t('common.enabled') : t('common.disabled')}
+                className="cursor-pointer"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${channel.enabled ? 'text-white' : 'text-slate-500'}`}>{channel.name}</p>
+                <p className="text-xs text-slate-500">{t(`reminderChannel.${channel.type as ReminderChannelType}`)}</p>
+              </div>
+              <button
+                onClick={() => setEditing({ ...channel })}
+                className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                title={t('common.edit')}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDeleteChannel(channel)}
+                className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                title={t('common.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {editing && (
+          <form onSubmit={handleSaveChannel} className="space-y-3 border border-slate-800 rounded p-3">
+            <p className="text-xs text-slate-400">{t(`reminderChannel.${editing.type as ReminderChannelType}`)}</p>
+            <input
+              type="text"
+              className={inputClass}
+              placeholder={t('reminders.channelName')}
+              value={editing.name}
+              onChange={e => setEditing({ ...editing, name: e.target.value })}
+              required
+            />
+            <ChannelFields channel={editing} onChange={setEditing} />
+            {editing.type === 'email' && (
+              <p className="text-[10px] text-slate-500">{t('reminders.smtpHint')}</p>
+            )}
+            <div className="flex gap-2">
+              <button type="submit" disabled={busy} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm rounded transition-colors">
+                {t('reminders.saveChannel')}
+              </button>
+              <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors">
+                {t('common.cancel')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden">
+        <h3 className="text-sm font-medium text-white p-4 pb-2">{t('reminders.logTitle')}</h3>
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500">
+              <th className="p-3">{t('licenses.columnKey')}</th>
+              <th className="p-3">{t('reminders.columnThreshold')}</th>
+              <th className="p-3">{t('reminders.columnChannel')}</th>
+              <th className="p-3">{t('licenses.columnStatus')}</th>
+              <th className="p-3">{t('audit.columnTime')}</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {log.length === 0 && (
+              <tr>
+                <td colSpan={5} className="p-6 text-center text-slate-500">{t('reminders.logEmpty')}</td>
+              </tr>
+            )}
+            {log.map(entry => (
+              <tr key={entry.id}>
+                <td className="p-3 font-mono text-white">{entry.license_key}</td>
+                <td className="p-3 text-slate-300">{thresholdLabel(entry.threshold_days)}</td>
+                <td className="p-3 text-slate-300">{channelName(entry.channel_id)}</td>
+                <td className="p-3" title={entry.error ?? undefined}>
+                  <Badge color={entry.status === 'sent' ? 'green' : 'red'}>
+                    {entry.status === 'sent' ? t('reminders.sent') : t('reminders.failed', { count: entry.attempts })}
+                  </Badge>
+                </td>
+                <td className="p-3 text-xs text-slate-400">{formatDateTime(entry.sent_at)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
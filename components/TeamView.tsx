@@ -0,0 +1,158 @@
+import React, { useEffect, useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Role, TeamMember } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import { ROLES, fetchTeam, removeTeamMember, saveTeamMember } from '../services/roles';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+
+export const TeamView = ({ currentEmail }: { currentEmail: string | null }) => {
+  const { t, describeError } = useI18n();
+  const [members, setMembers] = useState<TeamMember[]>([]);
+  const [form, setForm] = useState<{ email: string, role: Role }>({ email: '', role: 'viewer' });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    setLoading(true);
+    try {
+      setMembers(await fetchTeam(client));
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+      await load();
+      return true;
+    } catch (err: any) {
+      setError(describeError(err));
+      return false;
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (await run(() => saveTeamMember(client, form.email, form.role))) setForm({ email: '', role: 'viewer' });
+  };
+
+  const handleRoleChange = (member: TeamMember, role: Role) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    run(() => saveTeamMember(client, member.email, role));
+  };
+
+  const handleRemove = (member: TeamMember) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (!confirm(t('team.confirmRemove', { email: member.email }))) return;
+    run(() => removeTeamMember(client, member.email));
+  };
+
+  const isSelf = (member: TeamMember) => member.email === currentEmail?.toLowerCase();
+
+  return (
+    <div className="space-y-4">
+      <form onSubmit={handleAdd} className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="email"
+          placeholder={t('team.emailPlaceholder')}
+          className={`${inputClass} flex-1`}
+          value={form.email}
+          onChange={e => setForm({ ...form, email: e.target.value })}
+          required
+        />
+        <select
+          value={form.role}
+          onChange={e => setForm({ ...form, role: e.target.value as Role })}
+          className={`${inputClass} cursor-pointer`}
+        >
+          {ROLES.map(role => <option key={role} value={role}>{t(`role.${role}`)}</option>)}
+        </select>
+        <button
+          type="submit"
+          className="bg-blue-600 hover:bg-blue-500 text-white px-4 py-2 rounded font-medium flex items-center gap-2 transition-colors whitespace-nowrap"
+        >
+          <Plus className="w-4 h-4" />
+          {t('team.add')}
+        </button>
+      </form>
+      <p className="text-xs text-slate-500">
+        {t('team.hint')}
+      </p>
+
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden shadow-xl">
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500">
+              <th className="p-3">{t('auth.email')}</th>
+              <th className="p-3">{t('team.columnRole')}</th>
+              <th className="p-3">{t('team.columnUpdatedBy')}</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {members.length === 0 && (
+              <tr>
+                <td colSpan={4} className="p-6 text-center text-slate-500">{loading ? t('common.loading') : t('team.empty')}</td>
+              </tr>
+            )}
+            {members.map(member => (
+              <tr key={member.email}>
+                <td className="p-3 text-white">
+                  {member.email}
+                  {isSelf(member) && <span className="ml-2 text-xs text-slate-500">{t('team.you')}</span>}
+                </td>
+                <td className="p-3">
+                  <select
+                    value={member.role}
+                    onChange={e => handleRoleChange(member, e.target.value as Role)}
+                    disabled={isSelf(member)}
+                    title={isSelf(member) ? t('team.cannotChangeOwnRole') : t(`roleDescription.${member.role as Role}`)}
+                    className={`${inputClass} py-1 cursor-pointer disabled:opacity-60 disabled:cursor-not-allowed`}
+                  >
+                    {ROLES.map(role => <option key={role} value={role}>{t(`role.${role}`)}</option>)}
+                  </select>
+                </td>
+                <td className="p-3 text-xs text-slate-400">{member.updated_by || '—'}</td>
+                <td className="p-3 text-right">
+                  <button
+                    onClick={() => handleRemove(member)}
+                    disabled={isSelf(member)}
+                    className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors disabled:opacity-30 disabled:cursor-not-allowed"
+                    title={t('team.remove')}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <ul className="text-xs text-slate-500 space-y-1">
+        {ROLES.map(role => (
+          <li key={role}><span className="text-slate-300">{t(`role.${role}`)}:</span> {t(`roleDescription.${role}`)}</li>
+        ))}
+      </ul>
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshCw, RotateCcw, Trash2 } from 'lucide-react';
+import { License } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import { BulkResult, bulkPurge, bulkRestore } from '../services/licenseBulk';
+import { useI18n } from './I18nProvider';
+import { DEFAULT_TRASH_RETENTION_DAYS, fetchTrash, fetchTrashRetentionDays, purgeDate, saveTrashRetentionDays } from '../services/trash';
+
+export const TrashView = ({ onChanged }: { onChanged: () => void }) => {
+  const { t, formatDate, formatDateTime, describeError } = useI18n();
+  const [licenses, setLicenses] = useState<License[]>([]);
+  const [retentionDays, setRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [savedRetentionDays, setSavedRetentionDays] = useState(DEFAULT_TRASH_RETENTION_DAYS);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    setLoading(true);
+    try {
+      const [trash, days] = await Promise.all([fetchTrash(client), fetchTrashRetentionDays(client)]);
+      setLicenses(trash);
+      setRetentionDays(days);
+      setSavedRetentionDays(days);
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  // Saved when the field loses focus, so typing "14" never stores 1 day on the way.
+  const handleRetentionSave = async () => {
+    const client = getSupabaseClient();
+    if (!client || retentionDays === savedRetentionDays) return;
+    try {
+      await saveTrashRetentionDays(client, retentionDays);
+      setSavedRetentionDays(retentionDays);
+      setError(null);
+    } catch (err: any) {
+      setRetentionDays(savedRetentionDays);
+      setError(describeError(err));
+    }
+  };
+
+  const runAction = async (confirmMessage: string, action: () => Promise<BulkResult>) => {
+    if (!confirm(confirmMessage)) return;
+    setLoading(true);
+    try {
+      const result = await action();
+      if (result.failed.length > 0) {
+        alert(t('bulk.partialFailure', {
+          succeeded: result.succeeded.length,
+          requested: result.requested,
+          details: result.failed.map(f => `${f.license_key}: ${describeError(f.error)}`).join('\n'),
+        }));
+      }
+      onChanged();
+    } catch (err: any) {
+      alert(describeError(err));
+    } finally {
+      await load();
+    }
+  };
+
+  const formatPurgeDate = (license: License) => {
+    const date = purgeDate(license, retentionDays);
+    return date ? formatDate(date) : '—';
+  };
+
+  const handleRestore = (items: License[]) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    runAction(t('trash.confirmRestore', { count: items.length }), () => bulkRestore(client, items));
+  };
+
+  const handlePurge = (items: License[]) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    runAction(t('trash.confirmPurge', { count: items.length }), () => bulkPurge(client, items));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row justify-between gap-4">
+        <div className="flex items-center gap-2 text-sm text-slate-400">
+          <span>{t('trash.retentionBefore')}</span>
+          <input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={e => setRetentionDays(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+            onBlur={handleRetentionSave}
+            className="w-20 bg-slate-900 border border-slate-800 rounded px-2 py-1 text-white focus:border-blue-500 outline-none"
+          />
+          <span>{t('trash.retentionAfter')}</span>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={load}
+            className="p-2 text-slate-400 hover:text-white hover:bg-slate-800 rounded transition-colors"
+            title={t('licenses.refresh')}
+          >
+            <RefreshCw className={`w-5 h-5 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+          <button
+            onClick={() => handlePurge(licenses)}
+            disabled={licenses.length === 0 || loading}
+            className="bg-red-600/80 hover:bg-red-500 text-white px-4 py-2 rounded font-medium flex items-center gap-2 transition-colors disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+          >
+            <Trash2 className="w-4 h-4" />
+            {t('trash.empty')}
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden shadow-xl">
+        <div className="overflow-x-auto">
+          <table className="w-full text-left border-collapse">
+            <thead>
+              <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500 font-semibold">
+                <th className="p-4">{t('licenses.columnKey')}</th>
+                <th className="p-4">{t('licenses.columnExpiresAt')}</th>
+                <th className="p-4">{t('trash.columnDeletedAt')}</th>
+                <th className="p-4">{t('trash.columnDeletedBy')}</th>
+                <th className="p-4">{t('trash.columnPurgeAt')}</th>
+                <th className="p-4 text-right">{t('licenses.columnActions')}</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-800">
+              {licenses.length === 0 ? (
+                <tr>
+                  <td colSpan={6} className="p-8 text-center text-slate-500">
+                    {loading ? t('common.loading') : t('trash.isEmpty')}
+                  </td>
+                </tr>
+              ) : licenses.map(license => (
+                <tr key={license.license_key} className="hover:bg-slate-800/50 transition-colors">
+                  <td className="p-4 font-mono text-sm text-white">{license.license_key}</td>
+                  <td className="p-4 text-sm text-slate-300">
+                    {license.expires_at ? formatDate(license.expires_at) : t('licenses.pendingDuration', { count: license.duration_days ?? 0 })}
+                  </td>
+                  <td className="p-4 text-sm text-slate-300">{license.deleted_at ? formatDateTime(license.deleted_at) : '—'}</td>
+                  <td className="p-4 text-sm text-slate-400">{license.deleted_by || '—'}</td>
+                  <td className="p-4 text-sm text-slate-400">{formatPurgeDate(license)}</td>
+                  <td className="p-4 text-right">
+                    <div className="flex items-center justify-end gap-2">
+                      <button
+                        onClick={() => handleRestore([license])}
+                        className="p-1.5 text-slate-400 hover:text-green-400 hover:bg-green-400/10 rounded transition-colors"
+                        title={t('trash.restore')}
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handlePurge([license])}
+                        className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                        title={t('trash.purge')}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { unlockVault } from '../services/connectionProfiles';
+import { useI18n } from './I18nProvider';
+
+export const VaultUnlockForm = ({ onUnlocked, onForget }: { onUnlocked: () => void, onForget: () => void }) => {
+  const { t, describeError } = useI18n();
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase('');
+      onUnlocked();
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 p-6 rounded-lg max-w-xl">
+      <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+        <Lock className="w-5 h-5 text-blue-400" />
+        {t('vault.unlockTitle')}
+      </h3>
+      <p className="text-sm text-slate-400 mb-4">
+        {t('vault.unlockHint')}
+      </p>
+      <form onSubmit={handleSubmit} className="space-y-3">
+        <input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={e => setPassphrase(e.target.value)}
+          className="w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none"
+          required
+        />
+        {error && <p className="text-xs text-red-400">{error}</p>}
+        <button
+          type="submit"
+          disabled={busy}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-60 disabled:cursor-not-allowed text-white font-medium py-2 rounded transition-colors"
+        >
+          {busy ? t('vault.decrypting') : t('vault.unlock')}
+        </button>
+      </form>
+      <button
+        onClick={onForget}
+        className="mt-4 text-xs text-slate-500 hover:text-red-400 transition-colors"
+      >
+        {t('vault.forget')}
+      </button>
+    </div>
+  );
+};
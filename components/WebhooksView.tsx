@@ -0,0 +1,362 @@
+import React, { useEffect, useState } from 'react';
+import { Pencil, Plus, RefreshCw, RotateCw, Trash2 } from 'lucide-react';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEvent } from '../types';
+import { getSupabaseClient } from '../services/supabase';
+import {
+  WebhookDeliveryFilters,
+  WebhookEndpointInput,
+  deleteWebhookEndpoint,
+  fetchWebhookDeliveries,
+  fetchWebhookEndpoints,
+  generateWebhookSecret,
+  redeliverWebhook,
+  saveWebhookEndpoint,
+} from '../services/webhookSettings';
+import { MAX_DELIVERY_ATTEMPTS, SIGNATURE_HEADER, WEBHOOK_EVENTS } from '../services/webhooks';
+import { Badge } from './ui';
+import { useI18n } from './I18nProvider';
+
+const inputClass = 'w-full bg-slate-800 border border-slate-700 rounded p-2 text-white text-sm focus:border-blue-500 outline-none';
+const sectionClass = 'bg-slate-900 border border-slate-800 rounded-lg p-4 space-y-3';
+
+const STATUS_COLORS: Record<WebhookDeliveryStatus, 'yellow' | 'green' | 'red'> = {
+  pending: 'yellow',
+  delivered: 'green',
+  failed: 'red',
+};
+
+const newEndpoint = (): WebhookEndpointInput => ({
+  name: '',
+  url: '',
+  secret: generateWebhookSecret(),
+  events: [...WEBHOOK_EVENTS],
+  enabled: true,
+});
+
+export const WebhooksView = () => {
+  const { t, formatDateTime, describeError } = useI18n();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [editing, setEditing] = useState<WebhookEndpointInput | null>(null);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [filters, setFilters] = useState<WebhookDeliveryFilters>({});
+  const [loaded, setLoaded] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadEndpoints = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    try {
+      setEndpoints(await fetchWebhookEndpoints(client));
+      setError(null);
+    } catch (err: any) {
+      setError(describeError(err));
+    } finally {
+      setLoaded(true);
+    }
+  };
+
+  const loadDeliveries = async () => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    try {
+      setDeliveries(await fetchWebhookDeliveries(client, filters));
+    } catch (err: any) {
+      setError(describeError(err));
+    }
+  };
+
+  useEffect(() => {
+    loadEndpoints();
+  }, []);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [filters]);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      return true;
+    } catch (err: any) {
+      setError(describeError(err));
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const client = getSupabaseClient();
+    if (!client || !editing) return;
+    const saved = await run(async () => {
+      await saveWebhookEndpoint(client, editing);
+      setEndpoints(await fetchWebhookEndpoints(client));
+    });
+    if (saved) setEditing(null);
+  };
+
+  const handleToggle = (endpoint: WebhookEndpoint) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    run(async () => {
+      await saveWebhookEndpoint(client, { ...endpoint, enabled: !endpoint.enabled });
+      setEndpoints(await fetchWebhookEndpoints(client));
+    });
+  };
+
+  const handleDelete = (endpoint: WebhookEndpoint) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    if (!confirm(t('webhooks.confirmDelete', { name: endpoint.name }))) return;
+    run(async () => {
+      await deleteWebhookEndpoint(client, endpoint.id);
+      setEndpoints(await fetchWebhookEndpoints(client));
+      await loadDeliveries();
+    });
+  };
+
+  const handleRedeliver = (delivery: WebhookDelivery) => {
+    const client = getSupabaseClient();
+    if (!client) return;
+    run(async () => {
+      await redeliverWebhook(client, delivery.id);
+      await loadDeliveries();
+    });
+  };
+
+  const toggleEvent = (event: WebhookEvent) => {
+    if (!editing) return;
+    const events = editing.events.includes(event)
+      ? editing.events.filter(e => e !== event)
+      : WEBHOOK_EVENTS.filter(e => e === event || editing.events.includes(e));
+    setEditing({ ...editing, events });
+  };
+
+  const endpointName = (id: string) => endpoints.find(e => e.id === id)?.name ?? t('webhooks.deletedEndpoint');
+
+  if (!loaded) return <p className="text-sm text-slate-500">{t('common.loading')}</p>;
+
+  return (
+    <div className="space-y-6">
+      {error && <p className="text-sm text-red-400">{t('common.error', { message: error })}</p>}
+
+      <div className={sectionClass}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-medium text-white">{t('webhooks.columnEndpoint')}</h3>
+          {!editing && (
+            <button
+              onClick={() => setEditing(newEndpoint())}
+              className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1 transition-colors"
+            >
+              <Plus className="w-3 h-3" />
+              {t('webhooks.add')}
+            </button>
+          )}
+        </div>
+
+        {endpoints.length === 0 && !editing && <p className="text-sm text-slate-500">{t('webhooks.empty')}</p>}
+        <ul className="divide-y divide-slate-800">
+          {endpoints.map(endpoint => (
+            <li key={endpoint.id} className="flex items-center gap-3 py-2">
+              <input
+                type="checkbox"
+                checked={endpoint.enabled}
+                onChange={() => handleToggle(endpoint)}
+                title={endpoint.enabled ? t('common.enabled') : t('common.disabled')}
+                className="cursor-pointer"
+              />
+              <div className="flex-1 min-w-0">
+                <p className={`text-sm ${endpoint.enabled ? 'text-white' : 'text-slate-500'}`}>{endpoint.name}</p>
+                <p className="text-xs text-slate-500 font-mono truncate">{endpoint.url}</p>
+                <p className="text-[10px] text-slate-500">{endpoint.events.map((e: WebhookEvent) => t(`webhookEvent.${e}`)).join(', ')}</p>
+              </div>
+              <button
+                onClick={() => setEditing({ ...endpoint })}
+                className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors"
+                title={t('common.edit')}
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(endpoint)}
+                className="p-1.5 text-slate-400 hover:text-red-400 hover:bg-red-400/10 rounded transition-colors"
+                title={t('common.delete')}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {editing && (
+          <form onSubmit={handleSave} className="space-y-3 border border-slate-800 rounded p-3">
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                type="text"
+                className={inputClass}
+                placeholder={t('webhooks.namePlaceholder')}
+                value={editing.name}
+                onChange={e => setEditing({ ...editing, name: e.target.value })}
+                required
+              />
+              <input
+                type="url"
+                className={`${inputClass} font-mono`}
+                placeholder="https://example.com/hooks/license"
+                value={editing.url}
+                onChange={e => setEditing({ ...editing, url: e.target.value })}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('webhooks.events')}</label>
+              <div className="flex flex-wrap gap-x-4 gap-y-1">
+                {WEBHOOK_EVENTS.map(event => (
+                  <label key={event} className="flex items-center gap-1.5 text-sm text-slate-300 cursor-pointer">
+                    <input type="checkbox" checked={editing.events.includes(event)} onChange={() => toggleEvent(event)} />
+                    {t(`webhookEvent.${event}`)}
+                    <span className="text-[10px] text-slate-500 font-mono">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div>
+              <label className="block text-xs font-medium text-slate-400 mb-1">{t('webhooks.secret')}</label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  readOnly
+                  className={`${inputClass} font-mono`}
+                  value={editing.secret}
+                  onFocus={e => e.target.select()}
+                />
+                <button
+                  type="button"
+                  onClick={() => navigator.clipboard.writeText(editing.secret)}
+                  className="px-3 py-2 bg-slate-700 hover:bg-slate-600 text-white text-sm rounded transition-colors whitespace-nowrap"
+                >
+                  {t('common.copy')}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setEditing({ ...editing, secret: generateWebhookSecret() })}
+                  className="p-2 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+                  title={t('webhooks.regenerateSecret')}
+                >
+                  <RefreshCw className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-[10px] text-slate-500 mt-1">
+                {t('webhooks.secretHintBefore')} <code className="bg-black/30 px-1 rounded">{SIGNATURE_HEADER}</code>{t('webhooks.secretHintAfter')}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <button type="submit" disabled={busy} className="px-4 py-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white text-sm rounded transition-colors">
+                {t('webhooks.save')}
+              </button>
+              <button type="button" onClick={() => setEditing(null)} className="px-4 py-2 text-slate-400 hover:text-white text-sm transition-colors">
+                {t('common.cancel')}
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="bg-slate-900 border border-slate-800 rounded-lg overflow-hidden">
+        <div className="flex flex-wrap items-center gap-2 p-4 pb-2">
+          <h3 className="text-sm font-medium text-white flex-1">{t('webhooks.deliveries')}</h3>
+          <select
+            className="bg-slate-800 border border-slate-700 rounded p-1.5 text-white text-xs cursor-pointer"
+            value={filters.endpointId ?? ''}
+            onChange={e => setFilters({ ...filters, endpointId: e.target.value || undefined })}
+          >
+            <option value="">{t('webhooks.allEndpoints')}</option>
+            {endpoints.map(endpoint => <option key={endpoint.id} value={endpoint.id}>{endpoint.name}</option>)}
+          </select>
+          <select
+            className="bg-slate-800 border border-slate-700 rounded p-1.5 text-white text-xs cursor-pointer"
+            value={filters.event ?? ''}
+            onChange={e => setFilters({ ...filters, event: e.target.value as WebhookEvent | '' })}
+          >
+            <option value="">{t('webhooks.allEvents')}</option>
+            {WEBHOOK_EVENTS.map(event => <option key={event} value={event}>{t(`webhookEvent.${event}`)}</option>)}
+          </select>
+          <select
+            className="bg-slate-800 border border-slate-700 rounded p-1.5 text-white text-xs cursor-pointer"
+            value={filters.status ?? ''}
+            onChange={e => setFilters({ ...filters, status: e.target.value as WebhookDeliveryStatus | '' })}
+          >
+            <option value="">{t('webhooks.allStatuses')}</option>
+            {(Object.keys(STATUS_COLORS) as WebhookDeliveryStatus[]).map(status => <option key={status} value={status}>{t(`webhookStatus.${status}`)}</option>)}
+          </select>
+          <button
+            onClick={loadDeliveries}
+            className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-700 rounded transition-colors"
+            title={t('common.reload')}
+          >
+            <RefreshCw className="w-4 h-4" />
+          </button>
+        </div>
+        <table className="w-full text-left text-sm">
+          <thead>
+            <tr className="bg-slate-950/50 border-b border-slate-800 text-xs uppercase text-slate-500">
+              <th className="p-3">{t('webhooks.columnEvent')}</th>
+              <th className="p-3">{t('licenses.columnKey')}</th>
+              <th className="p-3">{t('webhooks.columnEndpoint')}</th>
+              <th className="p-3">{t('licenses.columnStatus')}</th>
+              <th className="p-3">{t('audit.columnTime')}</th>
+              <th className="p-3"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-800">
+            {deliveries.length === 0 && (
+              <tr>
+                <td colSpan={6} className="p-6 text-center text-slate-500">{t('webhooks.deliveriesEmpty')}</td>
+              </tr>
+            )}
+            {deliveries.map(delivery => (
+              <tr key={delivery.id} className="align-top">
+                <td className="p-3 text-slate-300">
+                  <details>
+                    <summary className="cursor-pointer">{t(`webhookEvent.${delivery.event as WebhookEvent}`)}</summary>
+                    <pre className="text-[10px] text-slate-400 whitespace-pre-wrap mt-1 max-w-md overflow-x-auto">{JSON.stringify(delivery.payload, null, 2)}</pre>
+                  </details>
+                </td>
+                <td className="p-3 font-mono text-white">{delivery.license_key}</td>
+                <td className="p-3 text-slate-300">{endpointName(delivery.endpoint_id)}</td>
+                <td className="p-3" title={delivery.last_error ?? undefined}>
+                  <Badge color={STATUS_COLORS[delivery.status]}>{t(`webhookStatus.${delivery.status as WebhookDeliveryStatus}`)}</Badge>
+                  {delivery.attempts > 0 && (
+                    <p className="text-[10px] text-slate-500 mt-1">
+                      {t('webhooks.attempts', { attempts: delivery.attempts, max: MAX_DELIVERY_ATTEMPTS })}{delivery.response_status ? ` · HTTP ${delivery.response_status}` : ''}
+                    </p>
+                  )}
+                  {delivery.status === 'pending' && delivery.attempts > 0 && (
+                    <p className="text-[10px] text-slate-500">{t('webhooks.retryAt', { time: formatDateTime(delivery.next_attempt_at) })}</p>
+                  )}
+                </td>
+                <td className="p-3 text-xs text-slate-400">{formatDateTime(delivery.created_at)}</td>
+                <td className="p-3 text-right">
+                  {delivery.status !== 'pending' && (
+                    <button
+                      onClick={() => handleRedeliver(delivery)}
+                      disabled={busy}
+                      className="p-1.5 text-slate-400 hover:text-blue-400 hover:bg-blue-400/10 rounded transition-colors disabled:opacity-50"
+                      title={t('webhooks.redeliver')}
+                    >
+                      <RotateCw className="w-4 h-4" />
+                    </button>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
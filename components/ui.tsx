@@ -0,0 +1,40 @@
+import React from 'react';
+
+export const Badge = ({ children, color }: { children?: React.ReactNode, color: 'green' | 'red' | 'yellow' | 'blue' }) => {
+  const colors = {
+    green: 'bg-green-500/10 text-green-400 border-green-500/20',
+    red: 'bg-red-500/10 text-red-400 border-red-500/20',
+    yellow: 'bg-yellow-500/10 text-yellow-400 border-yellow-500/20',
+    blue: 'bg-blue-500/10 text-blue-400 border-blue-500/20',
+  };
+  return (
+    <span className={`px-2 py-0.5 rounded text-xs font-medium border ${colors[color]} whitespace-nowrap`}>
+      {children}
+    </span>
+  );
+};
+
+const MODAL_WIDTHS = {
+  md: 'max-w-md',
+  lg: 'max-w-2xl',
+  xl: 'max-w-4xl',
+};
+
+export const Modal = ({ isOpen, onClose, title, size = 'md', children }: { isOpen: boolean, onClose: () => void, title: string, size?: keyof typeof MODAL_WIDTHS, children?: React.ReactNode }) => {
+  if (!isOpen) return null;
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm p-4">
+      <div className={`bg-slate-900 border border-slate-700 rounded-lg shadow-xl w-full ${MODAL_WIDTHS[size]} overflow-hidden animate-fade-in`}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-700 bg-slate-800/50">
+          <h3 className="font-semibold text-white">{title}</h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white transition-colors">
+            <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" /></svg>
+          </button>
+        </div>
+        <div className="p-4 max-h-[80vh] overflow-y-auto">
+          {children}
+        </div>
+      </div>
+    </div>
+  );
+};
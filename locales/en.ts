@@ -0,0 +1,555 @@
+import type { Messages } from '../services/i18n';
+
+export const en: Messages = {
+  // Shared
+  'common.loading': 'Loading...',
+  'common.processing': 'Working...',
+  'common.error': 'Error: {message}',
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.close': 'Close',
+  'common.reload': 'Reload',
+  'common.copy': 'Copy',
+  'common.copied': 'Copied',
+  'common.enabled': 'Enabled',
+  'common.disabled': 'Disabled',
+  'common.days': { one: '{count} day', other: '{count} days' },
+  'common.language': 'Language',
+  'time.justNow': 'Just now',
+
+  // Errors from Supabase, by code
+  'error.invalidCredentials': 'Incorrect email or password.',
+  'error.emailNotConfirmed': 'This email has not been confirmed yet. Open the link in the confirmation email.',
+  'error.userBanned': 'This account has been suspended.',
+  'error.rateLimited': 'Too many requests. Please try again in a few minutes.',
+  'error.sessionExpired': 'Your session has expired. Please sign in again.',
+  'error.permissionDenied': 'You do not have permission to do this.',
+  'error.duplicate': 'This record already exists.',
+  'error.missingTable': 'The database is missing a required table; run the migrations in supabase/migrations.',
+  'error.network': 'Could not reach the server. Check your network or the Supabase URL.',
+  'validation.productNameRequired': 'Product name is required',
+  'validation.planNameRequired': 'Plan name is required',
+  'validation.planDuration': 'Plan duration must be a positive number of days',
+  'validation.planSeats': 'Plan seat count must be a positive whole number',
+  'validation.vaultLocked': 'Saved connections are locked',
+  'validation.vaultExists': 'Saved connections are already encrypted',
+  'validation.profileNameRequired': 'Profile name is required',
+  'validation.profileCredentialsRequired': 'Supabase URL and anon key are required',
+  'validation.supabaseUrlRequired': 'Supabase URL is required',
+  'validation.anonKeyRequired': 'Supabase anon key is required',
+  'validation.supabaseUrlInvalid': 'The Supabase URL must be a valid http(s) URL',
+  'validation.passphraseRequired': 'Passphrase is required',
+  'validation.wrongPassphrase': 'Wrong passphrase or corrupted data',
+  'validation.templateNotVariable': 'Template needs a {RAND}, {NUM} or {SEQ} token to generate more than one key',
+  'validation.templateTooFewKeys': 'Template only produced {unique} unique keys out of {count}',
+  'validation.alphabetLength': 'Alphabet must contain between 2 and 256 characters',
+  'validation.activationNotFound': 'Activation not found or not permitted',
+  'validation.seatLimit': 'Seat limit must be a positive whole number',
+  'validation.licenseKeyRequired': 'License key is required',
+  'validation.licenseKeyExists': 'License key {key} already exists',
+  'validation.importJsonShape': 'JSON must be an array of licenses',
+  'validation.invalidCustomerEmail': 'Invalid customer email: {email}',
+  'validation.licenseNotAffected': 'License not found or not permitted',
+  'validation.licenseNotFound': 'License not found',
+  'validation.privateKeyFormat': 'Private key must be an Ed25519 key in PKCS#8 PEM or base64 form',
+  'validation.publicKeyFormat': 'Public key must be an Ed25519 key in raw base64 or SPKI PEM form',
+  'validation.keyNoPublic': 'Key has no public component',
+  'validation.hwidRequired': 'HWID is required',
+  'validation.notActivated': 'License has not been activated yet',
+  'validation.thresholdRequired': 'At least one threshold is required',
+  'validation.thresholdFormat': 'Thresholds must be whole numbers of days, 0 or more',
+  'validation.templatesRequired': 'Subject and body templates are required',
+  'validation.channelNameRequired': 'Channel name is required',
+  'validation.invalidEmail': 'Invalid email: {email}',
+  'validation.webhookUrl': 'Webhook URL must be an http(s) URL',
+  'validation.botUrl': 'Bot endpoint must be an http(s) URL',
+  'validation.chatIdRequired': 'Chat or user id is required',
+  'validation.retentionDays': 'Retention must be a positive whole number of days',
+  'validation.endpointNameRequired': 'Endpoint name is required',
+  'validation.invalidUrl': 'Invalid URL: {url}',
+  'validation.noEvents': 'Choose at least one event',
+  'validation.unknownEvent': 'Unknown event: {event}',
+  'validation.secretLength': 'Signing secret must be at least 16 characters',
+  'validation.templateEmpty': 'Template is empty',
+  'validation.templateUnknownToken': 'Unknown token {token}',
+  'validation.templateBraces': 'Unbalanced braces in template',
+  'validation.importMissingKey': 'Missing license_key',
+  'validation.importInvalidExpiry': 'Invalid expires_at: {value}',
+  'validation.importDuplicateKey': 'Duplicate key in file',
+
+  // Header and navigation
+  'app.title': 'License Manager Pro',
+  'header.demoData': 'Demo data',
+  'header.connected': 'Connected',
+  'header.offline': 'Offline',
+  'header.demoMode': 'Demo mode',
+  'header.demoModeTitle': 'Data is only stored in this browser',
+  'header.exitDemo': 'Exit',
+  'header.signOut': 'Sign out',
+  'realtime.connecting': 'Connecting',
+  'realtime.connectingTitle': 'Connecting to live updates...',
+  'realtime.live': 'Live',
+  'realtime.liveTitle': 'Changes appear automatically',
+  'realtime.offline': 'Out of sync',
+  'realtime.offlineTitle': 'Live updates disconnected; refresh the data',
+  'tab.licenses': 'Licenses',
+  'tab.analytics': 'Analytics',
+  'tab.catalog': 'Products',
+  'tab.reminders': 'Reminders',
+  'tab.webhooks': 'Webhooks',
+  'tab.audit': 'Audit log',
+  'tab.trash': 'Trash',
+  'tab.team': 'Team',
+
+  // Connecting and signing in
+  'connect.failed': 'Could not connect to "{name}"',
+  'connect.urlFailed': 'Could not connect with the credentials from the URL',
+  'connect.confirmForgetDevice': 'Remove every saved Supabase connection and sign-in session from this browser?',
+  'connect.notConnected': 'No database connected',
+  'connect.intro': 'Configure your Supabase credentials in one of these ways:',
+  'connect.method1': 'Option 1 (recommended):',
+  'connect.method1Before': 'Create a',
+  'connect.method1After': 'file in the project root containing:',
+  'connect.method2': 'Option 2:',
+  'connect.method2Link': 'Enter the URL and anon key in the app',
+  'connect.method2Note': '(optionally encrypted with a passphrase)',
+  'connect.method3': 'Option 3:',
+  'connect.method3Before': 'Add URL parameters:',
+  'connect.method3After': '(removed from the address bar once read)',
+  'connect.tryDemo': 'No Supabase yet? Try it with demo data',
+  'auth.title': 'Admin sign-in',
+  'auth.intro': 'Only people added to the team can access the dashboard.',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.signIn': 'Sign in',
+  'auth.notAuthorized': 'The account {email} has not been granted access. Ask an administrator to add you to the team.',
+  'auth.waitingConnection': 'Waiting for a connection...',
+  'auth.signInToContinue': 'Please sign in to continue.',
+  'auth.checkingAccess': 'Checking access...',
+  'auth.noAccess': 'You do not have access to this content.',
+  'role.viewer': 'Viewer',
+  'role.support': 'Support',
+  'role.admin': 'Admin',
+
+  // License list
+  'stats.total': 'Total licenses',
+  'stats.active': 'Active users',
+  'stats.available': 'Available',
+  'stats.expired': 'Expired',
+  'licenseStatus.pending': 'Not activated',
+  'licenseStatus.available': 'Available',
+  'licenseStatus.active': 'Active',
+  'licenseStatus.expiring': 'Expiring soon',
+  'licenseStatus.expired': 'Expired',
+  'product.none': 'No product',
+  'filter.searchPlaceholder': 'Search key, HWID, customer, order, tag...',
+  'filter.allStatuses': 'All statuses',
+  'filter.pending': 'Not activated (duration)',
+  'filter.active': 'Active only',
+  'filter.expiring': 'Expiring soon (7 days)',
+  'filter.expired': 'Expired',
+  'filter.dormant': 'Dormant',
+  'filter.dormantTitle': 'Days without a check-in from any machine',
+  'filter.dormantDays': { one: '≥ {count} day', other: '≥ {count} days' },
+  'filter.allProducts': 'All products',
+  'licenses.refresh': 'Refresh data',
+  'licenses.import': 'Import from CSV/JSON',
+  'licenses.checkOfflineToken': 'Check an offline token',
+  'licenses.export': 'Export',
+  'licenses.exportRows': { one: '({count} row)', other: '({count} rows)' },
+  'licenses.new': 'New license',
+  'licenses.selected': { one: '{count} license selected.', other: '{count} licenses selected.' },
+  'licenses.selectAllMatching': { one: 'Select the {count} license matching the filter', other: 'Select all {count} licenses matching the filter' },
+  'licenses.selectPage': 'Select all on this page',
+  'licenses.columnKey': 'License key',
+  'licenses.columnStatus': 'Status',
+  'licenses.columnHwid': 'Hardware ID (HWID)',
+  'licenses.columnExpiresAt': 'Expires',
+  'licenses.columnLastSeen': 'Last seen',
+  'licenses.columnActions': 'Actions',
+  'licenses.noMatches': 'No matching licenses.',
+  'licenses.empty': 'No licenses yet.',
+  'licenses.seats': '{used}/{limit} machines',
+  'licenses.awaitingActivation': 'Not activated',
+  'licenses.awaitingSeats': '(0/{limit} machines)',
+  'licenses.neverSeen': 'Never',
+  'licenses.pendingDuration': { one: 'not activated – {count} day', other: 'not activated – {count} days' },
+  'licenses.editOrExtend': 'Edit / Extend',
+  'licenses.extend': 'Extend',
+  'licenses.timeline': 'Change history',
+  'licenses.machines': 'Manage activated machines',
+  'licenses.issueOffline': 'Issue offline token',
+  'licenses.moveToTrash': 'Move to trash',
+  'licenses.confirmTrash': 'Move this license to the trash? You can restore it from the Trash tab.',
+  'licenses.createFailed': 'Could not create the license: {message}',
+  'licenses.keyExists': 'Key already exists',
+  'pagination.show': 'Show',
+  'pagination.perPage': '{size}/page',
+  'pagination.results': { one: '• {count} result', other: '• {count} results' },
+  'pagination.previous': 'Previous',
+  'pagination.next': 'Next',
+  'pagination.page': 'Page {page}/{total}',
+
+  // Bulk actions
+  'bulk.confirmResetHwid': { one: 'Reset the HWID of {count} license? Its user will be able to bind a new machine.', other: 'Reset the HWID of {count} licenses? Their users will be able to bind new machines.' },
+  'bulk.confirmExtend': { one: 'Extend {count} license?', other: 'Extend {count} licenses?' },
+  'bulk.confirmDelete': { one: 'Move {count} license to the trash?', other: 'Move {count} licenses to the trash?' },
+  'bulk.partialFailure': '{succeeded}/{requested} succeeded. Failed:\n{details}',
+  'bulk.moreFailures': { one: '... and {count} more license', other: '... and {count} more licenses' },
+
+  // Creating a license
+  'create.title': 'New license',
+  'create.single': 'Single key',
+  'create.batch': 'Batch',
+  'create.random': 'RANDOM',
+  'create.friendly': 'FRIENDLY',
+  'create.checksumMismatch': 'The check digits do not match — the key may have been mistyped.',
+  'create.formatMismatch': 'The key does not follow the configured format.',
+  'create.expiryDate': 'Expiry date',
+  'create.expiryTime': 'Time',
+  'create.maxActivations': 'Max machines',
+  'create.expiryMode': 'Validity:',
+  'create.fixedDate': 'Fixed date',
+  'create.fromActivation': 'From first activation',
+  'create.durationDays': 'Days of use',
+  'create.trial': '{count}-day trial',
+  'create.durationHint': 'The expiry is set when the key is bound to its first machine, so keys sold in advance lose no time.',
+  'create.submit': 'Create license',
+  'import.title': 'Import licenses',
+
+  // Durations and relative amounts
+  'duration.plusDays': { one: '+{count} day', other: '+{count} days' },
+  'duration.plusMonths': { one: '+{count} month', other: '+{count} months' },
+  'duration.plusYears': { one: '+{count} year', other: '+{count} years' },
+  'duration.months': { one: '{count} month', other: '{count} months' },
+
+  // License details
+  'metadata.customerName': 'Customer',
+  'metadata.customerNamePlaceholder': 'Customer or company name',
+  'metadata.customerEmail': 'Customer email',
+  'metadata.orderId': 'Order ID',
+  'metadata.orderIdLabel': 'Order / invoice ID',
+  'metadata.tags': 'Tags',
+  'metadata.tagsPlaceholder': 'vip, reseller, ...',
+  'metadata.notes': 'Notes',
+  'export.seats': 'Machines',
+  'export.hwid': 'HWID',
+  'export.email': 'Email',
+  'licenseEvent.activate': 'Activated',
+  'licenseEvent.check': 'Check-in',
+  'licenseEvent.deactivate': 'Deactivated',
+
+  // Activity, bulk actions and plans
+  'events.title': 'Client activity: {key}',
+  'events.empty': 'No machine has reported in yet.',
+  'bulk.selected': { one: '{count} license selected', other: '{count} licenses selected' },
+  'bulk.resetHwid': 'Reset HWID',
+  'bulk.clearSelection': 'Clear selection',
+  'extend.fromCurrent': 'from current expiry',
+  'extend.fromToday': 'from today',
+  'plan.picker': 'Product / Plan',
+  'plan.none': '— No product —',
+  'plan.option': { one: '{product} – {plan} ({days}, {machines} machine)', other: '{product} – {plan} ({days}, {machines} machines)' },
+  'connection.choose': 'Choose a connection',
+  'connection.none': 'Not connected',
+  'connection.manage': 'Manage connections...',
+
+  // Analytics
+  'analytics.refresh': 'Refresh',
+  'analytics.days': { one: '{count} day', other: '{count} days' },
+  'analytics.activationRate': 'Activation rate',
+  'analytics.activationRateHint': '{activated}/{created} keys created in range',
+  'analytics.timeToActivation': 'Time to activation',
+  'analytics.timeToActivationHint': 'Median · average {average}',
+  'analytics.renewalRate': 'Renewal rate',
+  'analytics.renewalRateHint': '{renewed}/{due} keys due in range',
+  'analytics.expiringSoon': 'Expiring in {count} days',
+  'analytics.expiringSoonHint': 'Upcoming renewal opportunities',
+  'analytics.forecastTitle': 'Licenses expiring per week (next {count} days)',
+  'analytics.expiring': 'Expiring',
+  'analytics.monthlyTitle': 'Created and activated per month',
+  'analytics.created': 'Created',
+  'analytics.firstActivation': 'First activation',
+  'analytics.forecastNote': 'The expiry forecast always starts today ({date}); the range above applies to the other metrics.',
+  'analytics.missingCreatedAt': { one: '{count} key has no creation date and is left out of the activation rate.', other: '{count} keys have no creation date and are left out of the activation rate.' },
+  'analytics.renewalNote': 'The renewal rate is based on expiry changes recorded from the dashboard.',
+  'analytics.max': 'Max: {value}',
+
+  // Edit license
+  'edit.title': 'Edit license',
+  'edit.renameFrom': 'The key will be renamed from',
+  'edit.extendLabel': 'Extend:',
+  'edit.fromCurrent': 'From current expiry',
+  'edit.fromToday': 'From today',
+  'edit.pendingHint': 'This key has not been activated: its validity starts on the first activation.',
+  'edit.features': 'Unlocked features',
+  'edit.featuresPlaceholder': 'Comma separated',
+  'edit.saving': 'Saving...',
+  'edit.submit': 'Save changes',
+  'edit.history': 'Expiry history',
+  'edit.historyEmpty': 'No changes yet.',
+  'historyAction.extend': 'Extended',
+  'historyAction.edit': 'Expiry edited',
+  'historyAction.rename': 'Key renamed',
+
+  // Team
+  'team.emailPlaceholder': 'Member email...',
+  'team.add': 'Add member',
+  'team.hint': 'Members sign in with the Supabase account that has the same email. You can add them before they create one.',
+  'team.columnRole': 'Role',
+  'team.columnUpdatedBy': 'Updated by',
+  'team.empty': 'No members yet.',
+  'team.you': '(you)',
+  'team.cannotChangeOwnRole': 'You cannot change your own role',
+  'team.remove': 'Remove member',
+  'team.confirmRemove': 'Remove access for {email}?',
+  'roleDescription.viewer': 'View licenses, logs and products',
+  'roleDescription.support': 'Also: extend, reset HWID, deactivate machines',
+  'roleDescription.admin': 'Full access, including creating/deleting licenses and managing the team',
+
+  // Audit log
+  'audit.actorPlaceholder': 'Actor (email)...',
+  'audit.allActions': 'All actions',
+  'audit.keyPlaceholder': 'License key...',
+  'audit.columnTime': 'Time',
+  'audit.columnActor': 'Actor',
+  'audit.columnAction': 'Action',
+  'audit.columnChanges': 'Changes',
+  'audit.empty': 'No entries.',
+  'audit.total': { one: '{count} entry', other: '{count} entries' },
+  'audit.timelineTitle': 'Timeline: {key}',
+  'audit.timelineEmpty': 'No actions recorded yet.',
+  'auditAction.create': 'Created',
+  'auditAction.import': 'Imported',
+  'auditAction.update': 'Updated',
+  'auditAction.extend': 'Extended',
+  'auditAction.rename': 'Key renamed',
+  'auditAction.reset_hwid': 'HWID reset',
+  'auditAction.deactivate': 'Machine deactivated',
+  'auditAction.issue_offline': 'Offline token issued',
+  'auditAction.delete': 'Deleted',
+  'auditAction.restore': 'Restored',
+  'auditAction.purge': 'Purged',
+
+  // Expiry reminders
+  'reminders.recipientCustomer': 'Send to the customer\'s email',
+  'reminders.recipientFixed': 'Send to a fixed address',
+  'reminders.bearerToken': 'Bearer token (optional)',
+  'reminders.settingsSaved': 'Reminder settings saved.',
+  'reminders.confirmDeleteChannel': 'Delete channel "{name}" and its send history?',
+  'reminders.deletedChannel': 'Deleted channel',
+  'reminders.expiryDay': 'Expiry day',
+  'reminders.settingsTitle': 'Thresholds and message',
+  'reminders.thresholds': 'Days before expiry (0 = expiry day)',
+  'reminders.thresholdsHint': 'Each threshold is sent once per license and channel; after a renewal reminders follow the new expiry.',
+  'reminders.subject': 'Subject',
+  'reminders.body': 'Body',
+  'reminders.locale': 'Language of dates and the default name',
+  'reminders.defaultCustomerName': 'valued customer',
+  'reminders.placeholders': 'Variables:',
+  'reminders.dryRun': 'Dry run (sends nothing)',
+  'reminders.previewTitle': { one: 'Preview: {count} message will be sent on the next run', other: 'Preview: {count} messages will be sent on the next run' },
+  'reminders.previewEmpty': 'No license has reached a threshold, or every reminder has been sent.',
+  'reminders.channels': 'Channels',
+  'reminders.noChannels': 'No channels yet; no reminders will be sent.',
+  'reminders.channelName': 'Channel name',
+  'reminders.smtpHint': 'The SMTP server is configured on the reminder worker (SMTP_* variables), not stored in the dashboard.',
+  'reminders.saveChannel': 'Save channel',
+  'reminders.logTitle': 'Recent sends',
+  'reminders.columnThreshold': 'Threshold',
+  'reminders.columnChannel': 'Channel',
+  'reminders.logEmpty': 'No reminders sent yet.',
+  'reminders.sent': 'Sent',
+  'reminders.failed': { one: 'Failed ({count} attempt)', other: 'Failed ({count} attempts)' },
+  'reminderChannel.email': 'Email (SMTP)',
+  'reminderChannel.webhook': 'Webhook',
+  'reminderChannel.bot': 'Chat bot',
+
+  // Webhooks
+  'webhooks.confirmDelete': 'Delete endpoint "{name}" and its delivery history?',
+  'webhooks.deletedEndpoint': 'Deleted endpoint',
+  'webhooks.add': 'Add endpoint',
+  'webhooks.empty': 'No endpoints yet.',
+  'webhooks.namePlaceholder': 'Name (e.g. CRM)',
+  'webhooks.events': 'Events',
+  'webhooks.secret': 'Signing secret (HMAC-SHA256)',
+  'webhooks.regenerateSecret': 'Generate a new secret',
+  'webhooks.secretHintBefore': 'Receivers check the',
+  'webhooks.secretHintAfter': ' header; a new secret applies at once, redeliveries included.',
+  'webhooks.save': 'Save endpoint',
+  'webhooks.deliveries': 'Deliveries',
+  'webhooks.allEndpoints': 'All endpoints',
+  'webhooks.allEvents': 'All events',
+  'webhooks.allStatuses': 'All statuses',
+  'webhooks.columnEvent': 'Event',
+  'webhooks.columnEndpoint': 'Endpoint',
+  'webhooks.deliveriesEmpty': 'No deliveries yet.',
+  'webhooks.attempts': '{attempts}/{max} attempts',
+  'webhooks.retryAt': 'Retry at {time}',
+  'webhooks.redeliver': 'Redeliver',
+  'webhookStatus.pending': 'Pending',
+  'webhookStatus.delivered': 'Delivered',
+  'webhookStatus.failed': 'Failed',
+  'webhookEvent.license.created': 'Key created',
+  'webhookEvent.license.activated': 'Machine activated',
+  'webhookEvent.license.reset': 'HWID reset',
+  'webhookEvent.license.extended': 'Extended',
+  'webhookEvent.license.expired': 'Expired',
+  'webhookEvent.license.deleted': 'Deleted',
+
+  // Machines and trash
+  'activations.title': 'Activated machines: {key}',
+  'activations.confirmDeactivate': 'Deactivate this machine? The seat can then be used by another one.',
+  'activations.confirmDeactivateAll': 'Deactivate every machine of this license?',
+  'activations.overLimit': { one: '{count} machine is active, over the new limit. Current machines keep working until they are deactivated.', other: '{count} machines are active, over the new limit. Current machines keep working until they are deactivated.' },
+  'activations.inUse': '{used}/{limit} machines in use',
+  'activations.deactivateAll': 'Deactivate all',
+  'activations.columnActivatedAt': 'Activated at',
+  'activations.columnLastSeen': 'Last seen',
+  'activations.empty': 'No machines activated yet.',
+  'activations.deactivate': 'Deactivate this machine',
+  'trash.confirmRestore': { one: 'Restore {count} license?', other: 'Restore {count} licenses?' },
+  'trash.confirmPurge': { one: 'This cannot be undone. Permanently delete {count} license?', other: 'This cannot be undone. Permanently delete {count} licenses?' },
+  'trash.retentionBefore': 'Permanently delete after',
+  'trash.retentionAfter': 'days',
+  'trash.empty': 'Empty trash',
+  'trash.columnDeletedAt': 'Deleted at',
+  'trash.columnDeletedBy': 'Deleted by',
+  'trash.columnPurgeAt': 'Purged at',
+  'trash.isEmpty': 'The trash is empty.',
+  'trash.restore': 'Restore',
+  'trash.purge': 'Delete permanently',
+
+  // Vault and key format
+  'vault.unlockTitle': 'Unlock saved connections',
+  'vault.unlockHint': 'The Supabase connections on this device are encrypted. Enter the passphrase to continue.',
+  'vault.decrypting': 'Decrypting...',
+  'vault.unlock': 'Unlock',
+  'vault.forget': 'Forgot the passphrase? Remove the saved connections from this device',
+  'keyFormat.title': 'Random key format',
+  'keyFormat.alphabet': 'Alphabet',
+  'keyFormat.alphabetTooShort': 'At least 2 characters are needed.',
+  'keyFormat.prefix': 'Prefix',
+  'keyFormat.groups': 'Groups',
+  'keyFormat.groupLength': 'Characters/group',
+  'keyFormat.separator': 'Separator',
+  'keyFormat.checksumLength': 'Check characters',
+  'keyFormat.reset': 'DEFAULT',
+
+  // Products and plans
+  'catalog.productName': 'Product name',
+  'catalog.confirmDeleteProduct': 'Delete product {name} and all of its plans? Issued licenses are kept.',
+  'catalog.confirmDeletePlan': 'Delete plan {name}?',
+  'catalog.rename': 'Rename',
+  'catalog.deleteProduct': 'Delete product',
+  'catalog.columnPlan': 'Plan',
+  'catalog.columnDuration': 'Duration',
+  'catalog.columnMachines': 'Machines',
+  'catalog.columnFeatures': 'Features',
+  'catalog.deletePlan': 'Delete plan',
+  'catalog.planName': 'Plan name',
+  'catalog.durationDays': 'Duration (days)',
+  'catalog.featuresPlaceholder': 'Features (comma separated)',
+  'catalog.addPlan': 'Add plan',
+  'catalog.newProductPlaceholder': 'New product name...',
+  'catalog.addProduct': 'Add product',
+  'catalog.empty': 'No products yet.',
+
+  // License import
+  'import.noRows': 'The file has no data rows.',
+  'import.chooseFile': 'Choose a CSV or JSON file',
+  'import.requiredColumns': 'Required columns:',
+  'import.dateFormats': '(ISO, YYYY-MM-DD or DD/MM/YYYY).',
+  'import.optionalColumns': 'Optional:',
+  'import.countNew': 'New: {count}',
+  'import.countConflict': 'Existing: {count}',
+  'import.countRejected': 'Rejected: {count}',
+  'import.moreRows': { one: '... and {count} more row', other: '... and {count} more rows' },
+  'import.existingKeys': 'Existing keys:',
+  'import.skip': 'Skip',
+  'import.overwrite': 'Overwrite',
+  'import.progress': 'Importing... {done}/{total}',
+  'import.submit': { one: 'Import {count} license', other: 'Import {count} licenses' },
+  'import.reading': 'Reading file...',
+  'import.inserted': 'Added: {count}',
+  'import.updated': 'Updated: {count}',
+  'import.skipped': 'Skipped: {count}',
+  'importStatus.new': 'New',
+  'importStatus.conflict': 'Exists',
+  'importStatus.duplicate': 'Duplicate in file',
+  'importStatus.invalid': 'Invalid',
+
+  // Batch creation
+  'batch.template': 'Key template',
+  'batch.example': 'Example: {keys}',
+  'batch.tokens': 'Tokens: {tokens}',
+  'batch.count': 'Count',
+  'batch.startSeq': 'Starting sequence number',
+  'batch.maxActivations': 'Max machines per key',
+  'batch.created': 'Created: {count}',
+  'batch.duplicates': 'Duplicates: {count}',
+  'batch.errors': 'Errors: {count}',
+  'batch.progress': 'Creating... {done}/{total}',
+  'batch.submit': { one: 'Create {count} license', other: 'Create {count} licenses' },
+  'batchStatus.created': 'Created',
+  'batchStatus.duplicate': 'Duplicate key',
+  'batchStatus.error': 'Error',
+
+  // Offline tokens
+  'offline.title': 'Offline token: {key}',
+  'offline.confirmNewKeys': 'Replace the current private key with a new key pair? Tokens signed with the old key will not verify against the new public key.',
+  'offline.issueTab': 'Issue token',
+  'offline.inspectTab': 'Inspect token',
+  'offline.privateKey': 'Ed25519 private key (PKCS#8)',
+  'offline.generateKeys': 'Generate a new key pair',
+  'offline.privateKeyHint': 'The private key is not saved; keep it somewhere safe outside the dashboard.',
+  'offline.hwid': 'Client machine\'s HWID',
+  'offline.signing': 'Signing...',
+  'offline.sign': 'Sign token',
+  'offline.download': 'Download .lic file',
+  'offline.publicKeyHint': 'Public key to embed in the app:',
+  'offline.publicKey': 'Public key',
+  'offline.customerToken': 'Token sent by the customer',
+  'offline.verify': 'Verify',
+  'offline.expires': 'Expires',
+  'offline.issuedAt': 'Issued at',
+  'offline.notVerified': 'Signature not verified yet; showing the token contents only.',
+  'offlineStatus.ok': 'Valid',
+  'offlineStatus.expired': 'Valid signature, expired',
+  'offlineStatus.hwid_mismatch': 'HWID mismatch',
+  'offlineStatus.invalid_signature': 'Invalid signature',
+  'offlineStatus.malformed': 'Malformed token',
+
+  // Connection profiles
+  'profiles.title': 'Supabase connections',
+  'profiles.passphraseTooShort': 'The passphrase needs at least {count} characters',
+  'profiles.passphraseMismatch': 'The passphrases do not match',
+  'profiles.confirmDisableVault': 'Turn off encryption? The URL and anon key will be stored in plain text in this browser.',
+  'profiles.confirmDeleteProduction': 'Delete the PRODUCTION connection "{name}"? You will need to enter the URL and anon key again to use it.',
+  'profiles.confirmDelete': 'Delete connection "{name}"?',
+  'profiles.active': 'in use',
+  'profiles.connect': 'Connect',
+  'profiles.envNotDeletable': 'The .env configuration cannot be deleted',
+  'profiles.activeNotDeletable': 'Switch to another connection before deleting',
+  'profiles.add': 'Add connection',
+  'profiles.name': 'Name',
+  'profiles.url': 'Supabase URL',
+  'profiles.anonKey': 'Anon key',
+  'profiles.envName': '.env configuration',
+  'profiles.defaultName': 'Default',
+  'profiles.namePlaceholder': 'E.g. Staging, Customer A',
+  'profiles.environment': 'Environment',
+  'profiles.envHint': 'The URL and key come from the .env file; only the name and environment can change.',
+  'profiles.create': 'Add',
+  'profiles.vaultTitle': 'Passphrase protection',
+  'profiles.vaultEnabled': 'Saved connections are encrypted (AES-GCM). The passphrase is asked for each time the dashboard opens.',
+  'profiles.disableVault': 'Turn off encryption',
+  'profiles.vaultDisabled': 'The URL and anon key are stored in plain text. Set a passphrase to encrypt them on this device.',
+  'profiles.passphrase': 'Passphrase',
+  'profiles.passphraseConfirm': 'Repeat passphrase',
+  'profiles.encrypting': 'Encrypting...',
+  'profiles.encrypt': 'Encrypt',
+  'profiles.forgetDevice': 'Forget this device (remove every saved connection and session)',
+};
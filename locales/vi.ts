@@ -0,0 +1,555 @@
+// Vietnamese is the source catalog: its keys are the MessageKey type, and every other
+// locale must translate all of them. Placeholders are `{name}`.
+export const vi = {
+  // Shared
+  'common.loading': 'Đang tải...',
+  'common.processing': 'Đang xử lý...',
+  'common.error': 'Lỗi: {message}',
+  'common.save': 'Lưu',
+  'common.cancel': 'Hủy',
+  'common.edit': 'Sửa',
+  'common.delete': 'Xóa',
+  'common.close': 'Đóng',
+  'common.reload': 'Tải lại',
+  'common.copy': 'Sao chép',
+  'common.copied': 'Đã sao chép',
+  'common.enabled': 'Đang bật',
+  'common.disabled': 'Đang tắt',
+  'common.days': '{count} ngày',
+  'common.language': 'Ngôn ngữ',
+  'time.justNow': 'Vừa xong',
+
+  // Errors from Supabase, by code
+  'error.invalidCredentials': 'Email hoặc mật khẩu không đúng.',
+  'error.emailNotConfirmed': 'Email chưa được xác nhận. Hãy mở liên kết trong thư xác nhận.',
+  'error.userBanned': 'Tài khoản này đã bị khóa.',
+  'error.rateLimited': 'Quá nhiều yêu cầu, vui lòng thử lại sau ít phút.',
+  'error.sessionExpired': 'Phiên đăng nhập đã hết hạn, vui lòng đăng nhập lại.',
+  'error.permissionDenied': 'Bạn không có quyền thực hiện thao tác này.',
+  'error.duplicate': 'Dữ liệu đã tồn tại.',
+  'error.missingTable': 'Cơ sở dữ liệu thiếu bảng cần thiết; hãy chạy các migration trong supabase/migrations.',
+  'error.network': 'Không kết nối được tới máy chủ. Kiểm tra mạng hoặc URL Supabase.',
+  'validation.productNameRequired': 'Cần nhập tên sản phẩm',
+  'validation.planNameRequired': 'Cần nhập tên gói',
+  'validation.planDuration': 'Thời hạn gói phải là số ngày nguyên dương',
+  'validation.planSeats': 'Số máy của gói phải là số nguyên dương',
+  'validation.vaultLocked': 'Các kết nối đã lưu đang bị khóa',
+  'validation.vaultExists': 'Các kết nối đã lưu đã được mã hóa',
+  'validation.profileNameRequired': 'Cần nhập tên kết nối',
+  'validation.profileCredentialsRequired': 'Cần nhập URL Supabase và anon key',
+  'validation.supabaseUrlRequired': 'Cần nhập URL Supabase',
+  'validation.anonKeyRequired': 'Cần nhập anon key',
+  'validation.supabaseUrlInvalid': 'URL Supabase phải là địa chỉ http(s) hợp lệ',
+  'validation.passphraseRequired': 'Cần nhập mật khẩu',
+  'validation.wrongPassphrase': 'Sai mật khẩu hoặc dữ liệu đã bị hỏng',
+  'validation.templateNotVariable': 'Mẫu key cần {RAND}, {NUM} hoặc {SEQ} để tạo nhiều hơn một key',
+  'validation.templateTooFewKeys': 'Mẫu key chỉ tạo được {unique} key khác nhau trên {count}',
+  'validation.alphabetLength': 'Bảng ký tự phải có từ 2 đến 256 ký tự',
+  'validation.activationNotFound': 'Không tìm thấy máy đã kích hoạt, hoặc bạn không có quyền',
+  'validation.seatLimit': 'Số máy tối đa phải là số nguyên dương',
+  'validation.licenseKeyRequired': 'Cần nhập mã license',
+  'validation.licenseKeyExists': 'Mã license {key} đã tồn tại',
+  'validation.importJsonShape': 'File JSON phải là một mảng license',
+  'validation.invalidCustomerEmail': 'Email khách hàng không hợp lệ: {email}',
+  'validation.licenseNotAffected': 'Không tìm thấy license hoặc bạn không có quyền',
+  'validation.licenseNotFound': 'Không tìm thấy license',
+  'validation.privateKeyFormat': 'Khóa bí mật phải là khóa Ed25519 dạng PKCS#8 PEM hoặc base64',
+  'validation.publicKeyFormat': 'Khóa công khai phải là khóa Ed25519 dạng base64 thô hoặc SPKI PEM',
+  'validation.keyNoPublic': 'Khóa không có phần công khai',
+  'validation.hwidRequired': 'Cần nhập HWID',
+  'validation.notActivated': 'License chưa được kích hoạt',
+  'validation.thresholdRequired': 'Cần ít nhất một mốc nhắc',
+  'validation.thresholdFormat': 'Mốc nhắc phải là số ngày nguyên, từ 0 trở lên',
+  'validation.templatesRequired': 'Cần nhập tiêu đề và nội dung',
+  'validation.channelNameRequired': 'Cần nhập tên kênh',
+  'validation.invalidEmail': 'Email không hợp lệ: {email}',
+  'validation.webhookUrl': 'URL webhook phải là địa chỉ http(s)',
+  'validation.botUrl': 'Endpoint của bot phải là địa chỉ http(s)',
+  'validation.chatIdRequired': 'Cần nhập chat ID hoặc user ID',
+  'validation.retentionDays': 'Thời gian lưu phải là số ngày nguyên dương',
+  'validation.endpointNameRequired': 'Cần nhập tên endpoint',
+  'validation.invalidUrl': 'URL không hợp lệ: {url}',
+  'validation.noEvents': 'Chọn ít nhất một sự kiện',
+  'validation.unknownEvent': 'Sự kiện không hợp lệ: {event}',
+  'validation.secretLength': 'Secret ký phải dài ít nhất 16 ký tự',
+  'validation.templateEmpty': 'Mẫu key đang trống',
+  'validation.templateUnknownToken': 'Token không hợp lệ: {token}',
+  'validation.templateBraces': 'Mẫu key có dấu ngoặc không khớp',
+  'validation.importMissingKey': 'Thiếu license_key',
+  'validation.importInvalidExpiry': 'expires_at không hợp lệ: {value}',
+  'validation.importDuplicateKey': 'Key bị trùng trong file',
+
+  // Header and navigation
+  'app.title': 'Quản Lý License Pro',
+  'header.demoData': 'Dữ liệu demo',
+  'header.connected': 'Đã kết nối',
+  'header.offline': 'Ngoại tuyến',
+  'header.demoMode': 'Chế độ demo',
+  'header.demoModeTitle': 'Dữ liệu chỉ lưu trong trình duyệt này',
+  'header.exitDemo': 'Thoát',
+  'header.signOut': 'Đăng xuất',
+  'realtime.connecting': 'Đang kết nối',
+  'realtime.connectingTitle': 'Đang kết nối cập nhật trực tiếp...',
+  'realtime.live': 'Trực tiếp',
+  'realtime.liveTitle': 'Thay đổi được cập nhật tự động',
+  'realtime.offline': 'Mất đồng bộ',
+  'realtime.offlineTitle': 'Mất kết nối cập nhật trực tiếp, hãy làm mới dữ liệu',
+  'tab.licenses': 'Licenses',
+  'tab.analytics': 'Thống kê',
+  'tab.catalog': 'Sản phẩm',
+  'tab.reminders': 'Nhắc hạn',
+  'tab.webhooks': 'Webhook',
+  'tab.audit': 'Nhật ký',
+  'tab.trash': 'Thùng rác',
+  'tab.team': 'Thành viên',
+
+  // Connecting and signing in
+  'connect.failed': 'Không thể kết nối tới "{name}"',
+  'connect.urlFailed': 'Không thể kết nối với thông tin xác thực từ URL',
+  'connect.confirmForgetDevice': 'Xóa mọi kết nối Supabase và phiên đăng nhập đã lưu trên trình duyệt này?',
+  'connect.notConnected': 'Chưa kết nối cơ sở dữ liệu',
+  'connect.intro': 'Vui lòng cấu hình thông tin xác thực Supabase bằng một trong các phương thức sau:',
+  'connect.method1': 'Phương thức 1 (Khuyến nghị):',
+  'connect.method1Before': 'Tạo file',
+  'connect.method1After': 'trong thư mục gốc với nội dung:',
+  'connect.method2': 'Phương thức 2:',
+  'connect.method2Link': 'Nhập URL và anon key trong ứng dụng',
+  'connect.method2Note': '(có thể mã hóa bằng mật khẩu)',
+  'connect.method3': 'Phương thức 3:',
+  'connect.method3Before': 'Thêm tham số URL:',
+  'connect.method3After': '(tự động xóa khỏi thanh địa chỉ sau khi đọc)',
+  'connect.tryDemo': 'Chưa có Supabase? Dùng thử với dữ liệu demo',
+  'auth.title': 'Đăng nhập quản trị',
+  'auth.intro': 'Chỉ thành viên đã được thêm vào nhóm mới có quyền truy cập dashboard.',
+  'auth.email': 'Email',
+  'auth.password': 'Mật khẩu',
+  'auth.signIn': 'Đăng nhập',
+  'auth.notAuthorized': 'Tài khoản {email} chưa được cấp quyền truy cập. Vui lòng liên hệ quản trị viên để được thêm vào nhóm.',
+  'auth.waitingConnection': 'Đang chờ kết nối...',
+  'auth.signInToContinue': 'Vui lòng đăng nhập để tiếp tục.',
+  'auth.checkingAccess': 'Đang kiểm tra quyền truy cập...',
+  'auth.noAccess': 'Bạn không có quyền xem nội dung này.',
+  'role.viewer': 'Chỉ xem',
+  'role.support': 'Hỗ trợ',
+  'role.admin': 'Quản trị',
+
+  // License list
+  'stats.total': 'Tổng License',
+  'stats.active': 'Người dùng đang hoạt động',
+  'stats.available': 'Có sẵn',
+  'stats.expired': 'Đã hết hạn',
+  'licenseStatus.pending': 'Chưa kích hoạt',
+  'licenseStatus.available': 'Có sẵn',
+  'licenseStatus.active': 'Đang hoạt động',
+  'licenseStatus.expiring': 'Sắp hết hạn',
+  'licenseStatus.expired': 'Đã hết hạn',
+  'product.none': 'Chưa gắn sản phẩm',
+  'filter.searchPlaceholder': 'Tìm key, HWID, khách hàng, đơn hàng, tag...',
+  'filter.allStatuses': 'Tất cả trạng thái',
+  'filter.pending': 'Chưa kích hoạt (tính từ lần đầu)',
+  'filter.active': 'Chỉ đang hoạt động',
+  'filter.expiring': 'Sắp hết hạn (7 ngày)',
+  'filter.expired': 'Đã hết hạn',
+  'filter.dormant': 'Lâu không hoạt động',
+  'filter.dormantTitle': 'Số ngày không có máy nào kiểm tra',
+  'filter.dormantDays': '≥ {count} ngày',
+  'filter.allProducts': 'Tất cả sản phẩm',
+  'licenses.refresh': 'Làm mới dữ liệu',
+  'licenses.import': 'Nhập từ CSV/JSON',
+  'licenses.checkOfflineToken': 'Kiểm tra token offline',
+  'licenses.export': 'Xuất dữ liệu',
+  'licenses.exportRows': '({count} dòng)',
+  'licenses.new': 'License mới',
+  'licenses.selected': 'Đã chọn {count} license.',
+  'licenses.selectAllMatching': 'Chọn tất cả {count} license khớp bộ lọc',
+  'licenses.selectPage': 'Chọn tất cả trên trang',
+  'licenses.columnKey': 'Mã License',
+  'licenses.columnStatus': 'Trạng thái',
+  'licenses.columnHwid': 'ID Phần cứng (HWID)',
+  'licenses.columnExpiresAt': 'Hết hạn lúc',
+  'licenses.columnLastSeen': 'Lần cuối hoạt động',
+  'licenses.columnActions': 'Thao tác',
+  'licenses.noMatches': 'Không tìm thấy license phù hợp.',
+  'licenses.empty': 'Chưa có license nào được tạo.',
+  'licenses.seats': '{used}/{limit} máy',
+  'licenses.awaitingActivation': 'Chờ kích hoạt',
+  'licenses.awaitingSeats': '(0/{limit} máy)',
+  'licenses.neverSeen': 'Chưa ghi nhận',
+  'licenses.pendingDuration': 'chưa kích hoạt – {count} ngày',
+  'licenses.editOrExtend': 'Sửa / Gia hạn',
+  'licenses.extend': 'Gia hạn',
+  'licenses.timeline': 'Nhật ký thao tác',
+  'licenses.machines': 'Quản lý máy kích hoạt',
+  'licenses.issueOffline': 'Cấp token offline',
+  'licenses.moveToTrash': 'Chuyển vào thùng rác',
+  'licenses.confirmTrash': 'Chuyển license vào thùng rác? Bạn có thể khôi phục trong mục Thùng rác.',
+  'licenses.createFailed': 'Lỗi khi tạo license: {message}',
+  'licenses.keyExists': 'Key đã tồn tại',
+  'pagination.show': 'Hiển thị',
+  'pagination.perPage': '{size}/trang',
+  'pagination.results': '• {count} kết quả',
+  'pagination.previous': 'Trước',
+  'pagination.next': 'Sau',
+  'pagination.page': 'Trang {page}/{total}',
+
+  // Bulk actions
+  'bulk.confirmResetHwid': 'Mở khóa HWID cho {count} license? Người dùng sẽ có thể liên kết với máy mới.',
+  'bulk.confirmExtend': 'Gia hạn {count} license?',
+  'bulk.confirmDelete': 'Chuyển {count} license vào thùng rác?',
+  'bulk.partialFailure': 'Thành công {succeeded}/{requested}. Thất bại:\n{details}',
+  'bulk.moreFailures': '... và {count} license khác',
+
+  // Creating a license
+  'create.title': 'Tạo License mới',
+  'create.single': 'Một key',
+  'create.batch': 'Hàng loạt',
+  'create.random': 'NGẪU NHIÊN',
+  'create.friendly': 'THÂN THIỆN',
+  'create.checksumMismatch': 'Mã kiểm tra không khớp — key có thể đã bị gõ sai.',
+  'create.formatMismatch': 'Key không theo định dạng đã cấu hình.',
+  'create.expiryDate': 'Ngày hết hạn',
+  'create.expiryTime': 'Giờ',
+  'create.maxActivations': 'Số máy tối đa',
+  'create.expiryMode': 'Hạn dùng:',
+  'create.fixedDate': 'Ngày cố định',
+  'create.fromActivation': 'Tính từ lần kích hoạt đầu',
+  'create.durationDays': 'Số ngày sử dụng',
+  'create.trial': 'Dùng thử {count} ngày',
+  'create.durationHint': 'Ngày hết hạn được tính khi key gắn với máy đầu tiên, nên key bán trước không bị mất ngày.',
+  'create.submit': 'Tạo License',
+  'import.title': 'Nhập license',
+
+  // Durations and relative amounts
+  'duration.plusDays': '+{count} ngày',
+  'duration.plusMonths': '+{count} tháng',
+  'duration.plusYears': '+{count} năm',
+  'duration.months': '{count} tháng',
+
+  // License details
+  'metadata.customerName': 'Khách hàng',
+  'metadata.customerNamePlaceholder': 'Tên khách hàng / công ty',
+  'metadata.customerEmail': 'Email khách hàng',
+  'metadata.orderId': 'Mã đơn hàng',
+  'metadata.orderIdLabel': 'Mã đơn hàng / hóa đơn',
+  'metadata.tags': 'Tags',
+  'metadata.tagsPlaceholder': 'vip, đại lý, ...',
+  'metadata.notes': 'Ghi chú',
+  'export.seats': 'Số máy',
+  'export.hwid': 'HWID',
+  'export.email': 'Email',
+  'licenseEvent.activate': 'Kích hoạt',
+  'licenseEvent.check': 'Kiểm tra',
+  'licenseEvent.deactivate': 'Hủy kích hoạt',
+
+  // Activity, bulk actions and plans
+  'events.title': 'Hoạt động máy khách: {key}',
+  'events.empty': 'Chưa có máy nào báo cáo hoạt động.',
+  'bulk.selected': 'Đã chọn {count} license',
+  'bulk.resetHwid': 'Mở khóa HWID',
+  'bulk.clearSelection': 'Bỏ chọn',
+  'extend.fromCurrent': 'từ hạn hiện tại',
+  'extend.fromToday': 'từ hôm nay',
+  'plan.picker': 'Sản phẩm / Gói',
+  'plan.none': '— Không gắn sản phẩm —',
+  'plan.option': '{product} – {plan} ({days}, {machines} máy)',
+  'connection.choose': 'Chọn kết nối',
+  'connection.none': 'Chưa kết nối',
+  'connection.manage': 'Quản lý kết nối...',
+
+  // Analytics
+  'analytics.refresh': 'Làm mới',
+  'analytics.days': '{count} ngày',
+  'analytics.activationRate': 'Tỷ lệ kích hoạt',
+  'analytics.activationRateHint': '{activated}/{created} key tạo trong kỳ',
+  'analytics.timeToActivation': 'Thời gian đến kích hoạt',
+  'analytics.timeToActivationHint': 'Trung vị · trung bình {average}',
+  'analytics.renewalRate': 'Tỷ lệ gia hạn',
+  'analytics.renewalRateHint': '{renewed}/{due} key đến hạn trong kỳ',
+  'analytics.expiringSoon': 'Hết hạn trong {count} ngày',
+  'analytics.expiringSoonHint': 'Cơ hội gia hạn sắp tới',
+  'analytics.forecastTitle': 'License hết hạn theo tuần ({count} ngày tới)',
+  'analytics.expiring': 'Hết hạn',
+  'analytics.monthlyTitle': 'Tạo mới và kích hoạt theo tháng',
+  'analytics.created': 'Tạo mới',
+  'analytics.firstActivation': 'Kích hoạt lần đầu',
+  'analytics.forecastNote': 'Dự báo hết hạn luôn tính từ hôm nay ({date}); khoảng thời gian chọn ở trên áp dụng cho các chỉ số còn lại.',
+  'analytics.missingCreatedAt': '{count} key không rõ ngày tạo nên không được tính vào tỷ lệ kích hoạt.',
+  'analytics.renewalNote': 'Tỷ lệ gia hạn dựa trên lịch sử thay đổi hạn dùng được ghi từ dashboard.',
+  'analytics.max': 'Cao nhất: {value}',
+
+  // Edit license
+  'edit.title': 'Sửa License',
+  'edit.renameFrom': 'Key sẽ được đổi từ',
+  'edit.extendLabel': 'Gia hạn:',
+  'edit.fromCurrent': 'Từ hạn hiện tại',
+  'edit.fromToday': 'Từ hôm nay',
+  'edit.pendingHint': 'Key chưa kích hoạt: thời hạn bắt đầu tính từ lần kích hoạt đầu tiên.',
+  'edit.features': 'Tính năng được mở khóa',
+  'edit.featuresPlaceholder': 'Phân cách bởi dấu phẩy',
+  'edit.saving': 'Đang lưu...',
+  'edit.submit': 'Lưu thay đổi',
+  'edit.history': 'Lịch sử gia hạn',
+  'edit.historyEmpty': 'Chưa có thay đổi nào.',
+  'historyAction.extend': 'Gia hạn',
+  'historyAction.edit': 'Sửa hạn',
+  'historyAction.rename': 'Đổi key',
+
+  // Team
+  'team.emailPlaceholder': 'Email thành viên...',
+  'team.add': 'Thêm thành viên',
+  'team.hint': 'Thành viên đăng nhập bằng tài khoản Supabase có cùng email. Có thể thêm trước khi họ tạo tài khoản.',
+  'team.columnRole': 'Vai trò',
+  'team.columnUpdatedBy': 'Cập nhật bởi',
+  'team.empty': 'Chưa có thành viên nào.',
+  'team.you': '(bạn)',
+  'team.cannotChangeOwnRole': 'Không thể đổi vai trò của chính mình',
+  'team.remove': 'Xóa thành viên',
+  'team.confirmRemove': 'Xóa quyền truy cập của {email}?',
+  'roleDescription.viewer': 'Xem license, nhật ký và sản phẩm',
+  'roleDescription.support': 'Thêm: gia hạn, mở khóa HWID, hủy kích hoạt máy',
+  'roleDescription.admin': 'Toàn quyền, kể cả tạo/xóa license và quản lý nhóm',
+
+  // Audit log
+  'audit.actorPlaceholder': 'Người thực hiện (email)...',
+  'audit.allActions': 'Tất cả thao tác',
+  'audit.keyPlaceholder': 'Mã License...',
+  'audit.columnTime': 'Thời gian',
+  'audit.columnActor': 'Người thực hiện',
+  'audit.columnAction': 'Thao tác',
+  'audit.columnChanges': 'Thay đổi',
+  'audit.empty': 'Không có bản ghi nào.',
+  'audit.total': '{count} bản ghi',
+  'audit.timelineTitle': 'Nhật ký: {key}',
+  'audit.timelineEmpty': 'Chưa có thao tác nào được ghi lại.',
+  'auditAction.create': 'Tạo mới',
+  'auditAction.import': 'Nhập',
+  'auditAction.update': 'Sửa',
+  'auditAction.extend': 'Gia hạn',
+  'auditAction.rename': 'Đổi key',
+  'auditAction.reset_hwid': 'Mở khóa HWID',
+  'auditAction.deactivate': 'Hủy kích hoạt máy',
+  'auditAction.issue_offline': 'Cấp token offline',
+  'auditAction.delete': 'Xóa',
+  'auditAction.restore': 'Khôi phục',
+  'auditAction.purge': 'Xóa vĩnh viễn',
+
+  // Expiry reminders
+  'reminders.recipientCustomer': 'Gửi tới email khách hàng',
+  'reminders.recipientFixed': 'Gửi tới một địa chỉ cố định',
+  'reminders.bearerToken': 'Bearer token (không bắt buộc)',
+  'reminders.settingsSaved': 'Đã lưu cấu hình nhắc hạn.',
+  'reminders.confirmDeleteChannel': 'Xóa kênh "{name}" và lịch sử gửi của nó?',
+  'reminders.deletedChannel': 'Kênh đã xóa',
+  'reminders.expiryDay': 'Ngày hết hạn',
+  'reminders.settingsTitle': 'Mốc nhắc và nội dung',
+  'reminders.thresholds': 'Số ngày trước khi hết hạn (0 = ngày hết hạn)',
+  'reminders.thresholdsHint': 'Mỗi mốc chỉ gửi một lần cho mỗi license và mỗi kênh; gia hạn xong sẽ nhắc lại theo hạn mới.',
+  'reminders.subject': 'Tiêu đề',
+  'reminders.body': 'Nội dung',
+  'reminders.locale': 'Ngôn ngữ của ngày và tên mặc định',
+  'reminders.defaultCustomerName': 'quý khách',
+  'reminders.placeholders': 'Biến:',
+  'reminders.dryRun': 'Chạy thử (không gửi)',
+  'reminders.previewTitle': 'Xem trước: {count} tin sẽ được gửi ở lần chạy tới',
+  'reminders.previewEmpty': 'Không có license nào đến mốc nhắc, hoặc tất cả đã được gửi.',
+  'reminders.channels': 'Kênh gửi',
+  'reminders.noChannels': 'Chưa có kênh nào; nhắc hạn sẽ không được gửi.',
+  'reminders.channelName': 'Tên kênh',
+  'reminders.smtpHint': 'Máy chủ SMTP được cấu hình cho reminder worker (biến SMTP_*), không lưu trong dashboard.',
+  'reminders.saveChannel': 'Lưu kênh',
+  'reminders.logTitle': 'Lịch sử gửi gần đây',
+  'reminders.columnThreshold': 'Mốc',
+  'reminders.columnChannel': 'Kênh',
+  'reminders.logEmpty': 'Chưa gửi nhắc hạn nào.',
+  'reminders.sent': 'Đã gửi',
+  'reminders.failed': 'Lỗi ({count} lần)',
+  'reminderChannel.email': 'Email (SMTP)',
+  'reminderChannel.webhook': 'Webhook',
+  'reminderChannel.bot': 'Bot chat',
+
+  // Webhooks
+  'webhooks.confirmDelete': 'Xóa endpoint "{name}" và lịch sử gửi của nó?',
+  'webhooks.deletedEndpoint': 'Endpoint đã xóa',
+  'webhooks.add': 'Thêm endpoint',
+  'webhooks.empty': 'Chưa có endpoint nào.',
+  'webhooks.namePlaceholder': 'Tên (vd. CRM)',
+  'webhooks.events': 'Sự kiện',
+  'webhooks.secret': 'Khóa ký (HMAC-SHA256)',
+  'webhooks.regenerateSecret': 'Tạo khóa mới',
+  'webhooks.secretHintBefore': 'Bên nhận kiểm tra header',
+  'webhooks.secretHintAfter': '; đổi khóa có hiệu lực ngay cho cả các lần gửi lại.',
+  'webhooks.save': 'Lưu endpoint',
+  'webhooks.deliveries': 'Lịch sử gửi',
+  'webhooks.allEndpoints': 'Mọi endpoint',
+  'webhooks.allEvents': 'Mọi sự kiện',
+  'webhooks.allStatuses': 'Mọi trạng thái',
+  'webhooks.columnEvent': 'Sự kiện',
+  'webhooks.columnEndpoint': 'Endpoint',
+  'webhooks.deliveriesEmpty': 'Chưa có lần gửi nào.',
+  'webhooks.attempts': '{attempts}/{max} lần',
+  'webhooks.retryAt': 'Thử lại lúc {time}',
+  'webhooks.redeliver': 'Gửi lại',
+  'webhookStatus.pending': 'Đang chờ',
+  'webhookStatus.delivered': 'Đã gửi',
+  'webhookStatus.failed': 'Thất bại',
+  'webhookEvent.license.created': 'Tạo key',
+  'webhookEvent.license.activated': 'Kích hoạt máy',
+  'webhookEvent.license.reset': 'Mở khóa HWID',
+  'webhookEvent.license.extended': 'Gia hạn',
+  'webhookEvent.license.expired': 'Hết hạn',
+  'webhookEvent.license.deleted': 'Xóa',
+
+  // Machines and trash
+  'activations.title': 'Máy đã kích hoạt: {key}',
+  'activations.confirmDeactivate': 'Hủy kích hoạt máy này? Chỗ trống có thể được dùng cho máy khác.',
+  'activations.confirmDeactivateAll': 'Hủy kích hoạt tất cả các máy của license này?',
+  'activations.overLimit': 'Đang có {count} máy, vượt giới hạn mới. Các máy hiện tại vẫn hoạt động cho đến khi bị hủy kích hoạt.',
+  'activations.inUse': 'Đang dùng {used}/{limit} máy',
+  'activations.deactivateAll': 'Hủy kích hoạt tất cả',
+  'activations.columnActivatedAt': 'Kích hoạt lúc',
+  'activations.columnLastSeen': 'Lần cuối',
+  'activations.empty': 'Chưa có máy nào được kích hoạt.',
+  'activations.deactivate': 'Hủy kích hoạt máy này',
+  'trash.confirmRestore': 'Khôi phục {count} license?',
+  'trash.confirmPurge': 'Hành động này không thể hoàn tác. Xóa vĩnh viễn {count} license?',
+  'trash.retentionBefore': 'Tự động xóa vĩnh viễn sau',
+  'trash.retentionAfter': 'ngày',
+  'trash.empty': 'Dọn sạch thùng rác',
+  'trash.columnDeletedAt': 'Xóa lúc',
+  'trash.columnDeletedBy': 'Người xóa',
+  'trash.columnPurgeAt': 'Xóa vĩnh viễn lúc',
+  'trash.isEmpty': 'Thùng rác trống.',
+  'trash.restore': 'Khôi phục',
+  'trash.purge': 'Xóa vĩnh viễn',
+
+  // Vault and key format
+  'vault.unlockTitle': 'Mở khóa kết nối đã lưu',
+  'vault.unlockHint': 'Thông tin kết nối Supabase trên thiết bị này được mã hóa. Nhập mật khẩu để tiếp tục.',
+  'vault.decrypting': 'Đang giải mã...',
+  'vault.unlock': 'Mở khóa',
+  'vault.forget': 'Quên mật khẩu? Xóa kết nối đã lưu trên thiết bị này',
+  'keyFormat.title': 'Định dạng key ngẫu nhiên',
+  'keyFormat.alphabet': 'Bảng ký tự',
+  'keyFormat.alphabetTooShort': 'Cần ít nhất 2 ký tự.',
+  'keyFormat.prefix': 'Tiền tố',
+  'keyFormat.groups': 'Số nhóm',
+  'keyFormat.groupLength': 'Ký tự/nhóm',
+  'keyFormat.separator': 'Dấu phân cách',
+  'keyFormat.checksumLength': 'Ký tự kiểm tra',
+  'keyFormat.reset': 'MẶC ĐỊNH',
+
+  // Products and plans
+  'catalog.productName': 'Tên sản phẩm',
+  'catalog.confirmDeleteProduct': 'Xóa sản phẩm {name} và tất cả các gói? Các license đã cấp vẫn được giữ nguyên.',
+  'catalog.confirmDeletePlan': 'Xóa gói {name}?',
+  'catalog.rename': 'Đổi tên',
+  'catalog.deleteProduct': 'Xóa sản phẩm',
+  'catalog.columnPlan': 'Gói',
+  'catalog.columnDuration': 'Thời hạn',
+  'catalog.columnMachines': 'Số máy',
+  'catalog.columnFeatures': 'Tính năng',
+  'catalog.deletePlan': 'Xóa gói',
+  'catalog.planName': 'Tên gói',
+  'catalog.durationDays': 'Thời hạn (ngày)',
+  'catalog.featuresPlaceholder': 'Tính năng (phân cách bởi dấu phẩy)',
+  'catalog.addPlan': 'Thêm gói',
+  'catalog.newProductPlaceholder': 'Tên sản phẩm mới...',
+  'catalog.addProduct': 'Thêm sản phẩm',
+  'catalog.empty': 'Chưa có sản phẩm nào.',
+
+  // License import
+  'import.noRows': 'File không có dòng dữ liệu nào.',
+  'import.chooseFile': 'Chọn file CSV hoặc JSON',
+  'import.requiredColumns': 'Cột bắt buộc:',
+  'import.dateFormats': '(ISO, YYYY-MM-DD hoặc DD/MM/YYYY).',
+  'import.optionalColumns': 'Tùy chọn:',
+  'import.countNew': 'Mới: {count}',
+  'import.countConflict': 'Đã tồn tại: {count}',
+  'import.countRejected': 'Bị loại: {count}',
+  'import.moreRows': '... và {count} dòng khác',
+  'import.existingKeys': 'Key đã tồn tại:',
+  'import.skip': 'Bỏ qua',
+  'import.overwrite': 'Ghi đè',
+  'import.progress': 'Đang nhập... {done}/{total}',
+  'import.submit': 'Nhập {count} license',
+  'import.reading': 'Đang đọc file...',
+  'import.inserted': 'Đã thêm: {count}',
+  'import.updated': 'Đã cập nhật: {count}',
+  'import.skipped': 'Bỏ qua: {count}',
+  'importStatus.new': 'Mới',
+  'importStatus.conflict': 'Đã tồn tại',
+  'importStatus.duplicate': 'Lặp trong file',
+  'importStatus.invalid': 'Không hợp lệ',
+
+  // Batch creation
+  'batch.template': 'Mẫu key',
+  'batch.example': 'Ví dụ: {keys}',
+  'batch.tokens': 'Ký hiệu: {tokens}',
+  'batch.count': 'Số lượng',
+  'batch.startSeq': 'Số thứ tự bắt đầu',
+  'batch.maxActivations': 'Số máy tối đa mỗi key',
+  'batch.created': 'Đã tạo: {count}',
+  'batch.duplicates': 'Trùng: {count}',
+  'batch.errors': 'Lỗi: {count}',
+  'batch.progress': 'Đang tạo... {done}/{total}',
+  'batch.submit': 'Tạo {count} License',
+  'batchStatus.created': 'Đã tạo',
+  'batchStatus.duplicate': 'Trùng key',
+  'batchStatus.error': 'Lỗi',
+
+  // Offline tokens
+  'offline.title': 'Token offline: {key}',
+  'offline.confirmNewKeys': 'Thay khóa bí mật hiện tại bằng một cặp khóa mới? Token đã cấp bằng khóa cũ sẽ không còn xác minh được với khóa công khai mới.',
+  'offline.issueTab': 'Cấp token',
+  'offline.inspectTab': 'Kiểm tra token',
+  'offline.privateKey': 'Khóa bí mật Ed25519 (PKCS#8)',
+  'offline.generateKeys': 'Tạo cặp khóa mới',
+  'offline.privateKeyHint': 'Khóa bí mật không được lưu lại; hãy cất giữ nó an toàn ngoài dashboard.',
+  'offline.hwid': 'HWID của máy khách',
+  'offline.signing': 'Đang ký...',
+  'offline.sign': 'Ký token',
+  'offline.download': 'Tải file .lic',
+  'offline.publicKeyHint': 'Khóa công khai để nhúng vào ứng dụng:',
+  'offline.publicKey': 'Khóa công khai',
+  'offline.customerToken': 'Token khách hàng gửi',
+  'offline.verify': 'Xác minh',
+  'offline.expires': 'Hết hạn',
+  'offline.issuedAt': 'Cấp lúc',
+  'offline.notVerified': 'Chưa xác minh chữ ký; chỉ hiển thị nội dung token.',
+  'offlineStatus.ok': 'Hợp lệ',
+  'offlineStatus.expired': 'Chữ ký hợp lệ, đã hết hạn',
+  'offlineStatus.hwid_mismatch': 'Sai HWID',
+  'offlineStatus.invalid_signature': 'Sai chữ ký',
+  'offlineStatus.malformed': 'Token không hợp lệ',
+
+  // Connection profiles
+  'profiles.title': 'Kết nối Supabase',
+  'profiles.passphraseTooShort': 'Mật khẩu cần ít nhất {count} ký tự',
+  'profiles.passphraseMismatch': 'Mật khẩu nhập lại không khớp',
+  'profiles.confirmDisableVault': 'Tắt mã hóa? URL và anon key sẽ được lưu dạng văn bản thường trên trình duyệt này.',
+  'profiles.confirmDeleteProduction': 'Xóa kết nối PRODUCTION "{name}"? Bạn sẽ cần nhập lại URL và anon key để dùng lại.',
+  'profiles.confirmDelete': 'Xóa kết nối "{name}"?',
+  'profiles.active': 'đang dùng',
+  'profiles.connect': 'Kết nối',
+  'profiles.envNotDeletable': 'Cấu hình từ file .env không thể xóa',
+  'profiles.activeNotDeletable': 'Chuyển sang kết nối khác trước khi xóa',
+  'profiles.add': 'Thêm kết nối',
+  'profiles.name': 'Tên',
+  'profiles.url': 'URL Supabase',
+  'profiles.anonKey': 'Anon key',
+  'profiles.envName': 'Cấu hình .env',
+  'profiles.defaultName': 'Mặc định',
+  'profiles.namePlaceholder': 'VD: Staging, Khách hàng A',
+  'profiles.environment': 'Môi trường',
+  'profiles.envHint': 'URL và key lấy từ file .env; chỉ có thể đổi tên và môi trường.',
+  'profiles.create': 'Thêm',
+  'profiles.vaultTitle': 'Bảo vệ bằng mật khẩu',
+  'profiles.vaultEnabled': 'Kết nối đã lưu được mã hóa (AES-GCM). Mật khẩu được hỏi mỗi lần mở dashboard.',
+  'profiles.disableVault': 'Tắt mã hóa',
+  'profiles.vaultDisabled': 'Hiện URL và anon key được lưu dạng văn bản thường. Đặt mật khẩu để mã hóa chúng trên thiết bị này.',
+  'profiles.passphrase': 'Mật khẩu',
+  'profiles.passphraseConfirm': 'Nhập lại mật khẩu',
+  'profiles.encrypting': 'Đang mã hóa...',
+  'profiles.encrypt': 'Mã hóa',
+  'profiles.forgetDevice': 'Quên thiết bị này (xóa mọi kết nối và phiên đăng nhập đã lưu)',
+};
@@ -0,0 +1,47 @@
+import { LicenseCacheStorage, LicenseCheckResult } from './types';
+
+const CACHE_PREFIX = 'license_sdk:';
+
+const cacheKey = (licenseKey: string, hwid: string) => `${CACHE_PREFIX}${licenseKey}:${hwid}`;
+
+export const createMemoryStorage = (): LicenseCacheStorage => {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => { items.set(key, value); },
+    removeItem: key => { items.delete(key); },
+  };
+};
+
+export const readCachedCheck = (storage: LicenseCacheStorage, licenseKey: string, hwid: string): LicenseCheckResult | null => {
+  try {
+    const stored = storage.getItem(cacheKey(licenseKey, hwid));
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    // A corrupt entry is treated like a missing one; the next online check rewrites it.
+    return null;
+  }
+};
+
+export const writeCachedCheck = (storage: LicenseCacheStorage, licenseKey: string, hwid: string, result: LicenseCheckResult) => {
+  storage.setItem(cacheKey(licenseKey, hwid), JSON.stringify(result));
+};
+
+export const clearCachedCheck = (storage: LicenseCacheStorage, licenseKey: string, hwid: string) => {
+  storage.removeItem(cacheKey(licenseKey, hwid));
+};
+
+// The token from `activate` that lets this machine release its seat later. It is kept
+// apart from the cached check so expiring the cache does not lose it.
+const tokenKey = (licenseKey: string, hwid: string) => `${CACHE_PREFIX}token:${licenseKey}:${hwid}`;
+
+export const readDeactivationToken = (storage: LicenseCacheStorage, licenseKey: string, hwid: string): string | null =>
+  storage.getItem(tokenKey(licenseKey, hwid));
+
+export const writeDeactivationToken = (storage: LicenseCacheStorage, licenseKey: string, hwid: string, token: string) => {
+  storage.setItem(tokenKey(licenseKey, hwid), token);
+};
+
+export const clearDeactivationToken = (storage: LicenseCacheStorage, licenseKey: string, hwid: string) => {
+  storage.removeItem(tokenKey(licenseKey, hwid));
+};
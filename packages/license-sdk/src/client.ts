@@ -0,0 +1,135 @@
+import { getLicenseStatus, isLicenseExpired } from '../../../services/licenseStatus';
+import {
+  clearCachedCheck,
+  clearDeactivationToken,
+  createMemoryStorage,
+  readCachedCheck,
+  readDeactivationToken,
+  writeCachedCheck,
+  writeDeactivationToken,
+} from './cache';
+import { LicenseServerUnavailableError } from './errors';
+import { CheckInContext, LicenseCheckResult, LicenseCheckStatus, LicenseClientOptions, LicensedKey } from './types';
+
+const DEFAULT_OFFLINE_GRACE_PERIOD_MS = 7 * 24 * 60 * 60 * 1000;
+
+type RpcName = 'sdk_activate' | 'sdk_validate' | 'sdk_deactivate';
+
+interface RpcPayload {
+  status: LicenseCheckStatus;
+  license?: LicensedKey;
+  // Only on the `sdk_activate` call that took the seat.
+  deactivation_token?: string;
+}
+
+/**
+ * Client for desktop apps. Talks to the `sdk_*` database functions with the anon key,
+ * so it never needs dashboard credentials.
+ */
+export const createLicenseClient = (options: LicenseClientOptions) => {
+  const baseUrl = options.url.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? globalThis.fetch.bind(globalThis);
+  const storage = options.storage ?? createMemoryStorage();
+  const gracePeriodMs = options.offlineGracePeriodMs ?? DEFAULT_OFFLINE_GRACE_PERIOD_MS;
+  const now = options.now ?? (() => new Date());
+
+  const callRpc = async (
+    name: RpcName,
+    licenseKey: string,
+    hwid: string,
+    context: CheckInContext = {},
+    args: Record<string, unknown> = {},
+  ): Promise<RpcPayload> => {
+    let response: Response;
+    try {
+      response = await fetchImpl(`${baseUrl}/rest/v1/rpc/${name}`, {
+        method: 'POST',
+        headers: {
+          apikey: options.anonKey,
+          Authorization: `Bearer ${options.anonKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          p_license_key: licenseKey,
+          p_hwid: hwid,
+          p_app_version: context.appVersion ?? options.appVersion ?? null,
+          p_ip: context.ip ?? null,
+          p_country: context.country ?? null,
+          ...args,
+        }),
+      });
+    } catch (err) {
+      throw new LicenseServerUnavailableError('License server could not be reached', { cause: err });
+    }
+
+    // Server-side failures are treated like being offline; client errors are bugs to surface.
+    if (response.status >= 500) {
+      throw new LicenseServerUnavailableError(`License server responded with ${response.status}`);
+    }
+    if (!response.ok) {
+      throw new Error(`License request failed with ${response.status}: ${await response.text()}`);
+    }
+    return response.json();
+  };
+
+  const toResult = (payload: RpcPayload, checkedAt: Date): LicenseCheckResult => ({
+    status: payload.status,
+    license: payload.license ?? null,
+    licenseStatus: payload.license ? getLicenseStatus(payload.license, checkedAt) : null,
+    source: 'server',
+    checkedAt: checkedAt.toISOString(),
+  });
+
+  // Only a successful check inside the grace period can stand in for the server, and
+  // the expiry date still applies while offline.
+  const fromCache = (licenseKey: string, hwid: string, error: LicenseServerUnavailableError): LicenseCheckResult => {
+    const cached = readCachedCheck(storage, licenseKey, hwid);
+    const at = now();
+    if (!cached?.license || cached.status !== 'ok') throw error;
+    if (at.getTime() - new Date(cached.checkedAt).getTime() > gracePeriodMs) throw error;
+
+    return {
+      ...cached,
+      status: isLicenseExpired(cached.license, at) ? 'expired' : 'ok',
+      licenseStatus: getLicenseStatus(cached.license, at),
+      source: 'cache',
+    };
+  };
+
+  const check = async (name: RpcName, licenseKey: string, hwid: string, context?: CheckInContext): Promise<LicenseCheckResult> => {
+    const key = licenseKey.trim();
+    try {
+      const payload = await callRpc(name, key, hwid, context);
+      if (payload.deactivation_token) writeDeactivationToken(storage, key, hwid, payload.deactivation_token);
+      const result = toResult(payload, now());
+      // A key that stops passing must not keep working offline from an older cache entry.
+      if (result.status === 'ok') writeCachedCheck(storage, key, hwid, result);
+      else clearCachedCheck(storage, key, hwid);
+      return result;
+    } catch (err) {
+      if (err instanceof LicenseServerUnavailableError) return fromCache(key, hwid, err);
+      throw err;
+    }
+  };
+
+  return {
+    // Takes a seat for `hwid` if one is free; re-activating a bound machine is a no-op.
+    activate: (licenseKey: string, hwid: string, context?: CheckInContext) => check('sdk_activate', licenseKey, hwid, context),
+
+    // Checks a machine that was activated before, without taking a seat.
+    validate: (licenseKey: string, hwid: string, context?: CheckInContext) => check('sdk_validate', licenseKey, hwid, context),
+
+    // Frees the seat. Needs the server, and the token saved in `storage` when this machine
+    // was activated; without it the result is 'hwid_mismatch'.
+    deactivate: async (licenseKey: string, hwid: string, context?: CheckInContext): Promise<LicenseCheckResult> => {
+      const key = licenseKey.trim();
+      const token = readDeactivationToken(storage, key, hwid);
+      const result = toResult(await callRpc('sdk_deactivate', key, hwid, context, { p_deactivation_token: token }), now());
+      clearCachedCheck(storage, key, hwid);
+      if (result.status === 'ok') clearDeactivationToken(storage, key, hwid);
+      return result;
+    },
+  };
+};
+
+export type LicenseClient = ReturnType<typeof createLicenseClient>;
@@ -0,0 +1,10 @@
+/**
+ * The license server could not be reached and no cached result was recent enough to
+ * use instead. Apps usually show a "connect to the internet" prompt for this one.
+ */
+export class LicenseServerUnavailableError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'LicenseServerUnavailableError';
+  }
+}
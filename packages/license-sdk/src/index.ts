@@ -0,0 +1,15 @@
+export { createLicenseClient } from './client';
+export type { LicenseClient } from './client';
+export { createMemoryStorage } from './cache';
+export { LicenseServerUnavailableError } from './errors';
+export type {
+  CheckInContext,
+  LicenseCacheStorage,
+  LicenseCheckResult,
+  LicenseCheckStatus,
+  LicenseClientOptions,
+  LicensedKey,
+} from './types';
+export type { LicenseStatus } from '../../../services/licenseStatus';
+export { decodeOfflineToken, importVerifyKey, verifyOfflineToken } from '../../../services/offlineToken';
+export type { OfflineTokenCheck, OfflineTokenPayload, OfflineTokenStatus } from '../../../services/offlineToken';
@@ -0,0 +1,51 @@
+import type { License } from '../../../types';
+import type { LicenseStatus } from '../../../services/licenseStatus';
+
+export type LicenseCheckStatus = 'ok' | 'expired' | 'hwid_mismatch' | 'not_found' | 'revoked';
+
+/**
+ * The part of a license the server shares with apps. Customer details and notes are
+ * never sent to clients.
+ */
+export type LicensedKey = Pick<
+  License,
+  'license_key' | 'expires_at' | 'hwid' | 'max_activations' | 'activations' | 'product_id' | 'plan_id' | 'features'
+>;
+
+export interface LicenseCheckResult {
+  status: LicenseCheckStatus;
+  license: LicensedKey | null;
+  // Same status the dashboard shows, e.g. 'expiring' so the app can ask the user to renew.
+  licenseStatus: LicenseStatus | null;
+  // 'cache' when the server was unreachable and a recent successful check was reused.
+  source: 'server' | 'cache';
+  checkedAt: string;
+}
+
+// Anything shaped like `localStorage` works, including a small file-backed adapter in Node.
+export interface LicenseCacheStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// Optional details logged with each check-in and shown on the license's timeline.
+// Send a coarse IP (e.g. with the last octet zeroed) or just a country code.
+export interface CheckInContext {
+  appVersion?: string;
+  ip?: string;
+  country?: string;
+}
+
+export interface LicenseClientOptions {
+  // Supabase project URL and anon key; the anon key can only call the sdk_* functions.
+  url: string;
+  anonKey: string;
+  // How long a successful check keeps the app unlocked while offline. Defaults to 7 days.
+  offlineGracePeriodMs?: number;
+  // Default app version for every call; a per-call `CheckInContext` overrides it.
+  appVersion?: string;
+  storage?: LicenseCacheStorage;
+  fetch?: typeof fetch;
+  now?: () => Date;
+}
@@ -0,0 +1,69 @@
+import type { ReminderChannelType } from '../../../types';
+import type { ReminderMessage } from '../../../services/reminders';
+import { SmtpOptions, sendMail } from './smtp';
+
+/**
+ * Delivers one reminder. Throws when the channel refused it, so it is retried next run.
+ */
+export type ReminderSender = (message: ReminderMessage) => Promise<void>;
+
+export type ReminderSenders = Partial<Record<ReminderChannelType, ReminderSender>>;
+
+const postJson = async (fetchImpl: typeof fetch, url: string, body: unknown, headers: Record<string, string> = {}) => {
+  const response = await fetchImpl(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) throw new Error(`${url} responded with ${response.status}: ${(await response.text()).slice(0, 200)}`);
+};
+
+export const createEmailSender = (smtp: SmtpOptions): ReminderSender => async message => {
+  if (message.channel.type !== 'email') throw new Error(`Email sender got a ${message.channel.type} channel`);
+  const { config } = message.channel;
+  const to = config.recipient === 'customer' ? message.license.customer_email : config.address;
+  if (!to) throw new Error(`No email address for ${message.license.license_key}`);
+  await sendMail(smtp, { to, subject: message.subject, text: message.body });
+};
+
+/**
+ * Posts the reminder and the license as JSON, for automation tools and CRMs.
+ */
+export const createWebhookSender = (fetchImpl: typeof fetch = fetch): ReminderSender => async message => {
+  if (message.channel.type !== 'webhook') throw new Error(`Webhook sender got a ${message.channel.type} channel`);
+  const { config } = message.channel;
+  const { license } = message;
+  await postJson(fetchImpl, config.url, {
+    event: 'license.expiry_reminder',
+    threshold_days: message.threshold,
+    days_left: message.daysLeft,
+    subject: message.subject,
+    body: message.body,
+    license: {
+      license_key: license.license_key,
+      expires_at: license.expires_at,
+      customer_name: license.customer_name ?? null,
+      customer_email: license.customer_email ?? null,
+      order_id: license.order_id ?? null,
+      product_id: license.product_id ?? null,
+      plan_id: license.plan_id ?? null,
+    },
+  }, config.secret ? { Authorization: `Bearer ${config.secret}` } : {});
+};
+
+/**
+ * Chat bots over HTTP: Telegram's `sendMessage`, or the Zalo OA message API.
+ */
+export const createBotSender = (fetchImpl: typeof fetch = fetch): ReminderSender => async message => {
+  if (message.channel.type !== 'bot') throw new Error(`Bot sender got a ${message.channel.type} channel`);
+  const { config } = message.channel;
+  const text = `${message.subject}\n\n${message.body}`;
+  if (config.format === 'zalo') {
+    await postJson(fetchImpl, config.url, {
+      recipient: { user_id: config.chat_id },
+      message: { text },
+    }, config.access_token ? { access_token: config.access_token } : {});
+    return;
+  }
+  await postJson(fetchImpl, config.url, { chat_id: config.chat_id, text });
+};
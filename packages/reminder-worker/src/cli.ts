@@ -0,0 +1,52 @@
+// Entry point for cron or a scheduled job: `tsx src/cli.ts [--dry-run]`.
+import { ReminderSenders, createBotSender, createEmailSender, createWebhookSender } from './channels';
+import { runReminders } from './worker';
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+const createSenders = (): ReminderSenders => {
+  const senders: ReminderSenders = { webhook: createWebhookSender(), bot: createBotSender() };
+  // Without SMTP settings, email channels fail and are retried once it is configured.
+  if (process.env.SMTP_HOST) {
+    const secure = process.env.SMTP_SECURE === 'true';
+    senders.email = createEmailSender({
+      host: process.env.SMTP_HOST,
+      port: Number(process.env.SMTP_PORT || (secure ? 465 : 25)),
+      secure,
+      user: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: requireEnv('SMTP_FROM'),
+    });
+  }
+  return senders;
+};
+
+const main = async () => {
+  const dryRun = process.argv.includes('--dry-run');
+  const result = await runReminders({
+    url: requireEnv('SUPABASE_URL'),
+    serviceKey: requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+    senders: createSenders(),
+    dryRun,
+  });
+
+  result.planned.forEach(message => {
+    console.log(`${dryRun ? '[dry run] ' : ''}${message.license.license_key} · ${message.threshold}d · ${message.channel.name}: ${message.subject}`);
+  });
+  result.failed.forEach(({ message, error }) => {
+    console.error(`failed: ${message.license.license_key} · ${message.channel.name}: ${error}`);
+  });
+  console.log(dryRun
+    ? `${result.planned.length} reminder(s) due`
+    : `${result.sent} sent, ${result.failed.length} failed`);
+  if (result.failed.length > 0) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
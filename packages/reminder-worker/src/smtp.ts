@@ -0,0 +1,109 @@
+import net from 'node:net';
+import tls from 'node:tls';
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465). STARTTLS is not supported; use a local relay for that.
+  secure?: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+  // Name sent with EHLO.
+  clientName?: string;
+  timeoutMs?: number;
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+const DEFAULT_TIMEOUT_MS = 15_000;
+
+// Subjects are Vietnamese, so non-ASCII header values use RFC 2047 encoded words.
+const encodeHeader = (value: string) =>
+  /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+
+const wrapBase64 = (value: string) => value.match(/.{1,76}/g)?.join('\r\n') ?? '';
+
+const formatMessage = (from: string, message: MailMessage) => [
+  `From: ${from}`,
+  `To: ${message.to}`,
+  `Subject: ${encodeHeader(message.subject)}`,
+  `Date: ${new Date().toUTCString()}`,
+  `Message-ID: <${crypto.randomUUID()}@${from.split('@')[1]?.replace(/>$/, '') ?? 'localhost'}>`,
+  'MIME-Version: 1.0',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  wrapBase64(Buffer.from(message.text, 'utf8').toString('base64')),
+].join('\r\n');
+
+// The bare address from `Name <address>`.
+const envelopeAddress = (value: string) => value.match(/<([^>]+)>/)?.[1] ?? value.trim();
+
+/**
+ * Sends one message over a fresh connection. Enough for a reminder run against a
+ * local stand-in such as MailHog or smtp4dev, or a provider's implicit-TLS port.
+ */
+export const sendMail = (options: SmtpOptions, message: MailMessage): Promise<void> => new Promise((resolve, reject) => {
+  const socket = options.secure
+    ? tls.connect({ host: options.host, port: options.port, servername: options.host })
+    : net.connect({ host: options.host, port: options.port });
+  socket.setEncoding('utf8');
+  socket.setTimeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('SMTP server timed out')));
+
+  const auth = options.user
+    ? [`AUTH PLAIN ${Buffer.from(`\0${options.user}\0${options.password ?? ''}`).toString('base64')}`]
+    : [];
+  // Each command with the reply code it must get before the next one is sent.
+  const steps: { command: string | null, expect: number }[] = [
+    { command: null, expect: 220 },
+    { command: `EHLO ${options.clientName ?? 'license-manager'}`, expect: 250 },
+    ...auth.map(command => ({ command, expect: 235 })),
+    { command: `MAIL FROM:<${envelopeAddress(options.from)}>`, expect: 250 },
+    { command: `RCPT TO:<${envelopeAddress(message.to)}>`, expect: 250 },
+    { command: 'DATA', expect: 354 },
+    // Lines starting with a dot are doubled so they are not read as the end of the data.
+    { command: `${formatMessage(options.from, message).replace(/^\./gm, '..')}\r\n.`, expect: 250 },
+  ];
+
+  let buffer = '';
+  let step = 0;
+  let settled = false;
+  const finish = (error?: Error) => {
+    if (settled) return;
+    settled = true;
+    socket.end();
+    if (error) reject(error);
+    else resolve();
+  };
+
+  socket.on('data', chunk => {
+    if (settled) return;
+    buffer += chunk;
+    // A reply is complete at a line whose code is followed by a space, not a dash.
+    const lines = buffer.split('\r\n');
+    const last = lines.findIndex(line => /^\d{3} /.test(line));
+    if (last === -1) return;
+    const reply = lines.slice(0, last + 1).join('\n');
+    buffer = lines.slice(last + 1).join('\r\n');
+
+    if (Number(lines[last].slice(0, 3)) !== steps[step].expect) {
+      finish(new Error(`SMTP ${steps[step].command?.split(' ')[0] ?? 'greeting'} failed: ${reply}`));
+      return;
+    }
+    step++;
+    // The message is accepted once its data is answered; the QUIT reply is not awaited.
+    if (step === steps.length) {
+      socket.write('QUIT\r\n');
+      finish();
+      return;
+    }
+    socket.write(`${steps[step].command}\r\n`);
+  });
+  socket.on('error', err => finish(err));
+  socket.on('close', () => finish(new Error('SMTP connection closed early')));
+});
@@ -0,0 +1,115 @@
+import type { License, ReminderChannel, ReminderLogEntry, ReminderSettings } from '../../../types';
+import {
+  MISSED_REMINDER_GRACE_DAYS,
+  ReminderMessage,
+  planReminders,
+  reminderKey,
+  reminderLookaheadDays,
+} from '../../../services/reminders';
+import { ReminderSenders } from './channels';
+
+export interface ReminderRunOptions {
+  url: string;
+  // Service role key: the reminder tables are admin-only under RLS.
+  serviceKey: string;
+  senders: ReminderSenders;
+  // Plan and report without sending or logging anything.
+  dryRun?: boolean;
+  now?: Date;
+  fetch?: typeof fetch;
+}
+
+export interface ReminderRunResult {
+  planned: ReminderMessage[];
+  sent: number;
+  failed: { message: ReminderMessage, error: string }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000;
+
+const LICENSE_COLUMNS = 'license_key,expires_at,customer_name,customer_email,order_id,product_id,plan_id,deleted_at';
+
+/**
+ * Finds every license that crossed a reminder threshold, sends through each enabled
+ * channel and records the outcome. Sent reminders are never repeated; failed ones are
+ * tried again on the next run.
+ */
+export const runReminders = async (options: ReminderRunOptions): Promise<ReminderRunResult> => {
+  const baseUrl = options.url.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+  const now = options.now ?? new Date();
+  const headers = {
+    apikey: options.serviceKey,
+    Authorization: `Bearer ${options.serviceKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  const rest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl}/rest/v1/${path}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!response.ok) throw new Error(`${path.split('?')[0]} failed with ${response.status}: ${await response.text()}`);
+    return response.status === 204 || response.status === 201 ? (undefined as T) : response.json();
+  };
+
+  // PostgREST caps each response, so longer reads are paged. `path` must carry an order
+  // that is unique per row, or rows can be skipped between pages.
+  const restAll = async <T>(path: string): Promise<T[]> => {
+    const rows: T[] = [];
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await rest<T[]>(`${path}&limit=${PAGE_SIZE}&offset=${offset}`);
+      rows.push(...page);
+      if (page.length < PAGE_SIZE) return rows;
+    }
+  };
+
+  const since = new Date(now.getTime() - (MISSED_REMINDER_GRACE_DAYS + 1) * DAY_MS).toISOString();
+
+  const [[settings], channels, log] = await Promise.all([
+    rest<ReminderSettings[]>('reminder_settings?select=thresholds,subject_template,body_template,locale&id=eq.1'),
+    rest<ReminderChannel[]>('reminder_channels?select=*&enabled=is.true'),
+    restAll<ReminderLogEntry>(`license_reminders?select=*&expires_at=gte.${encodeURIComponent(since)}&order=id.asc`),
+  ]);
+  if (!settings) throw new Error('reminder_settings is empty; apply the expiry reminders migration');
+
+  const until = new Date(now.getTime() + (reminderLookaheadDays(settings) + 1) * DAY_MS).toISOString();
+  const licenses = await restAll<License>(
+    `licenses?select=${LICENSE_COLUMNS}&deleted_at=is.null`
+    + `&expires_at=gte.${encodeURIComponent(since)}&expires_at=lte.${encodeURIComponent(until)}`
+    + '&order=expires_at.asc,license_key.asc'
+  );
+
+  const planned = planReminders({ licenses, settings, channels, log, now });
+  const result: ReminderRunResult = { planned, sent: 0, failed: [] };
+  if (options.dryRun) return result;
+
+  const attempts = new Map(log.map(entry => [reminderKey(entry.license_key, entry.expires_at, entry.threshold_days, entry.channel_id), entry.attempts]));
+  for (const message of planned) {
+    const sender = options.senders[message.channel.type];
+    let error: string | null = null;
+    try {
+      if (!sender) throw new Error(`No sender configured for ${message.channel.type} channels`);
+      await sender(message);
+      result.sent++;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      result.failed.push({ message, error });
+    }
+
+    const key = reminderKey(message.license.license_key, message.license.expires_at, message.threshold, message.channel.id);
+    await rest('license_reminders?on_conflict=license_key,expires_at,threshold_days,channel_id', {
+      method: 'POST',
+      headers: { Prefer: 'resolution=merge-duplicates,return=minimal' },
+      body: JSON.stringify({
+        license_key: message.license.license_key,
+        expires_at: message.license.expires_at,
+        threshold_days: message.threshold,
+        channel_id: message.channel.id,
+        status: error ? 'failed' : 'sent',
+        error,
+        attempts: (attempts.get(key) ?? 0) + 1,
+        sent_at: new Date().toISOString(),
+      }),
+    });
+  }
+  return result;
+};
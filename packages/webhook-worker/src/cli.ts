@@ -0,0 +1,31 @@
+// Entry point for cron or a scheduled job: `tsx src/cli.ts`.
+import { runWebhooks } from './worker';
+
+const requireEnv = (name: string) => {
+  const value = process.env[name];
+  if (!value) throw new Error(`${name} is not set`);
+  return value;
+};
+
+const main = async () => {
+  const result = await runWebhooks({
+    url: requireEnv('SUPABASE_URL'),
+    serviceKey: requireEnv('SUPABASE_SERVICE_ROLE_KEY'),
+    batchSize: process.env.WEBHOOK_BATCH_SIZE ? Number(process.env.WEBHOOK_BATCH_SIZE) : undefined,
+  });
+
+  result.retrying.forEach(({ delivery, error }) => {
+    console.warn(`retrying: #${delivery.id} ${delivery.event} ${delivery.license_key}: ${error}`);
+  });
+  result.failed.forEach(({ delivery, error }) => {
+    console.error(`failed: #${delivery.id} ${delivery.event} ${delivery.license_key}: ${error}`);
+  });
+  console.log(`${result.expiredChecked} expired key(s) checked, ${result.delivered} delivered, `
+    + `${result.retrying.length} to retry, ${result.failed.length} failed`);
+  if (result.failed.length > 0) process.exitCode = 1;
+};
+
+main().catch(err => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
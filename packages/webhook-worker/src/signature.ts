@@ -0,0 +1,17 @@
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+/**
+ * `sha256=<hex>` HMAC of `<timestamp>.<body>`. Signing the timestamp too lets receivers
+ * reject replayed requests.
+ */
+export const signPayload = (secret: string, timestamp: number, body: string) =>
+  `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+
+/**
+ * Receiver-side check, for Node services that consume these webhooks.
+ */
+export const verifySignature = (secret: string, timestamp: number, body: string, signature: string) => {
+  const expected = Buffer.from(signPayload(secret, timestamp, body));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
@@ -0,0 +1,119 @@
+import type { WebhookDelivery, WebhookEndpoint } from '../../../types';
+import {
+  DELIVERY_ID_HEADER,
+  EVENT_HEADER,
+  MAX_DELIVERY_ATTEMPTS,
+  SIGNATURE_HEADER,
+  TIMESTAMP_HEADER,
+  retryDelayMs,
+} from '../../../services/webhooks';
+import { signPayload } from './signature';
+
+export interface WebhookRunOptions {
+  url: string;
+  // Service role key: endpoints and deliveries are admin-only under RLS.
+  serviceKey: string;
+  now?: Date;
+  fetch?: typeof fetch;
+  // Deliveries sent per run; the rest wait for the next one.
+  batchSize?: number;
+  timeoutMs?: number;
+}
+
+export interface WebhookRunResult {
+  // Recently expired keys; each expiry is queued only once.
+  expiredChecked: number;
+  delivered: number;
+  // Failed this time, with attempts left.
+  retrying: WebhookAttemptFailure[];
+  // Out of attempts; only a manual redelivery sends them again.
+  failed: WebhookAttemptFailure[];
+}
+
+export interface WebhookAttemptFailure {
+  delivery: WebhookDelivery;
+  error: string;
+}
+
+type QueuedDelivery = WebhookDelivery & { endpoint: Pick<WebhookEndpoint, 'url' | 'secret'> };
+
+const DEFAULT_BATCH_SIZE = 100;
+const DEFAULT_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Queues expiry events, then sends every delivery that is due, oldest first, and
+ * records the outcome. Run it from one scheduler only: two runs at once could send a
+ * delivery twice.
+ */
+export const runWebhooks = async (options: WebhookRunOptions): Promise<WebhookRunResult> => {
+  const baseUrl = options.url.replace(/\/+$/, '');
+  const fetchImpl = options.fetch ?? fetch;
+  const now = options.now ?? new Date();
+  const headers = {
+    apikey: options.serviceKey,
+    Authorization: `Bearer ${options.serviceKey}`,
+    'Content-Type': 'application/json',
+  };
+
+  const rest = async <T>(path: string, init: RequestInit = {}): Promise<T> => {
+    const response = await fetchImpl(`${baseUrl}/rest/v1/${path}`, { ...init, headers: { ...headers, ...init.headers } });
+    if (!response.ok) throw new Error(`${path.split('?')[0]} failed with ${response.status}: ${await response.text()}`);
+    return response.status === 204 || response.status === 201 ? (undefined as T) : response.json();
+  };
+
+  const expiredChecked = await rest<number>('rpc/enqueue_expired_license_webhooks', { method: 'POST', body: '{}' });
+
+  const due = await rest<QueuedDelivery[]>(
+    'webhook_deliveries?select=*,endpoint:webhook_endpoints!inner(url,secret)'
+    + `&status=eq.pending&next_attempt_at=lte.${encodeURIComponent(now.toISOString())}&endpoint.enabled=is.true`
+    + `&order=next_attempt_at.asc&limit=${options.batchSize ?? DEFAULT_BATCH_SIZE}`
+  );
+
+  const result: WebhookRunResult = { expiredChecked, delivered: 0, retrying: [], failed: [] };
+  for (const { endpoint, ...delivery } of due) {
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(Date.now() / 1000);
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    try {
+      const response = await fetchImpl(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'LicenseManager-Webhooks/1',
+          [EVENT_HEADER]: delivery.event,
+          [DELIVERY_ID_HEADER]: delivery.payload.id,
+          [TIMESTAMP_HEADER]: String(timestamp),
+          [SIGNATURE_HEADER]: signPayload(endpoint.secret, timestamp, body),
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      responseStatus = response.status;
+      if (!response.ok) error = `${response.status}: ${(await response.text()).slice(0, 200)}`;
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+    }
+
+    const attempts = delivery.attempts + 1;
+    const update: Partial<WebhookDelivery> = { attempts, response_status: responseStatus, last_error: error };
+    if (!error) {
+      Object.assign(update, { status: 'delivered', delivered_at: new Date().toISOString() });
+      result.delivered++;
+    } else if (attempts >= MAX_DELIVERY_ATTEMPTS) {
+      update.status = 'failed';
+      result.failed.push({ delivery, error });
+    } else {
+      update.next_attempt_at = new Date(Date.now() + retryDelayMs(attempts)).toISOString();
+      result.retrying.push({ delivery, error });
+    }
+
+    await rest(`webhook_deliveries?id=eq.${delivery.id}`, {
+      method: 'PATCH',
+      headers: { Prefer: 'return=minimal' },
+      body: JSON.stringify(update),
+    });
+  }
+  return result;
+};
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AuditAction, AuditLogEntry, License } from '../types';
+import { getCurrentUserEmail } from './supabase';
+
+export type NewAuditEntry = Pick<AuditLogEntry, 'action' | 'license_key' | 'before' | 'after'>;
+
+export interface AuditLogFilters {
+  actor?: string;
+  action?: AuditAction | '';
+  licenseKey?: string;
+}
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'import', 'update', 'extend', 'rename', 'reset_hwid', 'deactivate', 'issue_offline', 'delete', 'restore', 'purge'];
+
+/**
+ * Appends entries to the audit log as the signed-in admin. Callers pass at most one
+ * batch chunk at a time. Failures are logged rather than thrown: the change itself
+ * has already been applied.
+ */
+export const recordAudit = async (client: SupabaseClient, entries: NewAuditEntry[]) => {
+  if (entries.length === 0) return;
+  try {
+    const actor_email = await getCurrentUserEmail();
+    const { error } = await client
+      .from('audit_log')
+      .insert(entries.map(entry => ({ ...entry, actor_email })));
+    if (error) throw error;
+  } catch (err) {
+    console.error('Failed to record audit log', err);
+  }
+};
+
+export const fetchAuditLog = async (
+  client: SupabaseClient,
+  filters: AuditLogFilters,
+  page: number,
+  pageSize: number
+): Promise<{ entries: AuditLogEntry[], total: number }> => {
+  let query = client
+    .from('audit_log')
+    .select('*', { count: 'exact' })
+    .order('created_at', { ascending: false })
+    .range((page - 1) * pageSize, page * pageSize - 1);
+
+  if (filters.actor) query = query.ilike('actor_email', `%${filters.actor}%`);
+  if (filters.action) query = query.eq('action', filters.action);
+  if (filters.licenseKey) query = query.ilike('license_key', `%${filters.licenseKey}%`);
+
+  const { data, error, count } = await query;
+  if (error) throw error;
+  return { entries: data || [], total: count ?? 0 };
+};
+
+export const fetchLicenseTimeline = async (client: SupabaseClient, licenseKey: string): Promise<AuditLogEntry[]> => {
+  const { data, error } = await client
+    .from('audit_log')
+    .select('*')
+    .eq('license_key', licenseKey)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Lists the fields that differ between the before and after snapshots of an entry.
+ */
+export const diffAuditEntry = (entry: Pick<AuditLogEntry, 'before' | 'after'>) => {
+  const before = (entry.before || {}) as Record<string, unknown>;
+  const after = (entry.after || {}) as Record<string, unknown>;
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return fields
+    .filter(field => JSON.stringify(before[field] ?? null) !== JSON.stringify(after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+// Columns added after the original schema; only logged when the row carries them.
+const OPTIONAL_SNAPSHOT_FIELDS: (keyof License)[] = [
+  'max_activations', 'customer_name', 'customer_email', 'order_id', 'notes', 'tags', 'product_id', 'plan_id', 'features', 'duration_days',
+];
+
+// Snapshot stored in the log; keeps entries small and free of joined data.
+export const auditSnapshot = (license: License | null | undefined): Partial<License> | null => {
+  if (!license) return null;
+  const snapshot: Partial<License> = { license_key: license.license_key, expires_at: license.expires_at, hwid: license.hwid };
+  for (const field of OPTIONAL_SNAPSHOT_FIELDS) {
+    if (license[field] !== undefined) Object.assign(snapshot, { [field]: license[field] });
+  }
+  if (license.deleted_at) snapshot.deleted_at = license.deleted_at;
+  return snapshot;
+};
@@ -0,0 +1,98 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License, Plan, Product } from '../types';
+import { ExpiryInput, addDuration, toDateInputValue, toTimeInputValue } from './expiry';
+import { ValidationError } from './errors';
+
+export interface Catalog {
+  products: Product[];
+  plans: Plan[];
+}
+
+export const EMPTY_CATALOG: Catalog = { products: [], plans: [] };
+
+// Product filter value for licenses issued before the catalog existed.
+export const NO_PRODUCT = 'none';
+
+export const fetchCatalog = async (client: SupabaseClient): Promise<Catalog> => {
+  const [products, plans] = await Promise.all([
+    client.from('products').select('*').order('name', { ascending: true }),
+    client.from('plans').select('*').order('duration_days', { ascending: true }),
+  ]);
+
+  if (products.error) throw products.error;
+  if (plans.error) throw plans.error;
+  return { products: products.data || [], plans: plans.data || [] };
+};
+
+export const saveProduct = async (client: SupabaseClient, product: Pick<Product, 'name'> & { id?: string }): Promise<Product> => {
+  const name = product.name.trim();
+  if (!name) throw new ValidationError('Product name is required', 'validation.productNameRequired');
+
+  const query = product.id
+    ? client.from('products').update({ name }).eq('id', product.id)
+    : client.from('products').insert({ name });
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deleteProduct = async (client: SupabaseClient, id: string) => {
+  const { error } = await client.from('products').delete().eq('id', id);
+  if (error) throw error;
+};
+
+export const savePlan = async (client: SupabaseClient, plan: Omit<Plan, 'id' | 'created_at'> & { id?: string }): Promise<Plan> => {
+  const name = plan.name.trim();
+  if (!name) throw new ValidationError('Plan name is required', 'validation.planNameRequired');
+  if (!Number.isInteger(plan.duration_days) || plan.duration_days < 1) throw new ValidationError('Plan duration must be a positive number of days', 'validation.planDuration');
+  if (!Number.isInteger(plan.max_activations) || plan.max_activations < 1) throw new ValidationError('Plan seat count must be a positive whole number', 'validation.planSeats');
+
+  const { id, ...fields } = plan;
+  const payload = { ...fields, name };
+  const query = id
+    ? client.from('plans').update(payload).eq('id', id)
+    : client.from('plans').insert(payload);
+  const { data, error } = await query.select().single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const deletePlan = async (client: SupabaseClient, id: string) => {
+  const { error } = await client.from('plans').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Default expiry for a key issued on `from`: the plan duration later, at the end of that day.
+ */
+export const planExpiry = (plan: Plan, from: Date = new Date()): Date => {
+  const expiry = addDuration(from, { days: plan.duration_days });
+  expiry.setHours(23, 59, 0, 0);
+  return expiry;
+};
+
+/**
+ * Fills both the fixed expiry and the duration from `plan`, keeping the chosen mode.
+ */
+export const planExpiryInput = (plan: Plan, current: ExpiryInput): ExpiryInput => {
+  const expiry = planExpiry(plan);
+  return { ...current, expiryDate: toDateInputValue(expiry), expiryTime: toTimeInputValue(expiry), durationDays: plan.duration_days };
+};
+
+/**
+ * Columns copied onto a license when it is issued for `plan`.
+ */
+export const planDefaults = (plan: Plan): Pick<License, 'product_id' | 'plan_id' | 'max_activations' | 'features'> => ({
+  product_id: plan.product_id,
+  plan_id: plan.id,
+  max_activations: plan.max_activations,
+  features: plan.features,
+});
+
+export const productName = (catalog: Catalog, productId: string | null | undefined) =>
+  catalog.products.find(p => p.id === productId)?.name ?? null;
+
+export const planName = (catalog: Catalog, planId: string | null | undefined) =>
+  catalog.plans.find(p => p.id === planId)?.name ?? null;
@@ -0,0 +1,202 @@
+import { ConnectionEnvironment, ConnectionProfile, SupabaseCredentials } from '../types';
+import { VaultKey, createVaultKey, encryptJson, openVault } from './credentialVault';
+import type { MessageKey } from './i18n';
+import { ValidationError } from './errors';
+
+const PROFILES_STORAGE_KEY = 'sb_profiles';
+// Replaces PROFILES_STORAGE_KEY when the profiles are protected with a passphrase.
+const VAULT_STORAGE_KEY = 'sb_profiles_vault';
+const ACTIVE_PROFILE_STORAGE_KEY = 'sb_active_profile';
+
+// Single pair saved by earlier versions; moved into a profile on first read.
+const LEGACY_URL_KEY = 'sb_url';
+const LEGACY_KEY_KEY = 'sb_key';
+
+// Profile built from VITE_SUPABASE_URL / VITE_SUPABASE_ANON_KEY. Its credentials always
+// come from the build; only its name and environment can be changed.
+export const ENV_PROFILE_ID = 'env';
+
+export const CONNECTION_ENVIRONMENTS: ConnectionEnvironment[] = ['production', 'staging', 'development'];
+
+export const ENVIRONMENT_BADGES: Record<ConnectionEnvironment, { label: string, className: string, stripe: string }> = {
+  production: { label: 'PRODUCTION', className: 'bg-red-500/15 text-red-300 border-red-500/40', stripe: 'bg-red-500' },
+  staging: { label: 'STAGING', className: 'bg-yellow-500/15 text-yellow-300 border-yellow-500/40', stripe: 'bg-yellow-500' },
+  development: { label: 'DEV', className: 'bg-blue-500/15 text-blue-300 border-blue-500/40', stripe: 'bg-blue-500' },
+};
+
+// Decrypted profiles while the vault is unlocked. Writes update this copy and are
+// re-encrypted into localStorage in the background, in order.
+let vault: { key: VaultKey, profiles: ConnectionProfile[] } | null = null;
+let vaultWrites = Promise.resolve();
+
+export const hasVault = () => localStorage.getItem(VAULT_STORAGE_KEY) !== null;
+
+export const isVaultLocked = () => hasVault() && !vault;
+
+const readStoredProfiles = (): ConnectionProfile[] => {
+  if (vault) return [...vault.profiles];
+  if (hasVault()) return [];
+
+  try {
+    const raw = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (raw) return JSON.parse(raw);
+  } catch (e) {
+    console.error('Failed to read connection profiles', e);
+  }
+
+  const url = localStorage.getItem(LEGACY_URL_KEY);
+  const key = localStorage.getItem(LEGACY_KEY_KEY);
+  if (!url || !key) return [];
+
+  // Unknown projects are labelled production so nobody treats them carelessly.
+  const migrated: ConnectionProfile[] = [{ id: crypto.randomUUID(), name: '', url, key, environment: 'production' }];
+  writeStoredProfiles(migrated);
+  localStorage.removeItem(LEGACY_URL_KEY);
+  localStorage.removeItem(LEGACY_KEY_KEY);
+  return migrated;
+};
+
+const writeStoredProfiles = (profiles: ConnectionProfile[]) => {
+  if (isVaultLocked()) throw new ValidationError('Saved connections are locked', 'validation.vaultLocked');
+  if (!vault) {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(profiles));
+    return;
+  }
+
+  const current = vault;
+  current.profiles = profiles;
+  vaultWrites = vaultWrites
+    .then(async () => {
+      const blob = await encryptJson(current.key, current.profiles);
+      // Skip writes queued before the vault was turned off or the device forgotten.
+      if (vault === current) localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(blob));
+    })
+    .catch(e => console.error('Failed to encrypt connection profiles', e));
+};
+
+/**
+ * Decrypts the saved profiles for this session. Throws on a wrong passphrase.
+ */
+export const unlockVault = async (passphrase: string) => {
+  const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+  if (!raw) return;
+  const { vaultKey, value } = await openVault<ConnectionProfile[]>(JSON.parse(raw), passphrase);
+  vault = { key: vaultKey, profiles: value };
+};
+
+/**
+ * Encrypts the saved profiles with `passphrase` and removes the plaintext copy.
+ */
+export const enableVault = async (passphrase: string) => {
+  if (hasVault()) throw new ValidationError('Saved connections are already encrypted', 'validation.vaultExists');
+  const profiles = readStoredProfiles();
+  const key = await createVaultKey(passphrase);
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(await encryptJson(key, profiles)));
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+  vault = { key, profiles };
+};
+
+/**
+ * Stores the profiles in plaintext again. The vault must be unlocked.
+ */
+export const disableVault = () => {
+  if (!vault) throw new ValidationError('Saved connections are locked', 'validation.vaultLocked');
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(vault.profiles));
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  vault = null;
+};
+
+/**
+ * "Forget this device": removes every saved profile, the vault and the Supabase login
+ * sessions kept in this browser.
+ */
+export const clearCredentials = () => {
+  [PROFILES_STORAGE_KEY, VAULT_STORAGE_KEY, ACTIVE_PROFILE_STORAGE_KEY, LEGACY_URL_KEY, LEGACY_KEY_KEY]
+    .forEach(key => localStorage.removeItem(key));
+  // supabase-js keeps each project's session under `sb-<project ref>-auth-token`.
+  Object.keys(localStorage)
+    .filter(key => /^sb-.+-auth-token$/.test(key))
+    .forEach(key => localStorage.removeItem(key));
+  vault = null;
+};
+
+/**
+ * Reads `sb_url` / `sb_key` from the address bar and removes them with `replaceState`,
+ * so the key does not stay in the history or leak through the Referer header.
+ */
+export const takeCredentialParams = (): SupabaseCredentials | null => {
+  const url = new URL(window.location.href);
+  const creds = { url: url.searchParams.get('sb_url'), key: url.searchParams.get('sb_key') };
+  if (!url.searchParams.has('sb_url') && !url.searchParams.has('sb_key')) return null;
+
+  url.searchParams.delete('sb_url');
+  url.searchParams.delete('sb_key');
+  window.history.replaceState(window.history.state, '', url.toString());
+  return creds.url && creds.key ? { url: creds.url, key: creds.key } : null;
+};
+
+/**
+ * Name to show for a profile. The ones the dashboard creates by itself are stored
+ * without a name and labelled in the current language.
+ */
+export const profileDisplayName = (profile: ConnectionProfile, t: (key: MessageKey) => string) =>
+  profile.name || t(profile.id === ENV_PROFILE_ID ? 'profiles.envName' : 'profiles.defaultName');
+
+/**
+ * Saved profiles, with the build-time profile first when `envCredentials` is given.
+ */
+export const getProfiles = (envCredentials: SupabaseCredentials | null): ConnectionProfile[] => {
+  const stored = readStoredProfiles();
+  const saved = stored.filter(p => p.id !== ENV_PROFILE_ID);
+  if (!envCredentials) return saved;
+
+  const envOverrides = stored.find(p => p.id === ENV_PROFILE_ID);
+  return [
+    {
+      id: ENV_PROFILE_ID,
+      name: envOverrides?.name ?? '',
+      environment: envOverrides?.environment ?? 'production',
+      ...envCredentials,
+    },
+    ...saved,
+  ];
+};
+
+/**
+ * Adds or updates a profile. Throws if the name, URL or key is missing.
+ */
+export const saveProfile = (profile: Omit<ConnectionProfile, 'id'> & { id?: string }): ConnectionProfile => {
+  const name = profile.name.trim();
+  const url = profile.url.trim();
+  const key = profile.key.trim();
+  if (!name) throw new ValidationError('Profile name is required', 'validation.profileNameRequired');
+  if (profile.id !== ENV_PROFILE_ID && (!url || !key)) throw new ValidationError('Supabase URL and anon key are required', 'validation.profileCredentialsRequired');
+
+  const saved: ConnectionProfile = { ...profile, id: profile.id ?? crypto.randomUUID(), name, url, key };
+  const profiles = readStoredProfiles();
+  const index = profiles.findIndex(p => p.id === saved.id);
+  if (index >= 0) profiles[index] = saved;
+  else profiles.push(saved);
+  // The build-time profile only keeps its label; credentials stay in the build.
+  writeStoredProfiles(profiles.map(p => p.id === ENV_PROFILE_ID ? { ...p, url: '', key: '' } : p));
+  return saved;
+};
+
+export const deleteProfile = (id: string) => {
+  writeStoredProfiles(readStoredProfiles().filter(p => p.id !== id));
+  if (getActiveProfileId() === id) localStorage.removeItem(ACTIVE_PROFILE_STORAGE_KEY);
+};
+
+/**
+ * Profile for credentials passed in the URL: reuses a saved profile for the same
+ * project, otherwise saves a new one named after the project host.
+ */
+export const saveProfileForCredentials = (creds: SupabaseCredentials): ConnectionProfile => {
+  const existing = readStoredProfiles().find(p => p.url === creds.url && p.id !== ENV_PROFILE_ID);
+  if (existing) return saveProfile({ ...existing, key: creds.key });
+  return saveProfile({ name: new URL(creds.url).hostname.split('.')[0], environment: 'production', ...creds });
+};
+
+export const getActiveProfileId = () => localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY);
+
+export const setActiveProfileId = (id: string) => localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, id);
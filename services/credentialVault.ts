@@ -0,0 +1,75 @@
+// Passphrase encryption for data kept in localStorage: PBKDF2-SHA-256 derives an
+// AES-GCM key, and every write uses a fresh IV.
+
+import { ValidationError } from './errors';
+
+export interface EncryptedBlob {
+  v: 1;
+  salt: string;
+  iterations: number;
+  iv: string;
+  data: string;
+}
+
+export interface VaultKey {
+  key: CryptoKey;
+  salt: string;
+  iterations: number;
+}
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary);
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: 'SHA-256', salt, iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt'],
+  );
+};
+
+/**
+ * Derives a key for a new vault with a random salt. Throws if the passphrase is empty.
+ */
+export const createVaultKey = async (passphrase: string): Promise<VaultKey> => {
+  if (!passphrase) throw new ValidationError('Passphrase is required', 'validation.passphraseRequired');
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  return { key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS), salt: toBase64(salt), iterations: PBKDF2_ITERATIONS };
+};
+
+/**
+ * Derives the key for an existing blob and checks it by decrypting. Throws on a wrong passphrase.
+ */
+export const openVault = async <T>(blob: EncryptedBlob, passphrase: string): Promise<{ vaultKey: VaultKey, value: T }> => {
+  const vaultKey = { key: await deriveKey(passphrase, fromBase64(blob.salt), blob.iterations), salt: blob.salt, iterations: blob.iterations };
+  return { vaultKey, value: await decryptJson<T>(vaultKey, blob) };
+};
+
+export const encryptJson = async (vaultKey: VaultKey, value: unknown): Promise<EncryptedBlob> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const plaintext = new TextEncoder().encode(JSON.stringify(value));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, vaultKey.key, plaintext));
+  return { v: 1, salt: vaultKey.salt, iterations: vaultKey.iterations, iv: toBase64(iv), data: toBase64(ciphertext) };
+};
+
+export const decryptJson = async <T>(vaultKey: VaultKey, blob: EncryptedBlob): Promise<T> => {
+  try {
+    const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(blob.iv) }, vaultKey.key, fromBase64(blob.data));
+    return JSON.parse(new TextDecoder().decode(plaintext));
+  } catch {
+    // AES-GCM authentication fails the same way for a wrong key and for tampered data.
+    throw new ValidationError('Wrong passphrase or corrupted data', 'validation.wrongPassphrase');
+  }
+};
@@ -0,0 +1,16 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+import type { MessageKey, MessageParams } from './i18n';
+
+/**
+ * Input the service layer refuses. `message` stays in English for logs and for callers
+ * outside the dashboard; `describeError` shows the catalog message for `key` instead.
+ */
+export class ValidationError extends Error {
+  constructor(message: string, readonly key: MessageKey, readonly params?: MessageParams) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// Why one key of a batch failed: a rule of ours, or what the database returned.
+export type KeyError = ValidationError | PostgrestError;
@@ -0,0 +1,78 @@
+import type { I18n } from './i18n';
+import { License } from '../types';
+
+export interface Duration {
+  days?: number;
+  months?: number;
+  years?: number;
+}
+
+export type ExtensionBase = 'current' | 'today';
+
+export const QUICK_EXTENSIONS: Duration[] = [
+  { days: 30 },
+  { days: 90 },
+  { years: 1 },
+];
+
+/**
+ * "+30 ngày", "+1 year"... for a duration in a single unit.
+ */
+export const extensionLabel = (duration: Duration, t: I18n['t']) => {
+  if (duration.years) return t('duration.plusYears', { count: duration.years });
+  if (duration.months) return t('duration.plusMonths', { count: duration.months });
+  return t('duration.plusDays', { count: duration.days ?? 0 });
+};
+
+export const addDuration = (date: Date, duration: Duration): Date => {
+  const result = new Date(date);
+  if (duration.years) result.setFullYear(result.getFullYear() + duration.years);
+  if (duration.months) result.setMonth(result.getMonth() + duration.months);
+  if (duration.days) result.setDate(result.getDate() + duration.days);
+  return result;
+};
+
+/**
+ * Computes a new expiry. Extending from `today` keeps the time of day of the current
+ * expiry so renewed keys still run out at the same hour.
+ */
+export const extendExpiry = (currentExpiry: string, duration: Duration, base: ExtensionBase, now: Date = new Date()): Date => {
+  const current = new Date(currentExpiry);
+  if (base === 'current') return addDuration(current, duration);
+
+  const start = new Date(now);
+  start.setHours(current.getHours(), current.getMinutes(), 0, 0);
+  return addDuration(start, duration);
+};
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+
+// Values for <input type="date"> and <input type="time">, in local time.
+export const toDateInputValue = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+export const toTimeInputValue = (date: Date) => `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+
+export const fromDateTimeInputs = (date: string, time: string) => new Date(`${date}T${time}:00`);
+
+// 'duration' keys get their expiry on first activation, `durationDays` after it.
+export type ExpiryMode = 'fixed' | 'duration';
+
+export interface ExpiryInput {
+  mode: ExpiryMode;
+  expiryDate: string;
+  expiryTime: string;
+  durationDays: number;
+}
+
+export const TRIAL_DAYS = 7;
+
+export const DURATION_PRESETS = [TRIAL_DAYS, 30, 90, 365];
+
+export const EMPTY_EXPIRY_INPUT: ExpiryInput = { mode: 'fixed', expiryDate: '', expiryTime: '23:59', durationDays: 365 };
+
+/**
+ * The expiry columns of a new license: a fixed `expires_at`, or a `duration_days` that
+ * the database turns into one when the first machine is bound.
+ */
+export const toExpiryColumns = (input: ExpiryInput): Pick<License, 'expires_at' | 'duration_days'> => input.mode === 'duration'
+  ? { expires_at: null, duration_days: input.durationDays }
+  : { expires_at: fromDateTimeInputs(input.expiryDate, input.expiryTime).toISOString(), duration_days: null };
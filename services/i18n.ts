@@ -0,0 +1,149 @@
+import { vi } from '../locales/vi';
+import { en } from '../locales/en';
+import { ValidationError } from './errors';
+
+export type Locale = 'vi' | 'en';
+
+export type MessageKey = keyof typeof vi;
+
+// Vietnamese has no plural forms; other catalogs may give `one`/`other` for a `{count}`.
+export type Message = string | { one: string, other: string };
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export const LOCALES: Locale[] = ['vi', 'en'];
+
+export const DEFAULT_LOCALE: Locale = 'vi';
+
+// Each language's own name, so the switcher reads the same whatever is selected.
+export const LOCALE_NAMES: Record<Locale, string> = {
+  vi: 'Tiếng Việt',
+  en: 'English',
+};
+
+const CATALOGS: Record<Locale, Messages> = { vi, en };
+
+// BCP 47 tags for Intl formatting.
+const INTL_LOCALES: Record<Locale, string> = {
+  vi: 'vi-VN',
+  en: 'en-US',
+};
+
+const STORAGE_KEY = 'locale';
+
+export const isLocale = (value: unknown): value is Locale => LOCALES.includes(value as Locale);
+
+export const intlLocale = (locale: Locale) => INTL_LOCALES[locale];
+
+/**
+ * The language picked on this device, or the browser's when it is one we have.
+ */
+export const getStoredLocale = (): Locale => {
+  const stored = localStorage.getItem(STORAGE_KEY);
+  if (isLocale(stored)) return stored;
+  const browser = navigator.language?.slice(0, 2);
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+export const saveLocale = (locale: Locale) => {
+  localStorage.setItem(STORAGE_KEY, locale);
+};
+
+export const formatNumber = (value: number, locale: Locale, options?: Intl.NumberFormatOptions) =>
+  new Intl.NumberFormat(intlLocale(locale), options).format(value);
+
+/**
+ * Fills `{name}` placeholders. Numbers are formatted for the locale, and `{count}`
+ * picks the plural form where the catalog has one.
+ */
+export const translate = (locale: Locale, key: MessageKey, params?: MessageParams): string => {
+  const message = CATALOGS[locale][key] ?? vi[key];
+  const text = typeof message === 'string'
+    ? message
+    : message[new Intl.PluralRules(intlLocale(locale)).select(Number(params?.count ?? 0)) === 'one' ? 'one' : 'other'];
+  if (!params) return text;
+  return text.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = params[name];
+    if (value === undefined) return match;
+    return typeof value === 'number' ? formatNumber(value, locale) : value;
+  });
+};
+
+export const formatDate = (value: string | Date, locale: Locale) =>
+  new Date(value).toLocaleDateString(intlLocale(locale));
+
+export const formatDateTime = (value: string | Date, locale: Locale) =>
+  new Date(value).toLocaleString(intlLocale(locale));
+
+export const formatPercent = (value: number, locale: Locale) =>
+  formatNumber(value, locale, { style: 'percent', maximumFractionDigits: 0 });
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Short relative time such as "3 days ago". Months are rounded to 30 days.
+ */
+export const formatRelativeTime = (value: string, locale: Locale, now: Date = new Date()) => {
+  const minutes = Math.floor((now.getTime() - new Date(value).getTime()) / MINUTE_MS);
+  if (minutes < 1) return translate(locale, 'time.justNow');
+  const format = new Intl.RelativeTimeFormat(intlLocale(locale), { numeric: 'always' });
+  if (minutes < 60) return format.format(-minutes, 'minute');
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return format.format(-hours, 'hour');
+  const days = Math.floor(hours / 24);
+  if (days < 60) return format.format(-days, 'day');
+  return format.format(-Math.floor(days / 30), 'month');
+};
+
+// Supabase Auth error codes and PostgreSQL/PostgREST codes we can explain better than
+// the raw English message. Anything else is shown as is.
+const ERROR_MESSAGES: Record<string, MessageKey> = {
+  invalid_credentials: 'error.invalidCredentials',
+  email_not_confirmed: 'error.emailNotConfirmed',
+  user_banned: 'error.userBanned',
+  over_request_rate_limit: 'error.rateLimited',
+  over_email_send_rate_limit: 'error.rateLimited',
+  session_expired: 'error.sessionExpired',
+  session_not_found: 'error.sessionExpired',
+  refresh_token_not_found: 'error.sessionExpired',
+  PGRST301: 'error.sessionExpired',
+  PGRST303: 'error.sessionExpired',
+  '42501': 'error.permissionDenied',
+  '23505': 'error.duplicate',
+  '42P01': 'error.missingTable',
+  PGRST205: 'error.missingTable',
+};
+
+export const describeError = (err: unknown, locale: Locale): string => {
+  if (err instanceof ValidationError) return translate(locale, err.key, err.params);
+  const { code, message } = (err ?? {}) as { code?: string, message?: string };
+  const key = code ? ERROR_MESSAGES[code] : undefined;
+  if (key) return translate(locale, key);
+  // fetch() rejects with a TypeError when the server cannot be reached.
+  if (err instanceof TypeError && /fetch|network/i.test(err.message)) return translate(locale, 'error.network');
+  return message || String(err);
+};
+
+export interface I18n {
+  locale: Locale;
+  t: (key: MessageKey, params?: MessageParams) => string;
+  formatDate: (value: string | Date) => string;
+  formatDateTime: (value: string | Date) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+  formatPercent: (value: number) => string;
+  formatRelativeTime: (value: string, now?: Date) => string;
+  describeError: (err: unknown) => string;
+}
+
+export const createI18n = (locale: Locale): I18n => ({
+  locale,
+  t: (key, params) => translate(locale, key, params),
+  formatDate: value => formatDate(value, locale),
+  formatDateTime: value => formatDateTime(value, locale),
+  formatNumber: (value, options) => formatNumber(value, locale, options),
+  formatPercent: value => formatPercent(value, locale),
+  formatRelativeTime: (value, now) => formatRelativeTime(value, locale, now),
+  describeError: err => describeError(err, locale),
+});
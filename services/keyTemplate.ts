@@ -0,0 +1,133 @@
+import { DEFAULT_KEY_FORMAT, KeyFormat, SAFE_ALPHABET, computeChecksum, randomString } from './keygen';
+import { ValidationError } from './errors';
+
+// Key templates are plain strings with {TOKEN} placeholders, e.g.
+// `PRO-{RAND6}-{YYYY}` or `CUST{SEQ:4}-{MON}{YYYY}`. `{CHECK}` is the checksum of the
+// random characters of the key, as computed by `computeChecksum`.
+
+export interface KeyTemplateContext {
+  seq: number;
+  date: Date;
+}
+
+/**
+ * The template that produces keys of `format`, so `validateKey` can check them. Only
+ * formats over the default alphabet can be expressed, since {RAND} draws from it.
+ */
+export const templateForFormat = (format: KeyFormat) => [
+  format.prefix,
+  ...Array.from({ length: format.groups }, () => `{RAND${format.groupLength}}`),
+  format.checksumLength > 0 ? `{CHECK${format.checksumLength}}` : '',
+].filter(Boolean).join(format.separator);
+
+// Short keys that are easy to read out over the phone, still with 40 random bits.
+export const FRIENDLY_KEY_FORMAT: KeyFormat = { ...DEFAULT_KEY_FORMAT, prefix: 'USER', groups: 2 };
+
+export const KEY_TEMPLATE_PRESETS = {
+  random: templateForFormat(DEFAULT_KEY_FORMAT),
+  friendly: templateForFormat(FRIENDLY_KEY_FORMAT),
+};
+
+export const KEY_TEMPLATE_TOKENS = ['RAND', 'NUM', 'SEQ', 'YYYY', 'YY', 'MM', 'DD', 'MON', 'CHECK'] as const;
+
+const DEFAULT_CHECK_LENGTH = 2;
+
+const MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DIGITS = '0123456789';
+const TOKEN_PATTERN = /\{([A-Z]+)(?::?(\d+))?\}/g;
+
+const pad = (value: number, width: number) => value.toString().padStart(width, '0');
+
+/**
+ * Returns the reason the template is unusable, or null when it is valid.
+ */
+export const validateKeyTemplate = (template: string): ValidationError | null => {
+  if (!template.trim()) return new ValidationError('Template is empty', 'validation.templateEmpty');
+
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    const [token, name] = match;
+    if (!(KEY_TEMPLATE_TOKENS as readonly string[]).includes(name)) {
+      return new ValidationError(`Unknown token ${token}`, 'validation.templateUnknownToken', { token });
+    }
+  }
+
+  const stripped = template.replace(TOKEN_PATTERN, '');
+  if (/[{}]/.test(stripped)) return new ValidationError('Unbalanced braces in template', 'validation.templateBraces');
+
+  return null;
+};
+
+/**
+ * True when two expansions of the template can produce different keys.
+ */
+export const isVariableTemplate = (template: string) => {
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (match[1] === 'RAND' || match[1] === 'NUM' || match[1] === 'SEQ') return true;
+  }
+  return false;
+};
+
+export const usesSequence = (template: string) => {
+  for (const match of template.matchAll(TOKEN_PATTERN)) {
+    if (match[1] === 'SEQ') return true;
+  }
+  return false;
+};
+
+export const expandKeyTemplate = (template: string, ctx: KeyTemplateContext): string => {
+  // {CHECK} covers every random character, so it is filled in once the rest is expanded.
+  let body = '';
+  const expanded = template.replace(TOKEN_PATTERN, (token, name: string, arg?: string) => {
+    const width = arg ? Number(arg) : undefined;
+    switch (name) {
+      case 'RAND': {
+        const value = randomString(width ?? 6, SAFE_ALPHABET);
+        body += value;
+        return value;
+      }
+      case 'NUM': return randomString(width ?? 3, DIGITS);
+      case 'SEQ': return pad(ctx.seq, width ?? 1);
+      case 'YYYY': return ctx.date.getFullYear().toString();
+      case 'YY': return ctx.date.getFullYear().toString().slice(-2);
+      case 'MM': return pad(ctx.date.getMonth() + 1, 2);
+      case 'DD': return pad(ctx.date.getDate(), 2);
+      case 'MON': return MONTHS[ctx.date.getMonth()];
+      default: return token;
+    }
+  });
+  return expanded.replace(TOKEN_PATTERN, (token, name: string, arg?: string) => name === 'CHECK'
+    ? computeChecksum(body, { ...DEFAULT_KEY_FORMAT, checksumLength: arg ? Number(arg) : DEFAULT_CHECK_LENGTH })
+    : token
+  ).toUpperCase();
+};
+
+/**
+ * Expands the template `count` times, re-rolling random tokens until every key in the
+ * batch is unique. Throws if the template cannot produce enough distinct keys.
+ */
+export const generateKeysFromTemplate = (
+  template: string,
+  count: number,
+  options: { startSeq?: number, date?: Date } = {}
+): string[] => {
+  const error = validateKeyTemplate(template);
+  if (error) throw error;
+  if (count > 1 && !isVariableTemplate(template)) {
+    throw new ValidationError('Template needs a {RAND}, {NUM} or {SEQ} token to generate more than one key', 'validation.templateNotVariable');
+  }
+
+  const date = options.date ?? new Date();
+  const startSeq = options.startSeq ?? 1;
+  const keys = new Set<string>();
+  const maxAttempts = count * 20;
+  let attempts = 0;
+
+  while (keys.size < count) {
+    if (attempts++ >= maxAttempts) {
+      throw new ValidationError(`Template only produced ${keys.size} unique keys out of ${count}`, 'validation.templateTooFewKeys', { unique: keys.size, count });
+    }
+    keys.add(expandKeyTemplate(template, { seq: startSeq + keys.size, date }));
+  }
+
+  return Array.from(keys);
+};
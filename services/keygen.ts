@@ -0,0 +1,147 @@
+// Secure license key generation.
+//
+// Keys are built from `crypto.getRandomValues` over an alphabet without look-alike
+// characters, split into groups, and end with a checksum segment so that typos can be
+// rejected locally before querying the database. Example with the default format:
+// `7KQD-M2XP-HV9C-4TRA-JW`.
+
+import { ValidationError } from './errors';
+
+export interface KeyFormat {
+  alphabet: string;
+  prefix: string;
+  groups: number;
+  groupLength: number;
+  separator: string;
+  checksumLength: number;
+}
+
+export type KeyValidationResult =
+  | { valid: true }
+  | { valid: false, reason: 'format' | 'checksum' };
+
+// No 0/O or 1/I look-alikes: 32 characters keeps the random sampling unbiased and cheap.
+export const SAFE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export const DEFAULT_KEY_FORMAT: KeyFormat = {
+  alphabet: SAFE_ALPHABET,
+  prefix: '',
+  groups: 4,
+  groupLength: 4,
+  separator: '-',
+  checksumLength: 2,
+};
+
+const STORAGE_KEY = 'key_format';
+
+/**
+ * Returns `length` characters drawn uniformly from `alphabet` using the Web Crypto RNG.
+ * Bytes that would bias the distribution are rejected and redrawn.
+ */
+export const randomString = (length: number, alphabet: string = SAFE_ALPHABET): string => {
+  if (alphabet.length < 2 || alphabet.length > 256) {
+    throw new ValidationError('Alphabet must contain between 2 and 256 characters', 'validation.alphabetLength');
+  }
+
+  const limit = 256 - (256 % alphabet.length);
+  let out = '';
+  while (out.length < length) {
+    const bytes = crypto.getRandomValues(new Uint8Array(length * 2));
+    for (const byte of bytes) {
+      if (byte >= limit) continue;
+      out += alphabet[byte % alphabet.length];
+      if (out.length === length) break;
+    }
+  }
+  return out;
+};
+
+// Luhn mod N: catches every single-character substitution and most adjacent swaps.
+const luhnCheckChar = (input: string, alphabet: string) => {
+  const n = alphabet.length;
+  let factor = 2;
+  let sum = 0;
+  for (let i = input.length - 1; i >= 0; i--) {
+    let addend = factor * alphabet.indexOf(input[i]);
+    factor = factor === 2 ? 1 : 2;
+    addend = Math.floor(addend / n) + (addend % n);
+    sum += addend;
+  }
+  return alphabet[(n - (sum % n)) % n];
+};
+
+// FNV-1a, used to extend the checksum beyond the single Luhn character.
+const fnv1a = (input: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+};
+
+/**
+ * Computes the checksum segment for the random body of a key (without separators or prefix).
+ */
+export const computeChecksum = (body: string, format: KeyFormat = DEFAULT_KEY_FORMAT): string => {
+  const { alphabet, checksumLength } = format;
+  if (checksumLength <= 0) return '';
+
+  let checksum = luhnCheckChar(body, alphabet);
+  let hash = fnv1a(body);
+  while (checksum.length < checksumLength) {
+    checksum += alphabet[hash % alphabet.length];
+    hash = Math.floor(hash / alphabet.length) || fnv1a(body + checksum);
+  }
+  return checksum;
+};
+
+export const generateSecureKey = (format: KeyFormat = DEFAULT_KEY_FORMAT): string => {
+  const groups = Array.from({ length: format.groups }, () => randomString(format.groupLength, format.alphabet));
+  const checksum = computeChecksum(groups.join(''), format);
+  const segments = [format.prefix, ...groups, checksum].filter(Boolean);
+  return segments.join(format.separator);
+};
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\-]/g, '\\$&');
+
+/**
+ * Checks a typed key against the configured format. Keys are compared case-insensitively.
+ * `format` means the key does not have the expected shape at all (e.g. a legacy key),
+ * `checksum` means it has the right shape but was most likely mistyped.
+ */
+export const validateKey = (key: string, format: KeyFormat = DEFAULT_KEY_FORMAT): KeyValidationResult => {
+  const normalized = key.trim().toUpperCase();
+  const charClass = `[${escapeRegExp(format.alphabet)}]`;
+  const sep = escapeRegExp(format.separator);
+  const parts = [
+    format.prefix ? escapeRegExp(format.prefix.toUpperCase()) : null,
+    ...Array.from({ length: format.groups }, () => `(${charClass}{${format.groupLength}})`),
+    format.checksumLength > 0 ? `(${charClass}{${format.checksumLength}})` : null,
+  ].filter(Boolean);
+
+  const match = new RegExp(`^${parts.join(sep)}$`).exec(normalized);
+  if (!match) return { valid: false, reason: 'format' };
+  if (format.checksumLength <= 0) return { valid: true };
+
+  const captured = match.slice(1);
+  const checksum = captured.pop()!;
+  if (computeChecksum(captured.join(''), format) !== checksum) {
+    return { valid: false, reason: 'checksum' };
+  }
+  return { valid: true };
+};
+
+export const getStoredKeyFormat = (): KeyFormat => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) return { ...DEFAULT_KEY_FORMAT, ...JSON.parse(raw) };
+  } catch (e) {
+    console.error('Failed to read key format', e);
+  }
+  return DEFAULT_KEY_FORMAT;
+};
+
+export const saveKeyFormat = (format: KeyFormat) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(format));
+};
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { auditSnapshot, recordAudit } from './auditLog';
+import { ValidationError } from './errors';
+
+// Embedded select used wherever the dashboard lists licenses.
+export const LICENSE_WITH_ACTIVATIONS = '*, activations:license_activations(*)';
+
+/**
+ * Frees a single seat. The database keeps the legacy `hwid` column pointing at one of
+ * the remaining machines.
+ */
+export const deactivateMachine = async (client: SupabaseClient, license: License, hwid: string) => {
+  const { data, error } = await client
+    .from('license_activations')
+    .delete()
+    .eq('license_key', license.license_key)
+    .eq('hwid', hwid)
+    .select('hwid');
+
+  if (error) throw error;
+  if (!data || data.length === 0) throw new ValidationError('Activation not found or not permitted', 'validation.activationNotFound');
+
+  await recordAudit(client, [{
+    action: 'deactivate',
+    license_key: license.license_key,
+    before: { ...auditSnapshot(license), hwid },
+    after: { ...auditSnapshot(license), hwid: null },
+  }]);
+};
+
+export const setSeatLimit = async (client: SupabaseClient, license: License, maxActivations: number) => {
+  if (!Number.isInteger(maxActivations) || maxActivations < 1) {
+    throw new ValidationError('Seat limit must be a positive whole number', 'validation.seatLimit');
+  }
+
+  const { data, error } = await client
+    .from('licenses')
+    .update({ max_activations: maxActivations })
+    .eq('license_key', license.license_key)
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  await recordAudit(client, [{
+    action: 'update',
+    license_key: license.license_key,
+    before: auditSnapshot(license),
+    after: auditSnapshot(data),
+  }]);
+  return data as License;
+};
@@ -0,0 +1,145 @@
+import { License, LicenseHistoryEntry } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export interface ChartBucket {
+  label: string;
+  // One value per chart series, in series order.
+  values: number[];
+}
+
+export interface ActivationSummary {
+  // Keys created in the range with a known creation time.
+  created: number;
+  activated: number;
+  rate: number | null;
+  medianDays: number | null;
+  averageDays: number | null;
+}
+
+export interface RenewalSummary {
+  // Keys whose expiry fell due in the range (up to today).
+  due: number;
+  renewed: number;
+  rate: number | null;
+}
+
+// Date ranges offered, in months back from today.
+export const RANGE_PRESETS = [3, 6, 12, 24];
+
+export const FORECAST_DAYS = 90;
+
+export const presetRange = (months: number, now: Date = new Date()): DateRange => {
+  const from = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+  return { from, to: now };
+};
+
+const inRange = (date: Date, range: DateRange) => date >= range.from && date <= range.to;
+
+/**
+ * Time of the first machine activation, or null for keys that were never used.
+ */
+export const firstActivationAt = (license: License): Date | null => {
+  const times = (license.activations ?? []).map(a => new Date(a.first_seen_at).getTime());
+  return times.length > 0 ? new Date(Math.min(...times)) : null;
+};
+
+/**
+ * Keys expiring per week from today, `days` ahead. The last bucket may be shorter.
+ */
+export const expiryForecast = (licenses: License[], now: Date = new Date(), days: number = FORECAST_DAYS): ChartBucket[] => {
+  const start = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const buckets: ChartBucket[] = [];
+  for (let offset = 0; offset < days; offset += 7) {
+    const weekStart = new Date(start.getTime() + offset * DAY_MS);
+    buckets.push({ label: `${weekStart.getDate()}/${weekStart.getMonth() + 1}`, values: [0] });
+  }
+
+  licenses.forEach(license => {
+    if (!license.expires_at) return;
+    const diff = new Date(license.expires_at).getTime() - start.getTime();
+    if (new Date(license.expires_at) < now || diff >= days * DAY_MS) return;
+    buckets[Math.floor(diff / (7 * DAY_MS))].values[0]++;
+  });
+  return buckets;
+};
+
+/**
+ * Keys created and keys first activated, per calendar month of the range.
+ */
+export const createdVsActivated = (licenses: License[], range: DateRange): ChartBucket[] => {
+  const months: { year: number, month: number }[] = [];
+  for (let d = new Date(range.from.getFullYear(), range.from.getMonth(), 1); d <= range.to; d.setMonth(d.getMonth() + 1)) {
+    months.push({ year: d.getFullYear(), month: d.getMonth() });
+  }
+  const buckets: ChartBucket[] = months.map(m => ({ label: `${m.month + 1}/${String(m.year).slice(2)}`, values: [0, 0] }));
+  const indexOf = (date: Date) => months.findIndex(m => m.year === date.getFullYear() && m.month === date.getMonth());
+
+  licenses.forEach(license => {
+    const created = license.created_at ? new Date(license.created_at) : null;
+    if (created && inRange(created, range)) buckets[indexOf(created)].values[0]++;
+
+    const activated = firstActivationAt(license);
+    if (activated && inRange(activated, range)) buckets[indexOf(activated)].values[1]++;
+  });
+  return buckets;
+};
+
+const median = (values: number[]) => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Share of keys created in the range that have been activated, and how long that took.
+ */
+export const activationSummary = (licenses: License[], range: DateRange): ActivationSummary => {
+  const cohort = licenses.filter(l => l.created_at && inRange(new Date(l.created_at), range));
+  const delays = cohort.flatMap(license => {
+    const activated = firstActivationAt(license);
+    if (!activated) return [];
+    return [Math.max(0, (activated.getTime() - new Date(license.created_at!).getTime()) / DAY_MS)];
+  });
+
+  return {
+    created: cohort.length,
+    activated: delays.length,
+    rate: cohort.length > 0 ? delays.length / cohort.length : null,
+    medianDays: median(delays),
+    averageDays: delays.length > 0 ? delays.reduce((sum, d) => sum + d, 0) / delays.length : null,
+  };
+};
+
+/**
+ * Renewed keys over keys that came due in the range. A key counts as renewed when its
+ * history moves an expiry inside the range to a later date; a key still expired with
+ * an expiry inside the range counts as lapsed.
+ */
+export const renewalSummary = (
+  licenses: License[],
+  history: LicenseHistoryEntry[],
+  range: DateRange,
+  now: Date = new Date()
+): RenewalSummary => {
+  const dueRange = { from: range.from, to: range.to < now ? range.to : now };
+  const renewed = new Set<string>();
+  history.forEach(entry => {
+    if (!entry.previous_expires_at || !entry.new_expires_at) return;
+    const previous = new Date(entry.previous_expires_at);
+    if (new Date(entry.new_expires_at) > previous && inRange(previous, dueRange)) renewed.add(entry.license_key);
+  });
+
+  const due = new Set(renewed);
+  licenses.forEach(license => {
+    if (license.expires_at && inRange(new Date(license.expires_at), dueRange)) due.add(license.license_key);
+  });
+
+  return { due: due.size, renewed: renewed.size, rate: due.size > 0 ? renewed.size / due.size : null };
+};
@@ -0,0 +1,107 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { auditSnapshot, recordAudit } from './auditLog';
+import { KeyError, ValidationError } from './errors';
+
+export type BatchKeyStatus = 'created' | 'duplicate' | 'error';
+
+export interface BatchKeyResult {
+  license_key: string;
+  status: BatchKeyStatus;
+  error?: KeyError;
+}
+
+export const BATCH_CHUNK_SIZE = 100;
+
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
+
+/**
+ * Loads the stored rows for the given keys. Keys are queried in chunks to keep
+ * the `in` filter within URL length limits.
+ */
+export const fetchLicensesByKeys = async (client: SupabaseClient, keys: string[]): Promise<Map<string, License>> => {
+  const found = new Map<string, License>();
+  for (const part of chunk(keys, BATCH_CHUNK_SIZE)) {
+    const { data, error } = await client
+      .from('licenses')
+      .select('*')
+      .in('license_key', part);
+
+    if (error) throw error;
+    (data || []).forEach((row: License) => found.set(row.license_key, row));
+  }
+  return found;
+};
+
+/**
+ * Looks up which of the given keys already exist in the `licenses` table.
+ */
+export const findExistingKeys = async (client: SupabaseClient, keys: string[]): Promise<Set<string>> => {
+  return new Set((await fetchLicensesByKeys(client, keys)).keys());
+};
+
+const DUPLICATE_KEY = new ValidationError('Key already exists', 'licenses.keyExists');
+
+/**
+ * Inserts one chunk. A unique violation means another admin created some of these keys in
+ * the meantime: those are set aside as duplicates and the rest of the chunk is inserted again.
+ */
+const insertChunk = async (client: SupabaseClient, part: License[]) => {
+  const duplicates: License[] = [];
+  let remaining = part;
+  while (remaining.length > 0) {
+    const { error } = await client.from('licenses').insert(remaining);
+    if (!error) return { inserted: remaining, failed: [] as License[], duplicates, error };
+    if (error.code !== '23505') return { inserted: [] as License[], failed: remaining, duplicates, error };
+
+    const taken = await findExistingKeys(client, remaining.map(l => l.license_key));
+    const free = remaining.filter(l => !taken.has(l.license_key));
+    // The conflicting row is not visible to us; report the chunk instead of retrying forever.
+    if (free.length === remaining.length) return { inserted: [] as License[], failed: remaining, duplicates, error };
+    duplicates.push(...remaining.filter(l => taken.has(l.license_key)));
+    remaining = free;
+  }
+  return { inserted: [] as License[], failed: [] as License[], duplicates, error: null };
+};
+
+/**
+ * Inserts licenses chunk by chunk, skipping keys that already exist.
+ * Returns one result per input license, in input order.
+ */
+export const insertLicensesInChunks = async (
+  client: SupabaseClient,
+  licenses: License[],
+  onProgress?: (done: number, total: number) => void
+): Promise<BatchKeyResult[]> => {
+  const existing = await findExistingKeys(client, licenses.map(l => l.license_key));
+  const results = new Map<string, BatchKeyResult>();
+
+  licenses
+    .filter(l => existing.has(l.license_key))
+    .forEach(l => results.set(l.license_key, { license_key: l.license_key, status: 'duplicate', error: DUPLICATE_KEY }));
+
+  const pending = licenses.filter(l => !existing.has(l.license_key));
+  let done = licenses.length - pending.length;
+  onProgress?.(done, licenses.length);
+
+  for (const part of chunk(pending, BATCH_CHUNK_SIZE)) {
+    // A failed chunk is reported as a whole; the rest of the batch still goes through.
+    const { inserted, failed, duplicates, error } = await insertChunk(client, part);
+    duplicates.forEach(l => results.set(l.license_key, { license_key: l.license_key, status: 'duplicate', error: DUPLICATE_KEY }));
+    failed.forEach(l => results.set(l.license_key, { license_key: l.license_key, status: 'error', error: error ?? undefined }));
+    inserted.forEach(l => results.set(l.license_key, { license_key: l.license_key, status: 'created' }));
+    if (inserted.length > 0) {
+      await recordAudit(client, inserted.map(l => ({ action: 'create', license_key: l.license_key, before: null, after: auditSnapshot(l) })));
+    }
+    done += part.length;
+    onProgress?.(done, licenses.length);
+  }
+
+  return licenses.map(l => results.get(l.license_key)!);
+};
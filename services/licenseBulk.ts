@@ -0,0 +1,203 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { BATCH_CHUNK_SIZE, chunk } from './licenseBatch';
+import { Duration, ExtensionBase, extendExpiry } from './expiry';
+import { recordLicenseHistory } from './licenseHistory';
+import { getCurrentUserEmail } from './supabase';
+import { auditSnapshot, recordAudit } from './auditLog';
+import { KeyError, ValidationError } from './errors';
+
+export interface BulkResult {
+  requested: number;
+  succeeded: string[];
+  failed: { license_key: string, error: KeyError }[];
+}
+
+interface ExpiryChange {
+  license_key: string;
+  previous_expires_at: string;
+  new_expires_at: string;
+}
+
+// Rows that the query did not return were either removed in the meantime or hidden by RLS.
+const NOT_AFFECTED = new ValidationError('License not found or not permitted', 'validation.licenseNotAffected');
+
+// Duration keys have no expiry to extend until their first activation.
+const NOT_ACTIVATED = new ValidationError('License has not been activated yet', 'validation.notActivated');
+
+const collect = (keys: string[], affected: string[] | null, error: KeyError | null, result: BulkResult) => {
+  if (error) {
+    keys.forEach(license_key => result.failed.push({ license_key, error }));
+    return;
+  }
+  const affectedSet = new Set(affected);
+  keys.forEach(license_key => {
+    if (affectedSet.has(license_key)) result.succeeded.push(license_key);
+    else result.failed.push({ license_key, error: NOT_AFFECTED });
+  });
+};
+
+/**
+ * Runs one `.in('license_key', ...)` call per chunk of keys. A selection that fits in a
+ * chunk (any single page) is a single request.
+ */
+const runBatched = async (
+  keys: string[],
+  run: (part: string[]) => Promise<{ data: { license_key: string }[] | null, error: KeyError | null }>
+): Promise<BulkResult> => {
+  const result: BulkResult = { requested: keys.length, succeeded: [], failed: [] };
+  for (const part of chunk(keys, BATCH_CHUNK_SIZE)) {
+    const { data, error } = await run(part);
+    collect(part, data ? data.map(row => row.license_key) : null, error, result);
+  }
+  return result;
+};
+
+/**
+ * Frees every seat of the given licenses, including the legacy `hwid` binding. The
+ * legacy column goes first, so a failure while releasing seats leaves nothing that
+ * running the reset again would not fix.
+ */
+export const bulkResetHwid = (client: SupabaseClient, licenses: License[]) => {
+  const byKey = new Map(licenses.map(l => [l.license_key, l]));
+  return runBatched(licenses.map(l => l.license_key), async part => {
+    const { data, error } = await client.from('licenses').update({ hwid: null }).in('license_key', part).select('*');
+    if (error) return { data, error };
+    const rows: License[] = data || [];
+    if (rows.length === 0) return { data: rows, error: null };
+
+    const released = await client.from('license_activations').delete().in('license_key', rows.map(row => row.license_key));
+    if (released.error) return { data: null, error: released.error };
+    await recordAudit(client, rows.map(row => ({
+      action: 'reset_hwid',
+      license_key: row.license_key,
+      before: auditSnapshot(byKey.get(row.license_key)),
+      after: auditSnapshot(row),
+    })));
+    return { data: rows, error: null };
+  });
+};
+
+/**
+ * Moves licenses to the trash. They stay in the table, hidden from the dashboard,
+ * until restored or purged.
+ */
+export const bulkDelete = async (client: SupabaseClient, licenses: License[]) => {
+  const byKey = new Map(licenses.map(l => [l.license_key, l]));
+  const deleted_by = await getCurrentUserEmail();
+  return runBatched(licenses.map(l => l.license_key), async part => {
+    const { data, error } = await client
+      .from('licenses')
+      .update({ deleted_at: new Date().toISOString(), deleted_by })
+      .in('license_key', part)
+      .is('deleted_at', null)
+      .select('*');
+    if (!error) {
+      await recordAudit(client, (data || []).map((row: License) => ({
+        action: 'delete',
+        license_key: row.license_key,
+        before: auditSnapshot(byKey.get(row.license_key)),
+        after: auditSnapshot(row),
+      })));
+    }
+    return { data, error };
+  });
+};
+
+export const bulkRestore = (client: SupabaseClient, licenses: License[]) => {
+  const byKey = new Map(licenses.map(l => [l.license_key, l]));
+  return runBatched(licenses.map(l => l.license_key), async part => {
+    const { data, error } = await client
+      .from('licenses')
+      .update({ deleted_at: null, deleted_by: null })
+      .in('license_key', part)
+      .not('deleted_at', 'is', null)
+      .select('*');
+    if (!error) {
+      await recordAudit(client, (data || []).map((row: License) => ({
+        action: 'restore',
+        license_key: row.license_key,
+        before: auditSnapshot(byKey.get(row.license_key)),
+        after: auditSnapshot(row),
+      })));
+    }
+    return { data, error };
+  });
+};
+
+/**
+ * Permanently removes licenses that are already in the trash.
+ */
+export const bulkPurge = (client: SupabaseClient, licenses: License[]) => {
+  const byKey = new Map(licenses.map(l => [l.license_key, l]));
+  return runBatched(licenses.map(l => l.license_key), async part => {
+    const { data, error } = await client
+      .from('licenses')
+      .delete()
+      .in('license_key', part)
+      .not('deleted_at', 'is', null)
+      .select('license_key');
+    if (!error) {
+      await recordAudit(client, (data || []).map(row => ({
+        action: 'purge',
+        license_key: row.license_key,
+        before: auditSnapshot(byKey.get(row.license_key)),
+        after: null,
+      })));
+    }
+    return { data, error };
+  });
+};
+
+/**
+ * Extends each license by `duration` from its own expiry (or from today) and
+ * records the renewal in the license history.
+ */
+export const bulkExtend = async (
+  client: SupabaseClient,
+  licenses: License[],
+  duration: Duration,
+  base: ExtensionBase
+): Promise<BulkResult> => {
+  const now = new Date();
+  const byKey = new Map(licenses.map(l => [l.license_key, l]));
+  const pending = licenses.filter(l => !l.expires_at);
+
+  const result = await runBatched(licenses.filter(l => l.expires_at).map(l => l.license_key), async part => {
+    const changes = part.map(license_key => ({
+      license_key,
+      expires_at: extendExpiry(byKey.get(license_key)!.expires_at, duration, base, now).toISOString(),
+    }));
+
+    const { data, error } = await client.rpc('set_license_expiries', { p_changes: changes });
+    const rows = (data || []) as ExpiryChange[];
+
+    if (!error && rows.length > 0) {
+      await recordAudit(client, rows.map(row => {
+        const license = byKey.get(row.license_key)!;
+        return {
+          action: 'extend' as const,
+          license_key: row.license_key,
+          before: auditSnapshot({ ...license, expires_at: row.previous_expires_at }),
+          after: auditSnapshot({ ...license, expires_at: row.new_expires_at }),
+        };
+      }));
+      try {
+        await recordLicenseHistory(client, rows.map(row => ({
+          license_key: row.license_key,
+          action: 'extend' as const,
+          previous_key: null,
+          previous_expires_at: row.previous_expires_at,
+          new_expires_at: row.new_expires_at,
+        })), await getCurrentUserEmail());
+      } catch (err) {
+        console.error('Failed to record license history', err);
+      }
+    }
+    return { data: rows, error };
+  });
+
+  result.requested += pending.length;
+  pending.forEach(l => result.failed.push({ license_key: l.license_key, error: NOT_ACTIVATED }));
+  return result;
+};
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { findExistingKeys } from './licenseBatch';
+import { NewLicenseHistoryEntry, recordLicenseHistory } from './licenseHistory';
+import { getCurrentUserEmail } from './supabase';
+import { auditSnapshot, recordAudit } from './auditLog';
+import { LicenseMetadata } from './licenseMetadata';
+import { ValidationError } from './errors';
+
+export interface LicenseChanges extends LicenseMetadata, Partial<Pick<License, 'product_id' | 'plan_id' | 'features' | 'duration_days'>> {
+  license_key: string;
+  // Null keeps a duration key waiting for its first activation.
+  expires_at: string | null;
+}
+
+export const historyEntriesFor = (before: License, after: License): NewLicenseHistoryEntry[] => {
+  const entries: NewLicenseHistoryEntry[] = [];
+
+  if (before.license_key !== after.license_key) {
+    entries.push({
+      license_key: after.license_key,
+      action: 'rename',
+      previous_key: before.license_key,
+      previous_expires_at: null,
+      new_expires_at: null,
+    });
+  }
+
+  // Duration keys have no expiry to compare until they are activated.
+  if (!before.expires_at || !after.expires_at) return entries;
+
+  const previous = new Date(before.expires_at).getTime();
+  const next = new Date(after.expires_at).getTime();
+  if (previous !== next) {
+    entries.push({
+      license_key: after.license_key,
+      action: next > previous ? 'extend' : 'edit',
+      previous_key: null,
+      previous_expires_at: before.expires_at,
+      new_expires_at: after.expires_at,
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Renames a license and/or changes its expiry and customer details, then records the
+ * change in its history. Throws if the new key is already taken.
+ */
+export const saveLicenseChanges = async (client: SupabaseClient, license: License, changes: LicenseChanges): Promise<License> => {
+  const newKey = changes.license_key.trim();
+  if (!newKey) throw new ValidationError('License key is required', 'validation.licenseKeyRequired');
+
+  if (newKey !== license.license_key) {
+    const existing = await findExistingKeys(client, [newKey]);
+    if (existing.has(newKey)) throw new ValidationError(`License key ${newKey} already exists`, 'validation.licenseKeyExists', { key: newKey });
+  }
+
+  const { data, error } = await client
+    .from('licenses')
+    .update({ ...changes, license_key: newKey })
+    .eq('license_key', license.license_key)
+    .select()
+    .single();
+
+  if (error) throw error;
+
+  const renamed = data.license_key !== license.license_key;
+  const extended = data.expires_at && license.expires_at
+    ? new Date(data.expires_at) > new Date(license.expires_at)
+    : (data.duration_days ?? 0) > (license.duration_days ?? 0);
+  await recordAudit(client, [{
+    action: renamed ? 'rename' : extended ? 'extend' : 'update',
+    license_key: data.license_key,
+    before: auditSnapshot(license),
+    after: auditSnapshot(data),
+  }]);
+
+  try {
+    await recordLicenseHistory(client, historyEntriesFor(license, data), await getCurrentUserEmail());
+  } catch (err) {
+    // The license itself was saved; a missing history row should not undo that.
+    console.error('Failed to record license history', err);
+  }
+
+  return data;
+};
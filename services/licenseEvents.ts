@@ -0,0 +1,21 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LicenseEvent } from '../types';
+
+export const DORMANT_DAY_OPTIONS = [7, 30, 90, 180, 365];
+
+export const DEFAULT_DORMANT_DAYS = 30;
+
+// The timeline shows recent activity; older events stay in the table for reporting.
+const EVENTS_LIMIT = 200;
+
+export const fetchLicenseEvents = async (client: SupabaseClient, licenseKey: string): Promise<LicenseEvent[]> => {
+  const { data, error } = await client
+    .from('license_events')
+    .select('*')
+    .eq('license_key', licenseKey)
+    .order('created_at', { ascending: false })
+    .limit(EVENTS_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
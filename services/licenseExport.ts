@@ -0,0 +1,159 @@
+import { License } from '../types';
+import { getLicenseStatus } from './licenseStatus';
+import { DEFAULT_LOCALE, Locale, MessageKey, intlLocale, translate } from './i18n';
+import { getActivatedMachines, getSeatUsage } from './licenseSeats';
+import { createXlsx, XlsxCell } from './xlsx';
+
+export type ExportFormat = 'csv' | 'json' | 'xlsx';
+
+export interface ExportOptions {
+  // Language of the headers, status labels and formatted dates.
+  locale?: Locale;
+  now?: Date;
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+const HEADERS: MessageKey[] = [
+  'licenses.columnKey',
+  'licenses.columnStatus',
+  'export.seats',
+  'export.hwid',
+  'licenses.columnExpiresAt',
+  'licenses.columnLastSeen',
+  'metadata.customerName',
+  'export.email',
+  'metadata.orderId',
+  'metadata.tags',
+  'metadata.notes',
+];
+
+const XLSX_DATE_FORMATS: Record<Locale, string> = {
+  vi: 'dd/mm/yyyy hh:mm',
+  en: 'yyyy-mm-dd hh:mm',
+};
+
+const headers = (locale: Locale) => HEADERS.map(key => translate(locale, key));
+
+const statusLabel = (license: License, now: Date, locale: Locale) =>
+  translate(locale, `licenseStatus.${getLicenseStatus(license, now)}`);
+
+const formatSeats = (license: License) => {
+  const { used, limit } = getSeatUsage(license);
+  return `${used}/${limit}`;
+};
+
+const formatMachines = (license: License) => getActivatedMachines(license).join(' | ');
+
+const formatDateTime = (value: string, locale: Locale) => new Date(value).toLocaleString(intlLocale(locale), {
+  year: 'numeric',
+  month: '2-digit',
+  day: '2-digit',
+  hour: '2-digit',
+  minute: '2-digit',
+});
+
+const escapeCsv = (value: string) => /[",;\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const toCsv = (licenses: License[], options: ExportOptions = {}): string => {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const now = options.now ?? new Date();
+  const lines = licenses.map(l => [
+    l.license_key,
+    statusLabel(l, now, locale),
+    formatSeats(l),
+    formatMachines(l),
+    l.expires_at ? formatDateTime(l.expires_at, locale) : '',
+    l.last_seen_at ? formatDateTime(l.last_seen_at, locale) : '',
+    l.customer_name ?? '',
+    l.customer_email ?? '',
+    l.order_id ?? '',
+    (l.tags ?? []).join(', '),
+    l.notes ?? '',
+  ].map(escapeCsv).join(','));
+
+  // BOM so Excel opens the file as UTF-8 and keeps Vietnamese diacritics.
+  return '\uFEFF' + [headers(locale).map(escapeCsv).join(','), ...lines].join('\r\n');
+};
+
+/**
+ * JSON keeps machine-readable values (ISO dates, status codes) next to the
+ * localized ones, so it can be re-imported as-is.
+ */
+export const toJson = (licenses: License[], options: ExportOptions = {}): string => {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const now = options.now ?? new Date();
+  const rows = licenses.map(l => {
+    const status = getLicenseStatus(l, now);
+    return {
+      license_key: l.license_key,
+      status,
+      status_label: translate(locale, `licenseStatus.${status}`),
+      hwid: l.hwid,
+      max_activations: getSeatUsage(l).limit,
+      activations: getActivatedMachines(l),
+      expires_at: l.expires_at,
+      expires_at_local: l.expires_at ? formatDateTime(l.expires_at, locale) : null,
+      duration_days: l.duration_days ?? null,
+      last_seen_at: l.last_seen_at ?? null,
+      customer_name: l.customer_name ?? null,
+      customer_email: l.customer_email ?? null,
+      order_id: l.order_id ?? null,
+      tags: l.tags ?? [],
+      notes: l.notes ?? null,
+    };
+  });
+  return JSON.stringify(rows, null, 2);
+};
+
+export const toXlsx = (licenses: License[], options: ExportOptions = {}): Uint8Array => {
+  const locale = options.locale ?? DEFAULT_LOCALE;
+  const now = options.now ?? new Date();
+  const rows: XlsxCell[][] = [
+    headers(locale),
+    ...licenses.map(l => [
+      l.license_key,
+      statusLabel(l, now, locale),
+      formatSeats(l),
+      formatMachines(l) || null,
+      l.expires_at ? new Date(l.expires_at) : null,
+      l.last_seen_at ? new Date(l.last_seen_at) : null,
+      l.customer_name ?? null,
+      l.customer_email ?? null,
+      l.order_id ?? null,
+      (l.tags ?? []).join(', ') || null,
+      l.notes ?? null,
+    ]),
+  ];
+  return createXlsx(rows, { sheetName: 'Licenses', dateFormat: XLSX_DATE_FORMATS[locale] });
+};
+
+export const exportLicenses = (licenses: License[], format: ExportFormat, options: ExportOptions = {}): Blob => {
+  const content = format === 'csv'
+    ? toCsv(licenses, options)
+    : format === 'json'
+      ? toJson(licenses, options)
+      : toXlsx(licenses, options);
+  return new Blob([content], { type: MIME_TYPES[format] });
+};
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+export const exportFileName = (format: ExportFormat, date: Date = new Date()) => {
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  const stamp = `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}-${pad(date.getHours())}${pad(date.getMinutes())}`;
+  return `licenses-${stamp}.${format}`;
+};
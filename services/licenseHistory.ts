@@ -0,0 +1,43 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { LicenseHistoryEntry } from '../types';
+
+export type NewLicenseHistoryEntry = Omit<LicenseHistoryEntry, 'id' | 'created_at' | 'changed_by'>;
+
+export const fetchLicenseHistory = async (client: SupabaseClient, licenseKey: string): Promise<LicenseHistoryEntry[]> => {
+  const { data, error } = await client
+    .from('license_history')
+    .select('*')
+    .eq('license_key', licenseKey)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Expiry changes recorded since `since`, oldest first. Key renames are left out.
+ */
+export const fetchExpiryHistory = async (client: SupabaseClient, since: Date): Promise<LicenseHistoryEntry[]> => {
+  const { data, error } = await client
+    .from('license_history')
+    .select('*')
+    .in('action', ['extend', 'edit'])
+    .gte('created_at', since.toISOString())
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const recordLicenseHistory = async (
+  client: SupabaseClient,
+  entries: NewLicenseHistoryEntry[],
+  changedBy: string | null
+) => {
+  if (entries.length === 0) return;
+  const { error } = await client
+    .from('license_history')
+    .insert(entries.map(entry => ({ ...entry, changed_by: changedBy })));
+
+  if (error) throw error;
+};
@@ -0,0 +1,220 @@
+import type { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { BATCH_CHUNK_SIZE, chunk, fetchLicensesByKeys, findExistingKeys } from './licenseBatch';
+import { auditSnapshot, recordAudit } from './auditLog';
+import { ValidationError } from './errors';
+
+export type ImportFormat = 'csv' | 'json';
+export type ImportConflictMode = 'skip' | 'overwrite';
+export type ImportRowStatus = 'new' | 'conflict' | 'duplicate' | 'invalid';
+
+export interface ImportRow {
+  // Spreadsheet row for CSV (the header is row 1), position in the array for JSON.
+  row: number;
+  license: License;
+  status: ImportRowStatus;
+  error?: ValidationError;
+}
+
+export interface ImportSummary {
+  inserted: number;
+  updated: number;
+  skipped: number;
+  rejected: number;
+  errors: { row: number, license_key: string, error: ValidationError | PostgrestError }[];
+}
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes.
+ * Accepts comma or semicolon delimiters (Excel in vi-VN locale exports with semicolons).
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+  const delimiter = (firstLine.match(/;/g)?.length ?? 0) > (firstLine.match(/,/g)?.length ?? 0) ? ';' : ',';
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(cell => cell.trim() !== ''));
+};
+
+export const detectImportFormat = (fileName: string, text: string): ImportFormat => {
+  if (/\.json$/i.test(fileName)) return 'json';
+  if (/\.csv$/i.test(fileName)) return 'csv';
+  return /^\s*[[{]/.test(text) ? 'json' : 'csv';
+};
+
+/**
+ * Turns file contents into plain records keyed by column name.
+ * JSON may be an array of objects or an object with a `licenses` array.
+ */
+export const parseImportFile = (text: string, format: ImportFormat): Record<string, unknown>[] => {
+  if (format === 'json') {
+    const data = JSON.parse(text);
+    const list = Array.isArray(data) ? data : data?.licenses;
+    if (!Array.isArray(list)) throw new ValidationError('JSON must be an array of licenses', 'validation.importJsonShape');
+    return list;
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) return [];
+  const columns = header.map(h => h.trim().toLowerCase());
+  return rows.map(cells => Object.fromEntries(columns.map((col, i) => [col, cells[i]?.trim() ?? ''])));
+};
+
+/**
+ * Parses the date formats we see in spreadsheets: ISO 8601, `YYYY-MM-DD[ HH:mm[:ss]]`
+ * and `DD/MM/YYYY[ HH:mm[:ss]]`. Dates without a time expire at the end of the day.
+ */
+export const parseImportDate = (value: unknown): string | null => {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  const raw = value.trim();
+
+  const local = raw.match(/^(\d{4})-(\d{2})-(\d{2})(?:[ T](\d{2}):(\d{2})(?::(\d{2}))?)?$/)
+    ?? raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:\s+(\d{1,2}):(\d{2})(?::(\d{2}))?)?$/);
+
+  if (local) {
+    const isDayFirst = raw.includes('/');
+    const [year, month, day] = isDayFirst
+      ? [local[3], local[2], local[1]].map(Number)
+      : [local[1], local[2], local[3]].map(Number);
+    const hasTime = local[4] !== undefined;
+    const date = new Date(
+      year, month - 1, day,
+      hasTime ? Number(local[4]) : 23,
+      hasTime ? Number(local[5]) : 59,
+      hasTime ? Number(local[6] ?? 0) : 0
+    );
+    // Reject rollovers such as 31/02/2026.
+    if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+    return date.toISOString();
+  }
+
+  // Full ISO timestamps with an offset, e.g. exports from Postgres.
+  if (!/^\d{4}-\d{2}-\d{2}T/.test(raw)) return null;
+  const date = new Date(raw);
+  return isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Number of the row holding the first record.
+const firstRecordRow = (format: ImportFormat) => format === 'csv' ? 2 : 1;
+
+/**
+ * Validates parsed records and classifies each one against the database.
+ * Only the first occurrence of a key inside the file is kept.
+ */
+export const validateImportRecords = (records: Record<string, unknown>[], existingKeys: Set<string>, format: ImportFormat): ImportRow[] => {
+  const seen = new Set<string>();
+
+  return records.map((record, index): ImportRow => {
+    const license_key = String(record.license_key ?? '').trim();
+    const expires_at = parseImportDate(record.expires_at);
+    const hwidRaw = record.hwid == null ? '' : String(record.hwid).trim();
+    const license: License = { license_key, expires_at: expires_at ?? '', hwid: hwidRaw || null };
+    const row = index + firstRecordRow(format);
+
+    if (!license_key) {
+      return { row, license, status: 'invalid', error: new ValidationError('Missing license_key', 'validation.importMissingKey') };
+    }
+    if (!expires_at) {
+      const value = String(record.expires_at ?? '');
+      return { row, license, status: 'invalid', error: new ValidationError(`Invalid expires_at: ${value}`, 'validation.importInvalidExpiry', { value }) };
+    }
+    if (seen.has(license_key)) {
+      return { row, license, status: 'duplicate', error: new ValidationError('Duplicate key in file', 'validation.importDuplicateKey') };
+    }
+    seen.add(license_key);
+
+    return { row, license, status: existingKeys.has(license_key) ? 'conflict' : 'new' };
+  });
+};
+
+export const prepareImport = async (client: SupabaseClient, records: Record<string, unknown>[], format: ImportFormat): Promise<ImportRow[]> => {
+  const keys = records.map(r => String(r.license_key ?? '').trim()).filter(Boolean);
+  const existing = await findExistingKeys(client, Array.from(new Set(keys)));
+  return validateImportRecords(records, existing, format);
+};
+
+/**
+ * Writes the valid rows in chunks. With `skip`, conflicting keys are left untouched;
+ * with `overwrite`, they are upserted on `license_key`.
+ */
+export const importLicenses = async (
+  client: SupabaseClient,
+  rows: ImportRow[],
+  mode: ImportConflictMode,
+  onProgress?: (done: number, total: number) => void
+): Promise<ImportSummary> => {
+  const summary: ImportSummary = { inserted: 0, updated: 0, skipped: 0, rejected: 0, errors: [] };
+
+  rows
+    .filter(r => r.status === 'invalid' || r.status === 'duplicate')
+    .forEach(r => {
+      summary.rejected++;
+      summary.errors.push({ row: r.row, license_key: r.license.license_key, error: r.error });
+    });
+
+  const writable = rows.filter(r => r.status === 'new' || (r.status === 'conflict' && mode === 'overwrite'));
+  summary.skipped = rows.filter(r => r.status === 'conflict' && mode === 'skip').length;
+
+  let done = 0;
+  for (const part of chunk(writable, BATCH_CHUNK_SIZE)) {
+    const payload = part.map(r => r.license);
+    const conflicts = part.filter(r => r.status === 'conflict').map(r => r.license.license_key);
+    const before = conflicts.length > 0 ? await fetchLicensesByKeys(client, conflicts) : new Map<string, License>();
+    const { error } = mode === 'overwrite'
+      ? await client.from('licenses').upsert(payload, { onConflict: 'license_key' })
+      : await client.from('licenses').insert(payload);
+
+    if (error) {
+      summary.rejected += part.length;
+      part.forEach(r => summary.errors.push({ row: r.row, license_key: r.license.license_key, error }));
+    } else {
+      summary.inserted += part.filter(r => r.status === 'new').length;
+      summary.updated += part.filter(r => r.status === 'conflict').length;
+      await recordAudit(client, part.map(r => ({
+        action: 'import',
+        license_key: r.license.license_key,
+        before: auditSnapshot(before.get(r.license.license_key)),
+        after: auditSnapshot(r.license),
+      })));
+    }
+    done += part.length;
+    onProgress?.(done, writable.length);
+  }
+
+  return summary;
+};
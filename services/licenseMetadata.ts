@@ -0,0 +1,67 @@
+import { License } from '../types';
+import { ValidationError } from './errors';
+
+export type LicenseMetadata = Pick<License, 'customer_name' | 'customer_email' | 'order_id' | 'notes' | 'tags'>;
+
+// Form state: every field is a plain string, tags are comma separated.
+export interface LicenseMetadataInput {
+  customer_name: string;
+  customer_email: string;
+  order_id: string;
+  notes: string;
+  tags: string;
+}
+
+export const EMPTY_METADATA_INPUT: LicenseMetadataInput = {
+  customer_name: '',
+  customer_email: '',
+  order_id: '',
+  notes: '',
+  tags: '',
+};
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Splits a comma separated list, trimming and dropping case-insensitive duplicates.
+ */
+export const parseTags = (input: string): string[] => {
+  const seen = new Set<string>();
+  return input
+    .split(',')
+    .map(tag => tag.trim())
+    .filter(tag => {
+      const normalized = tag.toLowerCase();
+      if (!tag || seen.has(normalized)) return false;
+      seen.add(normalized);
+      return true;
+    });
+};
+
+export const toMetadataInput = (license: License): LicenseMetadataInput => ({
+  customer_name: license.customer_name ?? '',
+  customer_email: license.customer_email ?? '',
+  order_id: license.order_id ?? '',
+  notes: license.notes ?? '',
+  tags: (license.tags ?? []).join(', '),
+});
+
+/**
+ * Converts form input to column values (blank fields become null). Throws on an
+ * invalid customer email.
+ */
+export const fromMetadataInput = (input: LicenseMetadataInput): Required<LicenseMetadata> => {
+  const text = (value: string) => value.trim() || null;
+  const customer_email = text(input.customer_email);
+  if (customer_email && !EMAIL_PATTERN.test(customer_email)) {
+    throw new ValidationError(`Invalid customer email: ${customer_email}`, 'validation.invalidCustomerEmail', { email: customer_email });
+  }
+
+  return {
+    customer_name: text(input.customer_name),
+    customer_email,
+    order_id: text(input.order_id),
+    notes: text(input.notes),
+    tags: parseTags(input.tags),
+  };
+};
@@ -0,0 +1,240 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { LICENSE_WITH_ACTIVATIONS } from './licenseActivations';
+import { EXPIRING_SOON_DAYS, isDormant } from './licenseStatus';
+import { getActivatedMachines } from './licenseSeats';
+import { NO_PRODUCT } from './catalog';
+
+export type LicenseStatusFilter = 'all' | 'pending' | 'active' | 'expired' | 'expiring' | 'dormant';
+export type LicenseSortField = 'license_key' | 'status' | 'hwid' | 'expires_at' | 'last_seen_at';
+export type SortDirection = 'asc' | 'desc';
+
+export interface LicenseQuery {
+  search: string;
+  status: LicenseStatusFilter;
+  // Only used by the 'dormant' status: days without a check-in.
+  dormantDays: number;
+  product: string;
+  sort: { field: LicenseSortField, direction: SortDirection };
+}
+
+export interface LicenseStats {
+  total: number;
+  active: number;
+  available: number;
+  expired: number;
+}
+
+// `status_rank` and `activation_count` are computed columns defined in the database.
+const SORT_COLUMNS: Record<LicenseSortField, string> = {
+  license_key: 'license_key',
+  status: 'status_rank',
+  hwid: 'activation_count',
+  expires_at: 'expires_at',
+  last_seen_at: 'last_seen_at',
+};
+
+// PostgREST caps a single response at 1000 rows by default.
+const FETCH_ALL_PAGE_SIZE = 1000;
+
+// Machine search resolves to an `in` list of keys; cap it so the URL stays short.
+const MACHINE_MATCH_LIMIT = 200;
+
+const SEARCH_COLUMNS = ['license_key', 'hwid', 'customer_name', 'customer_email', 'order_id', 'notes'];
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, '\\$&');
+
+// Values inside `.or()` are double-quoted so commas and parentheses in the search term are literal.
+const quoteFilterValue = (value: string) => `"${value.replace(/["\\]/g, '\\$&')}"`;
+
+const findKeysByMachine = async (client: SupabaseClient, term: string): Promise<string[]> => {
+  const { data, error } = await client
+    .from('license_activations')
+    .select('license_key')
+    .ilike('hwid', `%${escapeLike(term)}%`)
+    .limit(MACHINE_MATCH_LIMIT);
+
+  if (error) throw error;
+  return Array.from(new Set((data || []).map(row => row.license_key)));
+};
+
+/**
+ * Builds the `.or()` expression for a free-text search over the key, customer and
+ * order details, exact tags and activated machines.
+ */
+const searchFilter = async (client: SupabaseClient, search: string): Promise<string | null> => {
+  const term = search.trim();
+  if (!term) return null;
+
+  const pattern = quoteFilterValue(`%${escapeLike(term)}%`);
+  const conditions = SEARCH_COLUMNS.map(column => `${column}.ilike.${pattern}`);
+  conditions.push(`tags.cs.{${quoteFilterValue(term)}}`);
+
+  const machineKeys = await findKeysByMachine(client, term);
+  if (machineKeys.length > 0) {
+    conditions.push(`license_key.in.(${machineKeys.map(quoteFilterValue).join(',')})`);
+  }
+  return conditions.join(',');
+};
+
+const matchesSearch = (license: License, term: string) => {
+  const needle = term.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    license.license_key,
+    ...getActivatedMachines(license),
+    license.customer_name,
+    license.customer_email,
+    license.order_id,
+    license.notes,
+  ];
+  return haystack.some(value => !!value && value.toLowerCase().includes(needle))
+    || (license.tags ?? []).some(tag => tag.toLowerCase() === needle);
+};
+
+export const matchesProduct = (license: License, product: string) => {
+  if (product === 'all') return true;
+  if (product === NO_PRODUCT) return !license.product_id;
+  return license.product_id === product;
+};
+
+const matchesStatus = (license: License, query: LicenseQuery, now: Date) => {
+  if (query.status === 'pending') return license.expires_at === null;
+  if (license.expires_at === null) return query.status === 'all';
+  const expiry = new Date(license.expires_at).getTime();
+  const isExpired = expiry < now.getTime();
+  switch (query.status) {
+    case 'active': return !isExpired;
+    case 'expired': return isExpired;
+    case 'expiring': return !isExpired && expiry - now.getTime() <= EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000;
+    case 'dormant': return isDormant(license, query.dormantDays, now);
+    default: return true;
+  }
+};
+
+/**
+ * Client-side version of the query filters, for rows that did not come from a query
+ * (demo data, realtime changes). Machine search only sees the activations on the row.
+ */
+export const matchesLicenseQuery = (license: License, query: LicenseQuery, now: Date = new Date()) =>
+  matchesProduct(license, query.product) && matchesStatus(license, query, now) && matchesSearch(license, query.search);
+
+const expiringLimit = (now: Date) => new Date(now.getTime() + EXPIRING_SOON_DAYS * 24 * 60 * 60 * 1000).toISOString();
+
+const dormantCutoff = (now: Date, days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000).toISOString();
+
+const baseQuery = (client: SupabaseClient, columns: string, options?: { count?: 'exact', head?: boolean }) =>
+  client.from('licenses').select(columns, options).is('deleted_at', null);
+
+type LicenseFilterBuilder = ReturnType<typeof baseQuery>;
+
+const applyProduct = (query: LicenseFilterBuilder, product: string) => {
+  if (product === 'all') return query;
+  if (product === NO_PRODUCT) return query.is('product_id', null);
+  return query.eq('product_id', product);
+};
+
+const applyStatus = (query: LicenseFilterBuilder, status: LicenseStatusFilter, dormantDays: number, now: Date) => {
+  const nowIso = now.toISOString();
+  switch (status) {
+    case 'pending': return query.is('expires_at', null);
+    case 'active': return query.gte('expires_at', nowIso);
+    case 'expired': return query.lt('expires_at', nowIso);
+    case 'expiring': return query.gte('expires_at', nowIso).lte('expires_at', expiringLimit(now));
+    // Activated keys always have `last_seen_at`: it is backfilled and kept current by a trigger.
+    case 'dormant': return query.gt('activation_count', 0).lt('last_seen_at', dormantCutoff(now, dormantDays));
+    default: return query;
+  }
+};
+
+// Synchronous on purpose: query builders are thenables, so returning one from an async
+// function would run the request. The search expression is resolved by the caller.
+const buildQuery = (
+  client: SupabaseClient,
+  query: LicenseQuery,
+  search: string | null,
+  now: Date,
+  options?: { count?: 'exact' }
+) => {
+  let builder = baseQuery(client, LICENSE_WITH_ACTIVATIONS, options);
+  builder = applyProduct(builder, query.product);
+  builder = applyStatus(builder, query.status, query.dormantDays, now);
+  if (search) builder = builder.or(search);
+
+  return builder
+    .order(SORT_COLUMNS[query.sort.field], { ascending: query.sort.direction === 'asc', nullsFirst: false })
+    // Tie-breaker so rows do not move between pages when the sort column has duplicates.
+    .order('license_key', { ascending: true });
+};
+
+/**
+ * Loads one page of licenses matching `query`, with the total number of matches.
+ */
+export const fetchLicensePage = async (
+  client: SupabaseClient,
+  query: LicenseQuery,
+  page: number,
+  pageSize: number,
+  now: Date = new Date()
+): Promise<{ licenses: License[], total: number }> => {
+  const search = await searchFilter(client, query.search);
+  const { data, error, count } = await buildQuery(client, query, search, now, { count: 'exact' })
+    .range((page - 1) * pageSize, page * pageSize - 1);
+
+  if (error) throw error;
+  return { licenses: (data || []) as unknown as License[], total: count ?? 0 };
+};
+
+/**
+ * Loads every license matching `query`, page by page. Used for exports and
+ * "select all matching", which must not be limited to the visible page.
+ */
+export const fetchAllMatchingLicenses = async (
+  client: SupabaseClient,
+  query: LicenseQuery,
+  now: Date = new Date()
+): Promise<License[]> => {
+  const search = await searchFilter(client, query.search);
+  const licenses: License[] = [];
+  for (let from = 0; ; from += FETCH_ALL_PAGE_SIZE) {
+    const { data, error } = await buildQuery(client, query, search, now).range(from, from + FETCH_ALL_PAGE_SIZE - 1);
+    if (error) throw error;
+
+    const rows = (data || []) as unknown as License[];
+    licenses.push(...rows);
+    if (rows.length < FETCH_ALL_PAGE_SIZE) return licenses;
+  }
+};
+
+const countLicenses = async (client: SupabaseClient, build: (query: LicenseFilterBuilder) => LicenseFilterBuilder) => {
+  const { count, error } = await build(baseQuery(client, 'license_key', { count: 'exact', head: true }));
+  if (error) throw error;
+  return count ?? 0;
+};
+
+/**
+ * Dashboard counters, computed with `count` queries instead of loading rows.
+ */
+export const fetchLicenseStats = async (client: SupabaseClient, product: string, now: Date = new Date()): Promise<LicenseStats> => {
+  const nowIso = now.toISOString();
+  const scoped = (build: (query: LicenseFilterBuilder) => LicenseFilterBuilder) =>
+    countLicenses(client, query => build(applyProduct(query, product)));
+
+  const [total, active, available, expired] = await Promise.all([
+    scoped(query => query),
+    scoped(query => query.gt('activation_count', 0)),
+    // Duration keys waiting for their first activation count as available.
+    scoped(query => query.eq('activation_count', 0).or(`expires_at.gt.${nowIso},expires_at.is.null`)),
+    scoped(query => query.lt('expires_at', nowIso)),
+  ]);
+  return { total, active, available, expired };
+};
+
+/**
+ * Number of licenses per product id, plus `NO_PRODUCT` for keys without one.
+ */
+export const fetchProductCounts = async (client: SupabaseClient, productIds: string[]): Promise<Map<string, number>> => {
+  const ids = [...productIds, NO_PRODUCT];
+  const counts = await Promise.all(ids.map(id => countLicenses(client, query => applyProduct(query, id))));
+  return new Map(ids.map((id, index) => [id, counts[index]]));
+};
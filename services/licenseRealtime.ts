@@ -0,0 +1,103 @@
+import type { RealtimePostgresChangesPayload, SupabaseClient } from '@supabase/supabase-js';
+import { License, LicenseActivation } from '../types';
+import { LicenseQuery, matchesLicenseQuery } from './licenseQuery';
+
+export type RealtimeStatus = 'connecting' | 'live' | 'offline';
+
+export interface LicenseChangeHandlers {
+  onLicenseChange: (payload: RealtimePostgresChangesPayload<License>) => void;
+  onActivationChange: (payload: RealtimePostgresChangesPayload<LicenseActivation>) => void;
+  onStatusChange: (status: RealtimeStatus) => void;
+}
+
+/**
+ * Subscribes to inserts, updates and deletes on `licenses` and `license_activations`.
+ * Returns the function that tears the subscription down.
+ */
+export const subscribeToLicenseChanges = (client: SupabaseClient, handlers: LicenseChangeHandlers) => {
+  handlers.onStatusChange('connecting');
+
+  const channel = client
+    .channel('license-changes')
+    .on<License>('postgres_changes', { event: '*', schema: 'public', table: 'licenses' }, handlers.onLicenseChange)
+    .on<LicenseActivation>('postgres_changes', { event: '*', schema: 'public', table: 'license_activations' }, handlers.onActivationChange)
+    .subscribe(status => {
+      if (status === 'SUBSCRIBED') handlers.onStatusChange('live');
+      else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT' || status === 'CLOSED') handlers.onStatusChange('offline');
+    });
+
+  return () => {
+    client.removeChannel(channel);
+  };
+};
+
+// Replica identity is full, so updates and deletes carry the whole previous row.
+const previousRow = (payload: RealtimePostgresChangesPayload<License>) =>
+  payload.eventType === 'INSERT' ? null : payload.old as License;
+
+const nextRow = (payload: RealtimePostgresChangesPayload<License>) =>
+  payload.eventType === 'DELETE' ? null : payload.new;
+
+const inResult = (license: License | null, query: LicenseQuery, now: Date) =>
+  !!license && !license.deleted_at && matchesLicenseQuery(license, query, now);
+
+/**
+ * How a `licenses` change affects the result of `query`: the change in its total, and
+ * whether a row joined it (an insert, a restore from the trash or an edit). Such a row
+ * belongs at a place in the sort order and on a page that only the server knows, so the
+ * page has to be fetched again.
+ */
+export const describeLicenseChange = (
+  payload: RealtimePostgresChangesPayload<License>,
+  query: LicenseQuery,
+  now: Date = new Date()
+): { totalDelta: number, stale: boolean } => {
+  const before = inResult(previousRow(payload), query, now);
+  const after = inResult(nextRow(payload), query, now);
+  return { totalDelta: Number(after) - Number(before), stale: after && !before };
+};
+
+/**
+ * Merges a `licenses` change into the rows currently shown for `query`. Updates keep the
+ * embedded activations, which arrive as separate events. Rows that no longer match (deleted,
+ * moved to the trash or edited out of the filter) are dropped; rows are never added here,
+ * see `describeLicenseChange`.
+ */
+export const mergeLicenseChange = (
+  licenses: License[],
+  payload: RealtimePostgresChangesPayload<License>,
+  query: LicenseQuery,
+  now: Date = new Date()
+): License[] => {
+  const previous = previousRow(payload);
+  const row = nextRow(payload);
+  // A rename arrives as an update whose old row still carries the previous key.
+  const previousKey = previous?.license_key ?? row?.license_key;
+
+  return licenses.flatMap(l => {
+    if (l.license_key !== previousKey) return [l];
+    const merged = row && { ...l, ...row, activations: l.activations };
+    return inResult(merged, query, now) ? [merged] : [];
+  });
+};
+
+export const mergeActivationChange = (licenses: License[], payload: RealtimePostgresChangesPayload<LicenseActivation>): License[] => {
+  const licenseKey = payload.eventType === 'DELETE' ? payload.old.license_key : payload.new.license_key;
+
+  return licenses.map(license => {
+    if (license.license_key !== licenseKey) return license;
+    const current = license.activations ?? [];
+
+    if (payload.eventType === 'DELETE') {
+      return { ...license, activations: current.filter(a => a.id !== payload.old.id) };
+    }
+    const others = current.filter(a => a.id !== payload.new.id);
+    return { ...license, activations: [...others, payload.new] };
+  });
+};
+
+/**
+ * Key of the license row affected by a change, for highlighting.
+ */
+export const changedLicenseKey = (payload: RealtimePostgresChangesPayload<License | LicenseActivation>) =>
+  (payload.eventType === 'DELETE' ? payload.old.license_key : payload.new.license_key) ?? null;
@@ -0,0 +1,62 @@
+import { License, LicenseEvent, LicenseHistoryEntry } from '../types';
+import { BatchKeyResult } from './licenseBatch';
+import { BulkResult } from './licenseBulk';
+import { Duration, ExtensionBase } from './expiry';
+import { LicenseChanges } from './licenseEdit';
+import { LicenseQuery, LicenseStats } from './licenseQuery';
+import { LicenseChangeHandlers } from './licenseRealtime';
+import { getSupabaseClient } from './supabase';
+import { createSupabaseLicenseRepository } from './supabaseLicenseRepository';
+import { createMemoryLicenseRepository } from './memoryLicenseRepository';
+
+export type DataMode = 'supabase' | 'demo';
+
+/**
+ * Data access used by the license dashboard. The Supabase implementation talks to the
+ * project; the in-memory one keeps everything in localStorage for offline demos.
+ */
+export interface LicenseRepository {
+  readonly mode: DataMode;
+
+  query(query: LicenseQuery, page: number, pageSize: number): Promise<{ licenses: License[], total: number }>;
+  queryAll(query: LicenseQuery): Promise<License[]>;
+  stats(product: string): Promise<LicenseStats>;
+  productCounts(productIds: string[]): Promise<Map<string, number>>;
+  events(licenseKey: string): Promise<LicenseEvent[]>;
+  expiryHistory(since: Date): Promise<LicenseHistoryEntry[]>;
+
+  create(licenses: License[], onProgress?: (done: number, total: number) => void): Promise<BatchKeyResult[]>;
+  update(license: License, changes: LicenseChanges): Promise<License>;
+  setSeatLimit(license: License, maxActivations: number): Promise<License>;
+  extend(licenses: License[], duration: Duration, base: ExtensionBase): Promise<BulkResult>;
+  resetHwid(licenses: License[]): Promise<BulkResult>;
+  deactivate(license: License, hwid: string): Promise<void>;
+  delete(licenses: License[]): Promise<BulkResult>;
+
+  // Live change feed; absent when the backend has none.
+  subscribe?(handlers: LicenseChangeHandlers): () => void;
+}
+
+const DATA_MODE_STORAGE_KEY = 'data_mode';
+
+let memoryRepository: LicenseRepository | null = null;
+
+export const getStoredDataMode = (): DataMode =>
+  localStorage.getItem(DATA_MODE_STORAGE_KEY) === 'demo' ? 'demo' : 'supabase';
+
+export const saveDataMode = (mode: DataMode) => {
+  if (mode === 'demo') localStorage.setItem(DATA_MODE_STORAGE_KEY, mode);
+  else localStorage.removeItem(DATA_MODE_STORAGE_KEY);
+};
+
+/**
+ * Repository for the selected data mode, or null when Supabase is not connected yet.
+ */
+export const getLicenseRepository = (): LicenseRepository | null => {
+  if (getStoredDataMode() === 'demo') {
+    memoryRepository ??= createMemoryLicenseRepository(localStorage);
+    return memoryRepository;
+  }
+  const client = getSupabaseClient();
+  return client ? createSupabaseLicenseRepository(client) : null;
+};
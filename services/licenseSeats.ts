@@ -0,0 +1,18 @@
+// Seat rules are shared with the client SDK, so this module must not import Supabase.
+import { License } from '../types';
+
+export const getSeatLimit = (license: License) => license.max_activations ?? 1;
+
+/**
+ * Machines currently bound to the license. Rows fetched without the embedded
+ * activations (older code paths) fall back to the legacy single `hwid` column.
+ */
+export const getActivatedMachines = (license: License): string[] => {
+  if (license.activations) return license.activations.map(a => a.hwid);
+  return license.hwid ? [license.hwid] : [];
+};
+
+export const getSeatUsage = (license: License) => ({
+  used: getActivatedMachines(license).length,
+  limit: getSeatLimit(license),
+});
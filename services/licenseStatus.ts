@@ -0,0 +1,39 @@
+import { License } from '../types';
+import { getActivatedMachines } from './licenseSeats';
+
+// 'pending': a duration key that has not been activated, so its expiry is not set yet.
+export type LicenseStatus = 'pending' | 'available' | 'active' | 'expiring' | 'expired';
+
+export const EXPIRING_SOON_DAYS = 7;
+
+// Order used when sorting by status.
+export const LICENSE_STATUS_ORDER: LicenseStatus[] = ['pending', 'available', 'active', 'expiring', 'expired'];
+
+export const isLicenseExpired = (license: Pick<License, 'expires_at'>, now: Date = new Date()) =>
+  license.expires_at !== null && new Date(license.expires_at) < now;
+
+export const getLicenseStatus = (license: License, now: Date = new Date()): LicenseStatus => {
+  if (license.expires_at === null) return 'pending';
+  const expiryDate = new Date(license.expires_at);
+  const isExpired = isLicenseExpired(license, now);
+
+  const msPerDay = 1000 * 60 * 60 * 24;
+  const diffTime = expiryDate.getTime() - now.getTime();
+  const diffDays = diffTime / msPerDay;
+  const isExpiringSoon = !isExpired && diffDays <= EXPIRING_SOON_DAYS;
+
+  if (isExpired) return 'expired';
+  if (isExpiringSoon) return 'expiring';
+  if (getActivatedMachines(license).length > 0) return 'active';
+  return 'available';
+};
+
+/**
+ * An activated key whose machines have not checked in for `days` days. Keys activated
+ * before check-ins were tracked have no `last_seen_at` and count as dormant.
+ */
+export const isDormant = (license: License, days: number, now: Date = new Date()) => {
+  if (getActivatedMachines(license).length === 0) return false;
+  if (!license.last_seen_at) return true;
+  return now.getTime() - new Date(license.last_seen_at).getTime() >= days * 24 * 60 * 60 * 1000;
+};
@@ -0,0 +1,326 @@
+import { License, LicenseActivation, LicenseEvent, LicenseHistoryEntry } from '../types';
+import type { LicenseRepository } from './licenseRepository';
+import { BatchKeyResult } from './licenseBatch';
+import { BulkResult } from './licenseBulk';
+import { addDuration, extendExpiry } from './expiry';
+import { DEFAULT_KEY_FORMAT, generateSecureKey, randomString } from './keygen';
+import { LICENSE_STATUS_ORDER, getLicenseStatus, isLicenseExpired } from './licenseStatus';
+import { getActivatedMachines } from './licenseSeats';
+import { LicenseQuery, LicenseStats, matchesLicenseQuery, matchesProduct } from './licenseQuery';
+import { NO_PRODUCT } from './catalog';
+import { historyEntriesFor } from './licenseEdit';
+import { NewLicenseHistoryEntry } from './licenseHistory';
+import { ValidationError } from './errors';
+
+const STORAGE_KEY = 'demo_licenses';
+
+const DEMO_CUSTOMERS = [
+  { customer_name: 'Công ty TNHH Minh Phát', customer_email: 'it@minhphat.vn', tags: ['doanh nghiệp'] },
+  { customer_name: 'Trần Thị Lan', customer_email: 'lan.tran@example.com', tags: [] },
+  { customer_name: 'Studio Ánh Dương', customer_email: 'contact@anhduong.studio', tags: ['vip'] },
+  { customer_name: 'Lê Văn Hùng', customer_email: 'hung.le@example.com', tags: ['đại lý'] },
+];
+
+const DEMO_SEED_SIZE = 24;
+
+const DEMO_APP_VERSIONS = ['2.3.1', '2.4.0', '2.4.2'];
+
+interface StoredState {
+  licenses: License[];
+  // Missing in demo data saved before check-ins were tracked.
+  events?: LicenseEvent[];
+  // Missing in demo data saved before renewals were tracked.
+  history?: LicenseHistoryEntry[];
+}
+
+const newMachineId = () => `HW-${randomString(12)}`;
+
+/**
+ * A spread of keys in every status: expired, expiring this week, activated, unused and
+ * duration keys still waiting for their first activation.
+ */
+const seedLicenses = (now: Date): StoredState => {
+  let nextActivationId = 1;
+  const events: LicenseEvent[] = [];
+  const history: LicenseHistoryEntry[] = [];
+  const licenses = Array.from({ length: DEMO_SEED_SIZE }, (_, index): License => {
+    const offsetDays = [-20, -2, 3, 6, 30, 90, 180, 365][index % 8];
+    const expiry = addDuration(now, { days: offsetDays });
+    expiry.setHours(23, 59, 0, 0);
+
+    const seats = index % 5 === 0 ? 3 : 1;
+    const machineCount = index % 3 === 0 ? 0 : Math.min(seats, 1 + (index % 2));
+    // Every fourth key has gone quiet for months, so the dormant filter has something to show.
+    const idleDays = index % 4 === 1 ? 120 + index : index % 7;
+    const activations: LicenseActivation[] = Array.from({ length: machineCount }, () => ({
+      id: nextActivationId++,
+      license_key: '',
+      hwid: newMachineId(),
+      first_seen_at: addDuration(now, { days: -(idleDays + 30) }).toISOString(),
+      last_seen_at: addDuration(now, { days: -idleDays }).toISOString(),
+    }));
+
+    const license_key = generateSecureKey(DEFAULT_KEY_FORMAT);
+    // Unused long-term keys are sold as durations, so their clock has not started.
+    const durationDays = machineCount === 0 && offsetDays >= 180 ? offsetDays : null;
+    activations.forEach(activation => {
+      const app_version = DEMO_APP_VERSIONS[index % DEMO_APP_VERSIONS.length];
+      const common = { license_key, hwid: activation.hwid, app_version, ip: null, country: 'VN' };
+      events.push({ ...common, id: events.length + 1, event: 'activate', created_at: activation.first_seen_at });
+      events.push({ ...common, id: events.length + 1, event: 'check', created_at: activation.last_seen_at });
+    });
+    // Activated keys were sold a few days before first use; unused ones at some point this season.
+    const created_at = activations.length > 0
+      ? addDuration(new Date(activations[0].first_seen_at), { days: -((index % 6) * 2) }).toISOString()
+      : addDuration(now, { days: -((index * 11) % 120) }).toISOString();
+    // Long-running keys were renewed once, so the analytics view has a renewal rate.
+    if (offsetDays >= 90 && activations.length > 0) {
+      const previousExpiry = addDuration(expiry, { days: -365 });
+      history.push({
+        id: history.length + 1,
+        license_key,
+        action: 'extend',
+        previous_expires_at: previousExpiry.toISOString(),
+        new_expires_at: expiry.toISOString(),
+        previous_key: null,
+        changed_by: 'demo',
+        created_at: addDuration(previousExpiry, { days: -3 }).toISOString(),
+      });
+    }
+    const customer = DEMO_CUSTOMERS[index % DEMO_CUSTOMERS.length];
+    return {
+      license_key,
+      expires_at: durationDays ? null : expiry.toISOString(),
+      duration_days: durationDays,
+      hwid: activations[0]?.hwid ?? null,
+      max_activations: seats,
+      activations: activations.map(a => ({ ...a, license_key })),
+      last_seen_at: activations[0]?.last_seen_at ?? null,
+      created_at,
+      ...customer,
+      order_id: index % 2 === 0 ? `DH-${1000 + index}` : null,
+      notes: null,
+      deleted_at: null,
+    };
+  });
+  return { licenses, events, history };
+};
+
+const compareLicenses = (a: License, b: License, sort: LicenseQuery['sort'], now: Date) => {
+  const direction = sort.direction === 'asc' ? 1 : -1;
+  let diff: number;
+  switch (sort.field) {
+    case 'license_key':
+      diff = a.license_key.localeCompare(b.license_key);
+      break;
+    case 'hwid':
+      diff = getActivatedMachines(a).length - getActivatedMachines(b).length;
+      break;
+    case 'status':
+      diff = LICENSE_STATUS_ORDER.indexOf(getLicenseStatus(a, now)) - LICENSE_STATUS_ORDER.indexOf(getLicenseStatus(b, now));
+      break;
+    case 'last_seen_at':
+      // Keys never seen sort last in both directions, like `nulls last` in the database.
+      if (!a.last_seen_at !== !b.last_seen_at) return a.last_seen_at ? -1 : 1;
+      diff = new Date(a.last_seen_at ?? 0).getTime() - new Date(b.last_seen_at ?? 0).getTime();
+      break;
+    case 'expires_at':
+    default:
+      // Keys that have not started sort last, like `nulls last` in the database.
+      if (!a.expires_at !== !b.expires_at) return a.expires_at ? -1 : 1;
+      diff = new Date(a.expires_at ?? 0).getTime() - new Date(b.expires_at ?? 0).getTime();
+  }
+  return diff * direction || a.license_key.localeCompare(b.license_key);
+};
+
+const bulkResult = (licenses: License[], apply: (key: string) => boolean): BulkResult => {
+  const result: BulkResult = { requested: licenses.length, succeeded: [], failed: [] };
+  licenses.forEach(({ license_key }) => {
+    if (apply(license_key)) result.succeeded.push(license_key);
+    else result.failed.push({ license_key, error: new ValidationError('License not found', 'validation.licenseNotFound') });
+  });
+  return result;
+};
+
+/**
+ * Repository backed by localStorage, used by demo mode. State survives reloads of the
+ * same browser; nothing is sent over the network.
+ */
+export const createMemoryLicenseRepository = (storage: Storage): LicenseRepository => {
+  const load = (): StoredState => {
+    try {
+      const stored = storage.getItem(STORAGE_KEY);
+      if (stored) return JSON.parse(stored);
+    } catch (err) {
+      console.error('Failed to read demo data, starting over', err);
+    }
+    const seeded = seedLicenses(new Date());
+    storage.setItem(STORAGE_KEY, JSON.stringify(seeded));
+    return seeded;
+  };
+
+  const state = load();
+
+  const save = () => storage.setItem(STORAGE_KEY, JSON.stringify(state));
+
+  const live = () => state.licenses.filter(l => !l.deleted_at);
+
+  const find = (key: string) => live().find(l => l.license_key === key);
+
+  // Applies `change` to a live license in place; returns false when the key is unknown.
+  const mutate = (key: string, change: (license: License) => void) => {
+    const license = find(key);
+    if (!license) return false;
+    change(license);
+    return true;
+  };
+
+  const matching = (query: LicenseQuery, now: Date) => live()
+    .filter(l => matchesLicenseQuery(l, query, now))
+    .sort((a, b) => compareLicenses(a, b, query.sort, now));
+
+  // Hands out copies so callers cannot change stored rows behind the repository's back.
+  const copy = (license: License): License => structuredClone(license);
+
+  // Same entries the Supabase repository writes, so the history views match.
+  const recordHistory = (entries: NewLicenseHistoryEntry[]) => {
+    state.history ??= [];
+    const createdAt = new Date().toISOString();
+    entries.forEach(entry => {
+      state.history.push({ ...entry, id: state.history.length + 1, changed_by: 'demo', created_at: createdAt });
+    });
+  };
+
+  const syncLegacyHwid = (license: License) => {
+    license.hwid = license.activations?.[0]?.hwid ?? null;
+  };
+
+  return {
+    mode: 'demo',
+
+    query: async (query, page, pageSize) => {
+      const rows = matching(query, new Date());
+      return { licenses: rows.slice((page - 1) * pageSize, page * pageSize).map(copy), total: rows.length };
+    },
+
+    queryAll: async query => matching(query, new Date()).map(copy),
+
+    stats: async product => {
+      const now = new Date();
+      const scoped = live().filter(l => matchesProduct(l, product));
+      const stats: LicenseStats = {
+        total: scoped.length,
+        active: scoped.filter(l => getActivatedMachines(l).length > 0).length,
+        available: scoped.filter(l => getActivatedMachines(l).length === 0 && !isLicenseExpired(l, now)).length,
+        expired: scoped.filter(l => isLicenseExpired(l, now)).length,
+      };
+      return stats;
+    },
+
+    productCounts: async productIds => {
+      const ids = [...productIds, NO_PRODUCT];
+      return new Map(ids.map(id => [id, live().filter(l => matchesProduct(l, id)).length]));
+    },
+
+    events: async licenseKey => (state.events ?? [])
+      .filter(e => e.license_key === licenseKey)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at))
+      .map(e => ({ ...e })),
+
+    expiryHistory: async since => (state.history ?? [])
+      .filter(entry => new Date(entry.created_at) >= since)
+      .map(entry => ({ ...entry })),
+
+    create: async (licenses, onProgress) => {
+      const createdAt = new Date().toISOString();
+      const results: BatchKeyResult[] = licenses.map(license => {
+        if (state.licenses.some(l => l.license_key === license.license_key)) {
+          return { license_key: license.license_key, status: 'duplicate', error: new ValidationError('Key already exists', 'licenses.keyExists') };
+        }
+        state.licenses.push({ max_activations: 1, tags: [], features: [], ...license, activations: [], created_at: createdAt, deleted_at: null });
+        return { license_key: license.license_key, status: 'created' };
+      });
+      save();
+      onProgress?.(licenses.length, licenses.length);
+      return results;
+    },
+
+    update: async (license, changes) => {
+      const newKey = changes.license_key.trim();
+      if (!newKey) throw new ValidationError('License key is required', 'validation.licenseKeyRequired');
+      if (newKey !== license.license_key && state.licenses.some(l => l.license_key === newKey)) {
+        throw new ValidationError(`License key ${newKey} already exists`, 'validation.licenseKeyExists', { key: newKey });
+      }
+
+      const stored = find(license.license_key);
+      if (!stored) throw new ValidationError('License not found', 'validation.licenseNotFound');
+      const before = copy(stored);
+      Object.assign(stored, changes, { license_key: newKey });
+      stored.activations?.forEach(a => { a.license_key = newKey; });
+      recordHistory(historyEntriesFor(before, stored));
+      save();
+      return copy(stored);
+    },
+
+    setSeatLimit: async (license, maxActivations) => {
+      if (!Number.isInteger(maxActivations) || maxActivations < 1) {
+        throw new ValidationError('Seat limit must be a positive whole number', 'validation.seatLimit');
+      }
+      const stored = find(license.license_key);
+      if (!stored) throw new ValidationError('License not found', 'validation.licenseNotFound');
+      stored.max_activations = maxActivations;
+      save();
+      return copy(stored);
+    },
+
+    extend: async (licenses, duration, base) => {
+      const now = new Date();
+      const pending = licenses.filter(l => !l.expires_at);
+      const result = bulkResult(licenses.filter(l => l.expires_at), key => mutate(key, stored => {
+        const expiresAt = extendExpiry(stored.expires_at, duration, base, now).toISOString();
+        recordHistory([{
+          license_key: stored.license_key,
+          action: 'extend',
+          previous_key: null,
+          previous_expires_at: stored.expires_at,
+          new_expires_at: expiresAt,
+        }]);
+        stored.expires_at = expiresAt;
+      }));
+      result.requested += pending.length;
+      pending.forEach(l => result.failed.push({ license_key: l.license_key, error: new ValidationError('License has not been activated yet', 'validation.notActivated') }));
+      save();
+      return result;
+    },
+
+    resetHwid: async licenses => {
+      const result = bulkResult(licenses, key => mutate(key, stored => {
+        stored.activations = [];
+        stored.hwid = null;
+      }));
+      save();
+      return result;
+    },
+
+    deactivate: async (license, hwid) => {
+      const stored = find(license.license_key);
+      const remaining = (stored?.activations ?? []).filter(a => a.hwid !== hwid);
+      if (!stored || remaining.length === (stored.activations ?? []).length) {
+        throw new ValidationError('Activation not found or not permitted', 'validation.activationNotFound');
+      }
+      stored.activations = remaining;
+      syncLegacyHwid(stored);
+      save();
+    },
+
+    delete: async licenses => {
+      const deletedAt = new Date().toISOString();
+      const result = bulkResult(licenses, key => mutate(key, stored => {
+        stored.deleted_at = deletedAt;
+        stored.deleted_by = 'demo';
+      }));
+      save();
+      return result;
+    },
+  };
+};
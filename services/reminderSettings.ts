@@ -0,0 +1,148 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License, ReminderChannel, ReminderLogEntry, ReminderSettings } from '../types';
+import { EMAIL_PATTERN } from './licenseMetadata';
+import { MISSED_REMINDER_GRACE_DAYS, reminderLookaheadDays } from './reminders';
+import { ValidationError } from './errors';
+
+const REMINDER_LOG_LIMIT = 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A channel as edited in the form: no id yet when it is new. Distributes over the
+// channel types so `type` still narrows `config`.
+export type ReminderChannelInput = ReminderChannel extends infer C
+  ? C extends ReminderChannel ? Omit<C, 'id'> & { id?: string } : never
+  : never;
+
+export const fetchReminderSettings = async (client: SupabaseClient): Promise<ReminderSettings> => {
+  const { data, error } = await client
+    .from('reminder_settings')
+    .select('thresholds, subject_template, body_template, locale, updated_at')
+    .eq('id', 1)
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const saveReminderSettings = async (client: SupabaseClient, settings: ReminderSettings) => {
+  const thresholds = Array.from(new Set(settings.thresholds)).sort((a, b) => b - a);
+  if (thresholds.length === 0) throw new ValidationError('At least one threshold is required', 'validation.thresholdRequired');
+  if (thresholds.some(t => !Number.isInteger(t) || t < 0)) throw new ValidationError('Thresholds must be whole numbers of days, 0 or more', 'validation.thresholdFormat');
+  if (!settings.subject_template.trim() || !settings.body_template.trim()) throw new ValidationError('Subject and body templates are required', 'validation.templatesRequired');
+
+  const { error } = await client
+    .from('reminder_settings')
+    .update({
+      thresholds,
+      subject_template: settings.subject_template,
+      body_template: settings.body_template,
+      locale: settings.locale,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', 1);
+
+  if (error) throw error;
+};
+
+export const fetchReminderChannels = async (client: SupabaseClient): Promise<ReminderChannel[]> => {
+  const { data, error } = await client
+    .from('reminder_channels')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const isHttpUrl = (value: string | undefined) => {
+  try {
+    return !!value && ['http:', 'https:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+};
+
+const validateChannel = (channel: ReminderChannelInput) => {
+  if (!channel.name.trim()) throw new ValidationError('Channel name is required', 'validation.channelNameRequired');
+  switch (channel.type) {
+    case 'email':
+      if (channel.config.recipient === 'fixed' && !EMAIL_PATTERN.test(channel.config.address ?? '')) {
+        throw new ValidationError(`Invalid email: ${channel.config.address ?? ''}`, 'validation.invalidEmail', { email: channel.config.address ?? '' });
+      }
+      return;
+    case 'webhook':
+      if (!isHttpUrl(channel.config.url)) throw new ValidationError('Webhook URL must be an http(s) URL', 'validation.webhookUrl');
+      return;
+    case 'bot':
+      if (!isHttpUrl(channel.config.url)) throw new ValidationError('Bot endpoint must be an http(s) URL', 'validation.botUrl');
+      if (!channel.config.chat_id.trim()) throw new ValidationError('Chat or user id is required', 'validation.chatIdRequired');
+      return;
+  }
+};
+
+export const saveReminderChannel = async (client: SupabaseClient, channel: ReminderChannelInput) => {
+  validateChannel(channel);
+  const { id, created_at, ...fields } = channel;
+  const payload = { ...fields, name: channel.name.trim() };
+  const query = id
+    ? client.from('reminder_channels').update(payload).eq('id', id)
+    : client.from('reminder_channels').insert(payload);
+  const { error } = await query;
+
+  if (error) throw error;
+};
+
+export const deleteReminderChannel = async (client: SupabaseClient, id: string) => {
+  const { error } = await client.from('reminder_channels').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Most recent sends and failures, newest first.
+ */
+export const fetchReminderLog = async (client: SupabaseClient): Promise<ReminderLogEntry[]> => {
+  const { data, error } = await client
+    .from('license_reminders')
+    .select('*')
+    .order('sent_at', { ascending: false })
+    .limit(REMINDER_LOG_LIMIT);
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Log rows for expiries on or after `since`, which covers every reminder that can still
+ * be due. Used by the dry run to leave out reminders already sent.
+ */
+export const fetchReminderLogSince = async (client: SupabaseClient, since: Date): Promise<ReminderLogEntry[]> => {
+  const { data, error } = await client
+    .from('license_reminders')
+    .select('*')
+    .gte('expires_at', since.toISOString());
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Expiry window that can match a threshold, with a day of slack on each side for time zones.
+ */
+export const reminderWindow = (settings: ReminderSettings, now: Date = new Date()) => ({
+  from: new Date(now.getTime() - (MISSED_REMINDER_GRACE_DAYS + 1) * DAY_MS),
+  to: new Date(now.getTime() + (reminderLookaheadDays(settings) + 1) * DAY_MS),
+});
+
+// One response, so at most PostgREST's row cap; enough for a preview. The worker pages.
+export const fetchReminderCandidates = async (client: SupabaseClient, window: { from: Date, to: Date }): Promise<License[]> => {
+  const { data, error } = await client
+    .from('licenses')
+    .select('*')
+    .is('deleted_at', null)
+    .gte('expires_at', window.from.toISOString())
+    .lte('expires_at', window.to.toISOString())
+    .order('expires_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
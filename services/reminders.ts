@@ -0,0 +1,106 @@
+// Expiry reminder planning. Shared by the dashboard's dry run and packages/reminder-worker,
+// so this module must not import Supabase.
+import { License, ReminderChannel, ReminderChannelType, ReminderLogEntry, ReminderSettings } from '../types';
+import { Locale, formatDate, translate } from './i18n';
+
+export const DEFAULT_THRESHOLDS = [30, 7, 1, 0];
+
+// The expiry-day reminder is still sent when the worker missed that day by this much.
+export const MISSED_REMINDER_GRACE_DAYS = 2;
+
+export const TEMPLATE_PLACEHOLDERS = ['license_key', 'customer_name', 'customer_email', 'order_id', 'expires_at', 'days_left', 'threshold'];
+
+export const REMINDER_CHANNEL_TYPES: ReminderChannelType[] = ['email', 'webhook', 'bot'];
+
+export interface ReminderMessage {
+  license: License;
+  channel: ReminderChannel;
+  threshold: number;
+  daysLeft: number;
+  subject: string;
+  body: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+/**
+ * Calendar days from `now` to the expiry: 0 on the expiry day, negative afterwards.
+ */
+export const daysUntilExpiry = (expiresAt: string, now: Date = new Date()) =>
+  Math.round((startOfDay(new Date(expiresAt)).getTime() - startOfDay(now).getTime()) / DAY_MS);
+
+/**
+ * The most urgent threshold the license has crossed, or null when none applies. Only
+ * that one is sent, so a worker that starts late does not send every earlier reminder.
+ */
+export const dueThreshold = (license: Pick<License, 'expires_at'>, thresholds: number[], now: Date = new Date()): number | null => {
+  if (!license.expires_at) return null;
+  const daysLeft = daysUntilExpiry(license.expires_at, now);
+  if (daysLeft < 0) return thresholds.includes(0) && daysLeft >= -MISSED_REMINDER_GRACE_DAYS ? 0 : null;
+  const crossed = thresholds.filter(threshold => threshold >= daysLeft);
+  return crossed.length > 0 ? Math.min(...crossed) : null;
+};
+
+/**
+ * Farthest expiry, in days from now, that any threshold can match.
+ */
+export const reminderLookaheadDays = (settings: Pick<ReminderSettings, 'thresholds'>) => Math.max(0, ...settings.thresholds);
+
+// Timestamps come back from PostgREST as `+00:00`; normalise so keys compare equal.
+export const reminderKey = (licenseKey: string, expiresAt: string, threshold: number, channelId: string) =>
+  `${licenseKey}|${new Date(expiresAt).toISOString()}|${threshold}|${channelId}`;
+
+export const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/{{\s*(\w+)\s*}}/g, (match, name: string) => values[name] ?? match);
+
+export const templateValues = (license: License, daysLeft: number, threshold: number, locale: Locale): Record<string, string> => ({
+  license_key: license.license_key,
+  customer_name: license.customer_name || translate(locale, 'reminders.defaultCustomerName'),
+  customer_email: license.customer_email || '',
+  order_id: license.order_id || '',
+  expires_at: formatDate(license.expires_at, locale),
+  days_left: String(Math.max(0, daysLeft)),
+  threshold: String(threshold),
+});
+
+// Customer emails can only go to keys that have an address.
+const canDeliver = (channel: ReminderChannel, license: License) =>
+  channel.type !== 'email' || channel.config.recipient !== 'customer' || !!license.customer_email;
+
+/**
+ * Messages due now for every enabled channel, leaving out anything already sent.
+ * Failed sends are planned again so the next run retries them.
+ */
+export const planReminders = ({ licenses, settings, channels, log, now = new Date() }: {
+  licenses: License[],
+  settings: ReminderSettings,
+  channels: ReminderChannel[],
+  log: Pick<ReminderLogEntry, 'license_key' | 'expires_at' | 'threshold_days' | 'channel_id' | 'status'>[],
+  now?: Date,
+}): ReminderMessage[] => {
+  const sent = new Set(log
+    .filter(entry => entry.status === 'sent')
+    .map(entry => reminderKey(entry.license_key, entry.expires_at, entry.threshold_days, entry.channel_id)));
+
+  return licenses.flatMap(license => {
+    if (license.deleted_at) return [];
+    const threshold = dueThreshold(license, settings.thresholds, now);
+    if (threshold === null) return [];
+
+    const daysLeft = daysUntilExpiry(license.expires_at, now);
+    const values = templateValues(license, daysLeft, threshold, settings.locale);
+    return channels
+      .filter(channel => channel.enabled && canDeliver(channel, license))
+      .filter(channel => !sent.has(reminderKey(license.license_key, license.expires_at, threshold, channel.id)))
+      .map(channel => ({
+        license,
+        channel,
+        threshold,
+        daysLeft,
+        subject: renderTemplate(settings.subject_template, values),
+        body: renderTemplate(settings.body_template, values),
+      }));
+  });
+};
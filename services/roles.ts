@@ -0,0 +1,92 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { Role, TeamMember } from '../types';
+import { getCurrentUserEmail } from './supabase';
+import { EMAIL_PATTERN } from './licenseMetadata';
+import { ValidationError } from './errors';
+
+export const ROLES: Role[] = ['viewer', 'support', 'admin'];
+
+export type Permission =
+  | 'extend'
+  | 'reset_hwid'
+  | 'create'
+  | 'edit'
+  | 'delete'
+  | 'manage_seats'
+  | 'issue_offline'
+  | 'manage_catalog'
+  | 'manage_trash'
+  | 'manage_team'
+  | 'manage_reminders'
+  | 'manage_webhooks';
+
+// Lowest role allowed to do each thing. Keep in line with the RLS policies in the
+// user_roles migration; the UI only hides what the database would refuse anyway.
+const REQUIRED_ROLE: Record<Permission, Role> = {
+  extend: 'support',
+  reset_hwid: 'support',
+  create: 'admin',
+  edit: 'admin',
+  delete: 'admin',
+  manage_seats: 'admin',
+  issue_offline: 'admin',
+  manage_catalog: 'admin',
+  manage_trash: 'admin',
+  manage_team: 'admin',
+  manage_reminders: 'admin',
+  manage_webhooks: 'admin',
+};
+
+export const can = (role: Role | null, permission: Permission) =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(REQUIRED_ROLE[permission]);
+
+// Codes PostgREST/Postgres use for a missing table, i.e. the roles migration is not applied.
+const MISSING_TABLE_CODES = ['PGRST205', '42P01'];
+
+/**
+ * Role of the signed-in user, or null when they have none. Emails in VITE_ADMIN_EMAILS
+ * (everyone, if the list is empty) are only treated as admins on projects that do not
+ * have the roles table yet; the first admin of a project is added with SQL.
+ */
+export const resolveRole = async (client: SupabaseClient, email: string, adminEmails: string[]): Promise<Role | null> => {
+  const normalized = email.toLowerCase();
+  const isListedAdmin = adminEmails.length === 0 || adminEmails.includes(normalized);
+
+  const { data, error } = await client
+    .from('user_roles')
+    .select('role')
+    .eq('email', normalized)
+    .maybeSingle();
+
+  if (error) {
+    if (MISSING_TABLE_CODES.includes(error.code)) return isListedAdmin ? 'admin' : null;
+    throw error;
+  }
+  return data?.role ?? null;
+};
+
+export const fetchTeam = async (client: SupabaseClient): Promise<TeamMember[]> => {
+  const { data, error } = await client
+    .from('user_roles')
+    .select('*')
+    .order('email', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const saveTeamMember = async (client: SupabaseClient, email: string, role: Role) => {
+  const normalized = email.trim().toLowerCase();
+  if (!EMAIL_PATTERN.test(normalized)) throw new ValidationError(`Invalid email: ${email}`, 'validation.invalidEmail', { email });
+
+  const { error } = await client
+    .from('user_roles')
+    .upsert({ email: normalized, role, updated_by: await getCurrentUserEmail() });
+
+  if (error) throw error;
+};
+
+export const removeTeamMember = async (client: SupabaseClient, email: string) => {
+  const { error } = await client.from('user_roles').delete().eq('email', email);
+  if (error) throw error;
+};
@@ -1,5 +1,6 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import { SupabaseCredentials } from '../types';
+import { ValidationError } from './errors';
 
 let supabaseInstance: SupabaseClient | null = null;
 
@@ -7,40 +8,29 @@ export const getSupabaseClient = (): SupabaseClient | null => {
   return supabaseInstance;
 };
 
-export const initSupabase = (creds: SupabaseCredentials): { success: boolean, error?: string } => {
+export const initSupabase = (creds: SupabaseCredentials): { success: boolean, error?: Error } => {
   try {
-    if (!creds.url) return { success: false, error: 'Supabase URL is required' };
-    if (!creds.key) return { success: false, error: 'Supabase Anon Key is required' };
+    if (!creds.url) return { success: false, error: new ValidationError('Supabase URL is required', 'validation.supabaseUrlRequired') };
+    if (!creds.key) return { success: false, error: new ValidationError('Supabase Anon Key is required', 'validation.anonKeyRequired') };
 
     // Validate URL format to prevent createClient crash
     try {
       new URL(creds.url);
     } catch (e) {
-      return { success: false, error: 'Invalid supabaseUrl: Must be a valid HTTP or HTTPS URL.' };
+      return { success: false, error: new ValidationError('Invalid supabaseUrl: Must be a valid HTTP or HTTPS URL.', 'validation.supabaseUrlInvalid') };
     }
 
     supabaseInstance = createClient(creds.url, creds.key);
     return { success: true };
   } catch (e: any) {
     console.error("Failed to init supabase", e);
-    return { success: false, error: e.message || "Unknown error initializing Supabase" };
+    return { success: false, error: e };
   }
 };
 
-export const getStoredCredentials = (): SupabaseCredentials | null => {
-  const url = localStorage.getItem('sb_url');
-  const key = localStorage.getItem('sb_key');
-  if (url && key) return { url, key };
-  return null;
-};
-
-export const saveCredentials = (creds: SupabaseCredentials) => {
-  localStorage.setItem('sb_url', creds.url);
-  localStorage.setItem('sb_key', creds.key);
-};
-
-export const clearCredentials = () => {
-  localStorage.removeItem('sb_url');
-  localStorage.removeItem('sb_key');
-  supabaseInstance = null;
+// Email of the signed-in admin, read from the locally cached session.
+export const getCurrentUserEmail = async (): Promise<string | null> => {
+  if (!supabaseInstance) return null;
+  const { data } = await supabaseInstance.auth.getSession();
+  return data.session?.user.email ?? null;
 };
@@ -0,0 +1,31 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { LicenseRepository } from './licenseRepository';
+import { insertLicensesInChunks } from './licenseBatch';
+import { bulkDelete, bulkExtend, bulkResetHwid } from './licenseBulk';
+import { saveLicenseChanges } from './licenseEdit';
+import { deactivateMachine, setSeatLimit } from './licenseActivations';
+import { fetchAllMatchingLicenses, fetchLicensePage, fetchLicenseStats, fetchProductCounts } from './licenseQuery';
+import { subscribeToLicenseChanges } from './licenseRealtime';
+import { fetchLicenseEvents } from './licenseEvents';
+import { fetchExpiryHistory } from './licenseHistory';
+
+export const createSupabaseLicenseRepository = (client: SupabaseClient): LicenseRepository => ({
+  mode: 'supabase',
+
+  query: (query, page, pageSize) => fetchLicensePage(client, query, page, pageSize),
+  queryAll: query => fetchAllMatchingLicenses(client, query),
+  stats: product => fetchLicenseStats(client, product),
+  productCounts: productIds => fetchProductCounts(client, productIds),
+  events: licenseKey => fetchLicenseEvents(client, licenseKey),
+  expiryHistory: since => fetchExpiryHistory(client, since),
+
+  create: (licenses, onProgress) => insertLicensesInChunks(client, licenses, onProgress),
+  update: (license, changes) => saveLicenseChanges(client, license, changes),
+  setSeatLimit: (license, maxActivations) => setSeatLimit(client, license, maxActivations),
+  extend: (licenses, duration, base) => bulkExtend(client, licenses, duration, base),
+  resetHwid: licenses => bulkResetHwid(client, licenses),
+  deactivate: (license, hwid) => deactivateMachine(client, license, hwid),
+  delete: licenses => bulkDelete(client, licenses),
+
+  subscribe: handlers => subscribeToLicenseChanges(client, handlers),
+});
@@ -0,0 +1,45 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { License } from '../types';
+import { ValidationError } from './errors';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Shared by the whole team; the daily purge job in the database reads the same row.
+export const fetchTrashRetentionDays = async (client: SupabaseClient): Promise<number> => {
+  const { data, error } = await client
+    .from('trash_settings')
+    .select('retention_days')
+    .eq('id', 1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.retention_days ?? DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+export const saveTrashRetentionDays = async (client: SupabaseClient, days: number) => {
+  if (!Number.isInteger(days) || days < 1) throw new ValidationError('Retention must be a positive whole number of days', 'validation.retentionDays');
+  const { error } = await client
+    .from('trash_settings')
+    .update({ retention_days: days, updated_at: new Date().toISOString() })
+    .eq('id', 1);
+
+  if (error) throw error;
+};
+
+export const fetchTrash = async (client: SupabaseClient): Promise<License[]> => {
+  const { data, error } = await client
+    .from('licenses')
+    .select('*')
+    .not('deleted_at', 'is', null)
+    .order('deleted_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const purgeDate = (license: License, retentionDays: number): Date | null => {
+  if (!license.deleted_at) return null;
+  const date = new Date(license.deleted_at);
+  date.setDate(date.getDate() + retentionDays);
+  return date;
+};
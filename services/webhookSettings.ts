@@ -0,0 +1,96 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { WebhookDelivery, WebhookDeliveryStatus, WebhookEndpoint, WebhookEvent } from '../types';
+import { WEBHOOK_EVENTS } from './webhooks';
+import { ValidationError } from './errors';
+
+const DELIVERY_LOG_LIMIT = 100;
+
+export type WebhookEndpointInput = Omit<WebhookEndpoint, 'id'> & { id?: string };
+
+export interface WebhookDeliveryFilters {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus | '';
+  event?: WebhookEvent | '';
+}
+
+/**
+ * Random signing secret, shown to the admin once so they can configure the receiver.
+ */
+export const generateWebhookSecret = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(24));
+  return `whsec_${Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('')}`;
+};
+
+export const fetchWebhookEndpoints = async (client: SupabaseClient): Promise<WebhookEndpoint[]> => {
+  const { data, error } = await client
+    .from('webhook_endpoints')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+const validateEndpoint = (endpoint: WebhookEndpointInput) => {
+  if (!endpoint.name.trim()) throw new ValidationError('Endpoint name is required', 'validation.endpointNameRequired');
+  let url: URL;
+  try {
+    url = new URL(endpoint.url);
+  } catch {
+    throw new ValidationError(`Invalid URL: ${endpoint.url}`, 'validation.invalidUrl', { url: endpoint.url });
+  }
+  if (!['http:', 'https:'].includes(url.protocol)) throw new ValidationError('Webhook URL must be an http(s) URL', 'validation.webhookUrl');
+  if (endpoint.events.length === 0) throw new ValidationError('Choose at least one event', 'validation.noEvents');
+  const unknown = endpoint.events.find(event => !WEBHOOK_EVENTS.includes(event));
+  if (unknown) throw new ValidationError(`Unknown event: ${unknown}`, 'validation.unknownEvent', { event: unknown });
+  if (endpoint.secret.length < 16) throw new ValidationError('Signing secret must be at least 16 characters', 'validation.secretLength');
+};
+
+export const saveWebhookEndpoint = async (client: SupabaseClient, endpoint: WebhookEndpointInput) => {
+  validateEndpoint(endpoint);
+  const { id, created_at, ...fields } = endpoint;
+  const payload = { ...fields, name: endpoint.name.trim(), url: endpoint.url.trim() };
+  const query = id
+    ? client.from('webhook_endpoints').update(payload).eq('id', id)
+    : client.from('webhook_endpoints').insert(payload);
+  const { error } = await query;
+
+  if (error) throw error;
+};
+
+export const deleteWebhookEndpoint = async (client: SupabaseClient, id: string) => {
+  const { error } = await client.from('webhook_endpoints').delete().eq('id', id);
+  if (error) throw error;
+};
+
+/**
+ * Most recent deliveries, newest first.
+ */
+export const fetchWebhookDeliveries = async (client: SupabaseClient, filters: WebhookDeliveryFilters = {}): Promise<WebhookDelivery[]> => {
+  let query = client
+    .from('webhook_deliveries')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(DELIVERY_LOG_LIMIT);
+
+  if (filters.endpointId) query = query.eq('endpoint_id', filters.endpointId);
+  if (filters.status) query = query.eq('status', filters.status);
+  if (filters.event) query = query.eq('event', filters.event);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Puts a delivery back in the queue with a fresh set of retries. The worker sends it
+ * on its next run with the original payload, so receivers can dedupe on its id.
+ */
+export const redeliverWebhook = async (client: SupabaseClient, id: number) => {
+  const { error } = await client
+    .from('webhook_deliveries')
+    .update({ status: 'pending', attempts: 0, next_attempt_at: new Date().toISOString(), last_error: null })
+    .eq('id', id);
+
+  if (error) throw error;
+};
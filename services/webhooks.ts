@@ -0,0 +1,28 @@
+// Webhook event names and retry policy. Shared by the dashboard and packages/webhook-worker,
+// so this module must not import Supabase.
+import { WebhookEvent } from '../types';
+
+export const WEBHOOK_EVENTS: WebhookEvent[] = [
+  'license.created',
+  'license.activated',
+  'license.reset',
+  'license.extended',
+  'license.expired',
+  'license.deleted',
+];
+
+// After this many failed attempts a delivery is marked failed and only sent again by hand.
+export const MAX_DELIVERY_ATTEMPTS = 10;
+
+const RETRY_BASE_MS = 60 * 1000;
+
+/**
+ * Wait before the next attempt once `attempts` have failed: 1, 2, 4, ... minutes, so
+ * the last retry comes a little over eight hours after the first try.
+ */
+export const retryDelayMs = (attempts: number) => RETRY_BASE_MS * 2 ** Math.max(0, attempts - 1);
+
+export const SIGNATURE_HEADER = 'X-Webhook-Signature';
+export const TIMESTAMP_HEADER = 'X-Webhook-Timestamp';
+export const EVENT_HEADER = 'X-Webhook-Event';
+export const DELIVERY_ID_HEADER = 'X-Webhook-Id';
@@ -0,0 +1,26 @@
+-- Expiry and key changes made from the dashboard, used as the renewal history of a license.
+create table if not exists public.license_history (
+  id bigint generated always as identity primary key,
+  license_key text not null references public.licenses (license_key) on update cascade on delete cascade,
+  action text not null check (action in ('extend', 'edit', 'rename')),
+  previous_expires_at timestamptz,
+  new_expires_at timestamptz,
+  previous_key text,
+  changed_by text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists license_history_license_key_idx
+  on public.license_history (license_key, created_at desc);
+
+alter table public.license_history enable row level security;
+
+create policy "Authenticated users can read license history"
+  on public.license_history for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can add license history"
+  on public.license_history for insert
+  to authenticated
+  with check (true);
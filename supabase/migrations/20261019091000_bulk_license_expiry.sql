@@ -0,0 +1,25 @@
+-- Sets a different expiry on many licenses in one round-trip.
+-- `p_changes` is a JSON array of {"license_key": text, "expires_at": timestamptz}.
+-- Runs with the caller's privileges, so row level security still applies.
+create or replace function public.set_license_expiries(p_changes jsonb)
+returns table (license_key text, previous_expires_at timestamptz, new_expires_at timestamptz)
+language sql
+security invoker
+as $$
+  with changes as (
+    select c.license_key, c.expires_at
+    from jsonb_to_recordset(p_changes) as c (license_key text, expires_at timestamptz)
+  ),
+  previous as (
+    select l.license_key, l.expires_at
+    from public.licenses l
+    join changes c on c.license_key = l.license_key
+    for update of l
+  )
+  update public.licenses l
+  set expires_at = c.expires_at
+  from changes c
+  join previous p on p.license_key = c.license_key
+  where l.license_key = c.license_key
+  returning l.license_key, p.expires_at, l.expires_at;
+$$;
@@ -0,0 +1,28 @@
+-- Trace of every administrative change made from the dashboard.
+-- No foreign key on license_key: entries must outlive deleted licenses.
+create table if not exists public.audit_log (
+  id bigint generated always as identity primary key,
+  actor_email text,
+  action text not null,
+  license_key text not null,
+  before jsonb,
+  after jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists audit_log_created_at_idx on public.audit_log (created_at desc);
+create index if not exists audit_log_license_key_idx on public.audit_log (license_key, created_at desc);
+create index if not exists audit_log_actor_idx on public.audit_log (actor_email, created_at desc);
+
+alter table public.audit_log enable row level security;
+
+create policy "Authenticated users can read the audit log"
+  on public.audit_log for select
+  to authenticated
+  using (true);
+
+-- Entries are append-only and always attributed to the caller.
+create policy "Authenticated users can append to the audit log"
+  on public.audit_log for insert
+  to authenticated
+  with check (actor_email = auth.jwt() ->> 'email');
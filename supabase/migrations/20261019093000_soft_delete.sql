@@ -0,0 +1,8 @@
+-- Deleting from the dashboard only marks a license; rows are purged from the trash later.
+alter table public.licenses
+  add column if not exists deleted_at timestamptz,
+  add column if not exists deleted_by text;
+
+create index if not exists licenses_deleted_at_idx
+  on public.licenses (deleted_at)
+  where deleted_at is not null;
@@ -0,0 +1,74 @@
+-- Seat limits: a license can be bound to up to `max_activations` machines.
+alter table public.licenses
+  add column if not exists max_activations integer not null default 1 check (max_activations > 0);
+
+create table if not exists public.license_activations (
+  id bigint generated always as identity primary key,
+  license_key text not null references public.licenses (license_key) on update cascade on delete cascade,
+  hwid text not null,
+  first_seen_at timestamptz not null default now(),
+  last_seen_at timestamptz not null default now(),
+  unique (license_key, hwid)
+);
+
+-- Existing single-machine bindings become the first activation of each key.
+insert into public.license_activations (license_key, hwid)
+select license_key, hwid from public.licenses where hwid is not null
+on conflict (license_key, hwid) do nothing;
+
+-- Older desktop builds still write `licenses.hwid` directly. Mirror those writes into
+-- the activations table, and keep `hwid` pointing at a machine that is still activated.
+create or replace function public.sync_legacy_hwid_activation()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.hwid is not null then
+    if tg_op = 'INSERT' or new.hwid is distinct from old.hwid then
+      insert into public.license_activations (license_key, hwid)
+      values (new.license_key, new.hwid)
+      on conflict (license_key, hwid) do nothing;
+    end if;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists licenses_sync_legacy_hwid on public.licenses;
+create trigger licenses_sync_legacy_hwid
+  after insert or update of hwid on public.licenses
+  for each row execute function public.sync_legacy_hwid_activation();
+
+create or replace function public.release_legacy_hwid()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.licenses
+  set hwid = (
+    select a.hwid from public.license_activations a
+    where a.license_key = old.license_key
+    order by a.first_seen_at
+    limit 1
+  )
+  where license_key = old.license_key and hwid = old.hwid;
+  return old;
+end;
+$$;
+
+drop trigger if exists license_activations_release_legacy_hwid on public.license_activations;
+create trigger license_activations_release_legacy_hwid
+  after delete on public.license_activations
+  for each row execute function public.release_legacy_hwid();
+
+alter table public.license_activations enable row level security;
+
+create policy "Authenticated users can read activations"
+  on public.license_activations for select
+  to authenticated
+  using (true);
+
+create policy "Authenticated users can remove activations"
+  on public.license_activations for delete
+  to authenticated
+  using (true);
@@ -0,0 +1,11 @@
+-- Customer and order details so support can find a key without an external spreadsheet.
+alter table public.licenses
+  add column if not exists customer_name text,
+  add column if not exists customer_email text,
+  add column if not exists order_id text,
+  add column if not exists notes text,
+  add column if not exists tags text[] not null default '{}';
+
+create index if not exists licenses_customer_email_idx on public.licenses (lower(customer_email));
+create index if not exists licenses_order_id_idx on public.licenses (order_id);
+create index if not exists licenses_tags_idx on public.licenses using gin (tags);
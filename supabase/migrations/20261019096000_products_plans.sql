@@ -0,0 +1,41 @@
+-- Catalog of sellable products and their plans (tiers).
+create table if not exists public.products (
+  id uuid primary key default gen_random_uuid(),
+  name text not null unique,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.plans (
+  id uuid primary key default gen_random_uuid(),
+  product_id uuid not null references public.products (id) on delete cascade,
+  name text not null,
+  duration_days integer not null check (duration_days > 0),
+  max_activations integer not null default 1 check (max_activations > 0),
+  features text[] not null default '{}',
+  created_at timestamptz not null default now(),
+  unique (product_id, name)
+);
+
+-- Features are copied from the plan when a key is issued, so later catalog edits do not
+-- change what an already sold key unlocks.
+alter table public.licenses
+  add column if not exists product_id uuid references public.products (id) on delete set null,
+  add column if not exists plan_id uuid references public.plans (id) on delete set null,
+  add column if not exists features text[] not null default '{}';
+
+create index if not exists licenses_product_id_idx on public.licenses (product_id);
+
+alter table public.products enable row level security;
+alter table public.plans enable row level security;
+
+create policy "Authenticated users can manage products"
+  on public.products for all
+  to authenticated
+  using (true)
+  with check (true);
+
+create policy "Authenticated users can manage plans"
+  on public.plans for all
+  to authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,31 @@
+-- Computed columns so the dashboard can sort and filter on derived values server-side.
+-- PostgREST exposes `f(licenses)` functions as virtual columns of `licenses`.
+
+create or replace function public.activation_count(l public.licenses)
+returns integer
+language sql
+stable
+as $$
+  select count(*)::integer from public.license_activations a where a.license_key = l.license_key;
+$$;
+
+-- Mirrors getLicenseStatus: available < active < expiring (7 days) < expired.
+create or replace function public.status_rank(l public.licenses)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when l.expires_at < now() then 3
+    when l.expires_at <= now() + interval '7 days' then 2
+    when l.hwid is not null
+      or exists (select 1 from public.license_activations a where a.license_key = l.license_key) then 1
+    else 0
+  end;
+$$;
+
+-- Substring search (ilike '%term%') on keys needs a trigram index to stay fast.
+create extension if not exists pg_trgm;
+
+create index if not exists licenses_expires_at_idx on public.licenses (expires_at) where deleted_at is null;
+create index if not exists licenses_license_key_trgm_idx on public.licenses using gin (license_key gin_trgm_ops);
@@ -0,0 +1,7 @@
+-- Stream license and activation changes to the dashboard through Supabase Realtime.
+-- Full replica identity so DELETE events carry the whole old row (license_key, hwid),
+-- not just the primary key.
+alter table public.licenses replica identity full;
+alter table public.license_activations replica identity full;
+
+alter publication supabase_realtime add table public.licenses, public.license_activations;
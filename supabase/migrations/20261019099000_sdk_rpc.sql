@@ -0,0 +1,126 @@
+-- Entry points for the client SDK (packages/license-sdk). Desktop apps only hold the
+-- anon key, so they cannot read `licenses` directly; these functions run as the owner
+-- and return just what an app needs to decide whether to unlock.
+
+-- Fields exposed to apps. Customer details, notes and tags stay private to the dashboard.
+create or replace function public.sdk_license_payload(p_status text, p_license public.licenses)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'status', p_status,
+    'license', jsonb_build_object(
+      'license_key', p_license.license_key,
+      'expires_at', p_license.expires_at,
+      'hwid', p_license.hwid,
+      'max_activations', p_license.max_activations,
+      'product_id', p_license.product_id,
+      'plan_id', p_license.plan_id,
+      'features', p_license.features,
+      'activations', coalesce((
+        select jsonb_agg(jsonb_build_object(
+          'id', a.id,
+          'license_key', a.license_key,
+          'hwid', a.hwid,
+          'first_seen_at', a.first_seen_at,
+          'last_seen_at', a.last_seen_at
+        ) order by a.first_seen_at)
+        from public.license_activations a
+        where a.license_key = p_license.license_key
+      ), '[]'::jsonb)
+    )
+  );
+$$;
+
+-- Binds `p_hwid` to the key if a seat is free. Activating a machine that is already
+-- bound only refreshes `last_seen_at`.
+create or replace function public.sdk_activate(p_license_key text, p_hwid text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+  v_used integer;
+begin
+  -- Row lock so two machines cannot take the last seat at the same time.
+  select * into v_license from public.licenses where license_key = p_license_key for update;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+
+  if not found then
+    select count(*) into v_used from public.license_activations where license_key = p_license_key;
+    if v_used >= v_license.max_activations then
+      return public.sdk_license_payload('hwid_mismatch', v_license);
+    end if;
+
+    insert into public.license_activations (license_key, hwid) values (p_license_key, p_hwid);
+    -- Keep the legacy column filled for older builds that still read it.
+    update public.licenses set hwid = p_hwid where license_key = p_license_key and hwid is null
+    returning * into v_license;
+    if not found then
+      select * into v_license from public.licenses where license_key = p_license_key;
+    end if;
+  end if;
+
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+-- Checks that `p_hwid` is one of the key's activated machines without taking a seat.
+create or replace function public.sdk_validate(p_license_key text, p_hwid text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+  if not found then return public.sdk_license_payload('hwid_mismatch', v_license); end if;
+
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+-- Frees the seat held by `p_hwid`, e.g. when the app is uninstalled.
+create or replace function public.sdk_deactivate(p_license_key text, p_hwid text)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+
+  delete from public.license_activations where license_key = p_license_key and hwid = p_hwid;
+  if not found then return public.sdk_license_payload('hwid_mismatch', v_license); end if;
+
+  select * into v_license from public.licenses where license_key = p_license_key;
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+revoke all on function public.sdk_license_payload(text, public.licenses) from public;
+grant execute on function public.sdk_activate(text, text) to anon, authenticated;
+grant execute on function public.sdk_validate(text, text) to anon, authenticated;
+grant execute on function public.sdk_deactivate(text, text) to anon, authenticated;
@@ -0,0 +1,183 @@
+-- Client telemetry: every successful activation, check-in and deactivation from the SDK
+-- is logged, and each license keeps the time any of its machines was last seen.
+create table if not exists public.license_events (
+  id bigint generated always as identity primary key,
+  license_key text not null references public.licenses (license_key) on update cascade on delete cascade,
+  hwid text not null,
+  event text not null check (event in ('activate', 'check', 'deactivate')),
+  app_version text,
+  ip text,
+  country text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists license_events_license_key_idx on public.license_events (license_key, created_at desc);
+
+alter table public.license_events enable row level security;
+
+create policy "Authenticated users can read license events"
+  on public.license_events for select
+  to authenticated
+  using (true);
+
+alter table public.licenses add column if not exists last_seen_at timestamptz;
+
+create index if not exists licenses_last_seen_at_idx on public.licenses (last_seen_at);
+
+update public.licenses l
+set last_seen_at = seen.last_seen_at
+from (
+  select license_key, max(last_seen_at) as last_seen_at
+  from public.license_activations
+  group by license_key
+) seen
+where seen.license_key = l.license_key;
+
+-- Whatever touches an activation (SDK, older builds writing `hwid`, manual edits) moves
+-- the license's `last_seen_at` forward; it never moves back.
+create or replace function public.touch_license_last_seen()
+returns trigger
+language plpgsql
+as $$
+begin
+  update public.licenses
+  set last_seen_at = new.last_seen_at
+  where license_key = new.license_key
+    and (last_seen_at is null or last_seen_at < new.last_seen_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists license_activations_touch_last_seen on public.license_activations;
+create trigger license_activations_touch_last_seen
+  after insert or update of last_seen_at on public.license_activations
+  for each row execute function public.touch_license_last_seen();
+
+-- The SDK functions gain optional telemetry arguments. The old two-argument versions
+-- are dropped so PostgREST does not have to choose between overloads.
+drop function if exists public.sdk_activate(text, text);
+drop function if exists public.sdk_validate(text, text);
+drop function if exists public.sdk_deactivate(text, text);
+
+create or replace function public.sdk_record_event(
+  p_license_key text,
+  p_hwid text,
+  p_event text,
+  p_app_version text,
+  p_ip text,
+  p_country text
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+  insert into public.license_events (license_key, hwid, event, app_version, ip, country)
+  values (p_license_key, p_hwid, p_event, nullif(p_app_version, ''), nullif(p_ip, ''), nullif(upper(p_country), ''));
+$$;
+
+revoke all on function public.sdk_record_event(text, text, text, text, text, text) from public;
+
+create or replace function public.sdk_activate(
+  p_license_key text,
+  p_hwid text,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+  v_used integer;
+begin
+  -- Row lock so two machines cannot take the last seat at the same time.
+  select * into v_license from public.licenses where license_key = p_license_key for update;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+
+  if not found then
+    select count(*) into v_used from public.license_activations where license_key = p_license_key;
+    if v_used >= v_license.max_activations then
+      return public.sdk_license_payload('hwid_mismatch', v_license);
+    end if;
+
+    insert into public.license_activations (license_key, hwid) values (p_license_key, p_hwid);
+    -- Keep the legacy column filled for older builds that still read it.
+    update public.licenses set hwid = p_hwid where license_key = p_license_key and hwid is null;
+  end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'activate', p_app_version, p_ip, p_country);
+  select * into v_license from public.licenses where license_key = p_license_key;
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+create or replace function public.sdk_validate(
+  p_license_key text,
+  p_hwid text,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+  if not found then return public.sdk_license_payload('hwid_mismatch', v_license); end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'check', p_app_version, p_ip, p_country);
+  select * into v_license from public.licenses where license_key = p_license_key;
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+create or replace function public.sdk_deactivate(
+  p_license_key text,
+  p_hwid text,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+
+  delete from public.license_activations where license_key = p_license_key and hwid = p_hwid;
+  if not found then return public.sdk_license_payload('hwid_mismatch', v_license); end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'deactivate', p_app_version, p_ip, p_country);
+  select * into v_license from public.licenses where license_key = p_license_key;
+  return public.sdk_license_payload('ok', v_license);
+end;
+$$;
+
+grant execute on function public.sdk_activate(text, text, text, text, text) to anon, authenticated;
+grant execute on function public.sdk_validate(text, text, text, text, text) to anon, authenticated;
+grant execute on function public.sdk_deactivate(text, text, text, text, text) to anon, authenticated;
@@ -0,0 +1,180 @@
+-- Dashboard roles, keyed by email so a teammate can be added before they sign up.
+--   viewer  – read everything
+--   support – viewer + extend expiries, reset HWIDs, deactivate machines
+--   admin   – everything, including creating/deleting keys, the catalog and the team
+create table if not exists public.user_roles (
+  email text primary key check (email = lower(email)),
+  role text not null check (role in ('viewer', 'support', 'admin')),
+  created_at timestamptz not null default now(),
+  updated_by text
+);
+
+create or replace function public.role_rank(p_role text)
+returns integer
+language sql
+immutable
+as $$
+  select case p_role when 'viewer' then 1 when 'support' then 2 when 'admin' then 3 else 0 end;
+$$;
+
+create or replace function public.current_user_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.user_roles where email = lower(auth.jwt() ->> 'email');
+$$;
+
+create or replace function public.has_role(p_min_role text)
+returns boolean
+language sql
+stable
+as $$
+  select public.role_rank(public.current_user_role()) >= public.role_rank(p_min_role);
+$$;
+
+-- The first person to sign in after this migration becomes admin; the dashboard only
+-- calls this for emails in VITE_ADMIN_EMAILS. Once any admin exists it does nothing.
+create or replace function public.claim_first_admin()
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_email text := lower(auth.jwt() ->> 'email');
+begin
+  if v_email is null then return null; end if;
+  lock table public.user_roles in exclusive mode;
+  if exists (select 1 from public.user_roles where role = 'admin') then
+    return public.current_user_role();
+  end if;
+  insert into public.user_roles (email, role, updated_by) values (v_email, 'admin', v_email)
+  on conflict (email) do update set role = 'admin', updated_by = excluded.updated_by;
+  return 'admin';
+end;
+$$;
+
+grant execute on function public.claim_first_admin() to authenticated;
+
+-- Somebody has to be able to manage the team.
+create or replace function public.keep_one_admin()
+returns trigger
+language plpgsql
+as $$
+begin
+  if old.role = 'admin' and (tg_op = 'DELETE' or new.role <> 'admin')
+    and not exists (select 1 from public.user_roles where role = 'admin' and email <> old.email) then
+    raise exception 'The last admin cannot be removed or demoted';
+  end if;
+  return coalesce(new, old);
+end;
+$$;
+
+drop trigger if exists user_roles_keep_one_admin on public.user_roles;
+create trigger user_roles_keep_one_admin
+  before update or delete on public.user_roles
+  for each row execute function public.keep_one_admin();
+
+alter table public.user_roles enable row level security;
+
+create policy "Users can read their own role"
+  on public.user_roles for select
+  to authenticated
+  using (email = lower(auth.jwt() ->> 'email') or public.has_role('admin'));
+
+create policy "Admins can manage roles"
+  on public.user_roles for all
+  to authenticated
+  using (public.has_role('admin'))
+  with check (public.has_role('admin'));
+
+-- Support may only touch the expiry and the machine binding. RLS cannot restrict
+-- columns, so a trigger does. SDK calls have no dashboard role and are not affected.
+create or replace function public.enforce_support_license_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.current_user_role() = 'support'
+    and (to_jsonb(new) - 'expires_at' - 'hwid' - 'last_seen_at') is distinct from (to_jsonb(old) - 'expires_at' - 'hwid' - 'last_seen_at') then
+    raise exception 'Support can only extend licenses and reset HWIDs';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists licenses_enforce_support_update on public.licenses;
+create trigger licenses_enforce_support_update
+  before update on public.licenses
+  for each row execute function public.enforce_support_license_update();
+
+-- licenses: its original policies were created outside these migrations, so drop
+-- whatever is there before installing the role-based ones.
+alter table public.licenses enable row level security;
+
+do $$
+declare
+  v_policy record;
+begin
+  for v_policy in select policyname from pg_policies where schemaname = 'public' and tablename = 'licenses' loop
+    execute format('drop policy %I on public.licenses', v_policy.policyname);
+  end loop;
+end;
+$$;
+
+create policy "Viewers can read licenses"
+  on public.licenses for select to authenticated using (public.has_role('viewer'));
+create policy "Support can update licenses"
+  on public.licenses for update to authenticated using (public.has_role('support')) with check (public.has_role('support'));
+create policy "Admins can create licenses"
+  on public.licenses for insert to authenticated with check (public.has_role('admin'));
+create policy "Admins can delete licenses"
+  on public.licenses for delete to authenticated using (public.has_role('admin'));
+
+-- license_activations
+drop policy if exists "Authenticated users can read activations" on public.license_activations;
+drop policy if exists "Authenticated users can remove activations" on public.license_activations;
+create policy "Viewers can read activations"
+  on public.license_activations for select to authenticated using (public.has_role('viewer'));
+create policy "Support can remove activations"
+  on public.license_activations for delete to authenticated using (public.has_role('support'));
+-- Creating a key with an HWID mirrors it into this table through a trigger.
+create policy "Admins can add activations"
+  on public.license_activations for insert to authenticated with check (public.has_role('admin'));
+
+-- license_history
+drop policy if exists "Authenticated users can read license history" on public.license_history;
+drop policy if exists "Authenticated users can add license history" on public.license_history;
+create policy "Viewers can read license history"
+  on public.license_history for select to authenticated using (public.has_role('viewer'));
+create policy "Support can add license history"
+  on public.license_history for insert to authenticated with check (public.has_role('support'));
+
+-- audit_log
+drop policy if exists "Authenticated users can read the audit log" on public.audit_log;
+drop policy if exists "Authenticated users can append to the audit log" on public.audit_log;
+create policy "Viewers can read the audit log"
+  on public.audit_log for select to authenticated using (public.has_role('viewer'));
+create policy "Support can append to the audit log"
+  on public.audit_log for insert to authenticated
+  with check (public.has_role('support') and actor_email = auth.jwt() ->> 'email');
+
+-- products and plans
+drop policy if exists "Authenticated users can manage products" on public.products;
+drop policy if exists "Authenticated users can manage plans" on public.plans;
+create policy "Viewers can read products"
+  on public.products for select to authenticated using (public.has_role('viewer'));
+create policy "Admins can manage products"
+  on public.products for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Viewers can read plans"
+  on public.plans for select to authenticated using (public.has_role('viewer'));
+create policy "Admins can manage plans"
+  on public.plans for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+
+-- license_events
+drop policy if exists "Authenticated users can read license events" on public.license_events;
+create policy "Viewers can read license events"
+  on public.license_events for select to authenticated using (public.has_role('viewer'));
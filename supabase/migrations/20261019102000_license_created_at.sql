@@ -0,0 +1,25 @@
+-- Creation time of each license, used by the analytics view for "created per month" and
+-- time-to-activation. Existing keys take the earliest create/import entry from the audit
+-- log, or their first activation when the log has none; keys with neither stay null.
+alter table public.licenses add column if not exists created_at timestamptz;
+
+update public.licenses l
+set created_at = coalesce(
+  (
+    select min(a.created_at)
+    from public.audit_log a
+    where a.license_key = l.license_key and a.action in ('create', 'import')
+  ),
+  (
+    select min(act.first_seen_at)
+    from public.license_activations act
+    where act.license_key = l.license_key
+  )
+)
+where l.created_at is null;
+
+alter table public.licenses alter column created_at set default now();
+
+create index if not exists licenses_created_at_idx on public.licenses (created_at);
+
+create index if not exists license_history_created_at_idx on public.license_history (created_at);
@@ -0,0 +1,51 @@
+-- Expiry reminders: the thresholds that fire, the message templates, the channels that
+-- deliver them and a log that lets each (license, expiry, threshold, channel) send once.
+-- Messages are sent by packages/reminder-worker with the service role key.
+create table if not exists public.reminder_settings (
+  id smallint primary key default 1 check (id = 1),
+  -- Days before expiry; 0 means on the expiry day itself.
+  thresholds integer[] not null default '{30,7,1,0}',
+  subject_template text not null default 'License {{license_key}} hết hạn sau {{days_left}} ngày',
+  body_template text not null default E'Xin chào {{customer_name}},\n\nLicense {{license_key}} sẽ hết hạn vào {{expires_at}} (còn {{days_left}} ngày). Vui lòng gia hạn để không bị gián đoạn.',
+  updated_at timestamptz not null default now()
+);
+
+insert into public.reminder_settings (id) values (1) on conflict (id) do nothing;
+
+create table if not exists public.reminder_channels (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  type text not null check (type in ('email', 'webhook', 'bot')),
+  -- Per type: email {recipient, address}, webhook {url, secret}, bot {format, url, chat_id}.
+  config jsonb not null default '{}',
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.license_reminders (
+  id bigint generated always as identity primary key,
+  license_key text not null references public.licenses (license_key) on update cascade on delete cascade,
+  -- The expiry the reminder was about, so a renewed key is reminded again for its new date.
+  expires_at timestamptz not null,
+  threshold_days integer not null,
+  channel_id uuid not null references public.reminder_channels (id) on delete cascade,
+  status text not null check (status in ('sent', 'failed')),
+  error text,
+  attempts integer not null default 1,
+  sent_at timestamptz not null default now(),
+  unique (license_key, expires_at, threshold_days, channel_id)
+);
+
+create index if not exists license_reminders_sent_at_idx on public.license_reminders (sent_at desc);
+
+-- Channel configs hold webhook secrets and bot tokens, so only admins see any of it.
+alter table public.reminder_settings enable row level security;
+alter table public.reminder_channels enable row level security;
+alter table public.license_reminders enable row level security;
+
+create policy "Admins can manage reminder settings"
+  on public.reminder_settings for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can manage reminder channels"
+  on public.reminder_channels for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can read the reminder log"
+  on public.license_reminders for select to authenticated using (public.has_role('admin'));
@@ -0,0 +1,203 @@
+-- Outgoing webhooks: endpoints subscribe to license lifecycle events, and triggers queue
+-- one delivery per subscribed endpoint. packages/webhook-worker signs and sends them with
+-- the service role key, retrying with backoff.
+create table if not exists public.webhook_endpoints (
+  id uuid primary key default gen_random_uuid(),
+  name text not null,
+  url text not null,
+  -- HMAC-SHA256 key for the X-Webhook-Signature header.
+  secret text not null,
+  events text[] not null default '{}',
+  enabled boolean not null default true,
+  created_at timestamptz not null default now()
+);
+
+create table if not exists public.webhook_deliveries (
+  id bigint generated always as identity primary key,
+  endpoint_id uuid not null references public.webhook_endpoints (id) on delete cascade,
+  event text not null,
+  -- No foreign key: deliveries about a purged key are still worth keeping.
+  license_key text not null,
+  -- {id, event, occurred_at, data: {before, after, ...}}, sent as is on every attempt.
+  payload jsonb not null,
+  -- Set for events that must only be queued once per endpoint, e.g. one expiry.
+  dedupe_key text,
+  status text not null default 'pending' check (status in ('pending', 'delivered', 'failed')),
+  attempts integer not null default 0,
+  next_attempt_at timestamptz not null default now(),
+  response_status integer,
+  last_error text,
+  created_at timestamptz not null default now(),
+  delivered_at timestamptz,
+  unique (endpoint_id, dedupe_key)
+);
+
+create index if not exists webhook_deliveries_due_idx on public.webhook_deliveries (next_attempt_at) where status = 'pending';
+create index if not exists webhook_deliveries_created_at_idx on public.webhook_deliveries (created_at desc);
+
+-- Runs as the owner so any writer (support staff, SDK calls) can queue deliveries
+-- without being able to read endpoint secrets.
+create or replace function public.enqueue_license_webhook(
+  p_event text,
+  p_license_key text,
+  p_before jsonb,
+  p_after jsonb,
+  p_extra jsonb default '{}',
+  p_dedupe_key text default null
+)
+returns void
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_payload jsonb := jsonb_build_object(
+    'id', gen_random_uuid(),
+    'event', p_event,
+    'occurred_at', now(),
+    'data', jsonb_build_object('before', p_before, 'after', p_after) || p_extra
+  );
+begin
+  insert into public.webhook_deliveries (endpoint_id, event, license_key, payload, dedupe_key)
+  select e.id, p_event, p_license_key, v_payload, p_dedupe_key
+  from public.webhook_endpoints e
+  where e.enabled and p_event = any (e.events)
+  on conflict (endpoint_id, dedupe_key) do nothing;
+end;
+$$;
+
+revoke all on function public.enqueue_license_webhook(text, text, jsonb, jsonb, jsonb, text) from public, anon, authenticated;
+
+create or replace function public.license_webhook_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if tg_op = 'INSERT' then
+    perform public.enqueue_license_webhook('license.created', new.license_key, null, to_jsonb(new));
+  elsif tg_op = 'DELETE' then
+    -- Purging from the trash was already announced when the key was deleted.
+    if old.deleted_at is null then
+      perform public.enqueue_license_webhook('license.deleted', old.license_key, to_jsonb(old), null);
+    end if;
+  else
+    if old.deleted_at is null and new.deleted_at is not null then
+      perform public.enqueue_license_webhook('license.deleted', new.license_key, to_jsonb(old), to_jsonb(new));
+    end if;
+    if new.expires_at > old.expires_at then
+      perform public.enqueue_license_webhook('license.extended', new.license_key, to_jsonb(old), to_jsonb(new));
+    end if;
+  end if;
+  return null;
+end;
+$$;
+
+drop trigger if exists licenses_webhook_events on public.licenses;
+create trigger licenses_webhook_events
+  after insert or update or delete on public.licenses
+  for each row execute function public.license_webhook_events();
+
+create or replace function public.activation_webhook_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = new.license_key;
+  perform public.enqueue_license_webhook(
+    'license.activated', new.license_key, to_jsonb(v_license), to_jsonb(v_license), jsonb_build_object('hwid', new.hwid)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists license_activations_webhook_activated on public.license_activations;
+create trigger license_activations_webhook_activated
+  after insert on public.license_activations
+  for each row execute function public.activation_webhook_events();
+
+-- A reset is the dashboard freeing every machine of a key, whether through "reset HWID"
+-- or by deactivating the last one. Statement level, so resetting a key with several
+-- machines is one event. SDK deactivations have no dashboard role and are not resets.
+create or replace function public.reset_webhook_events()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_released record;
+  v_license public.licenses;
+begin
+  if public.current_user_role() is null then return null; end if;
+
+  for v_released in
+    select r.license_key, array_agg(r.hwid order by r.first_seen_at) as hwids
+    from released r
+    where not exists (select 1 from public.license_activations a where a.license_key = r.license_key)
+    group by r.license_key
+  loop
+    select * into v_license from public.licenses where license_key = v_released.license_key;
+    if found then
+      perform public.enqueue_license_webhook(
+        'license.reset', v_license.license_key,
+        to_jsonb(v_license) || jsonb_build_object('hwid', v_released.hwids[1]), to_jsonb(v_license),
+        jsonb_build_object('hwids', to_jsonb(v_released.hwids))
+      );
+    end if;
+  end loop;
+  return null;
+end;
+$$;
+
+drop trigger if exists license_activations_webhook_reset on public.license_activations;
+create trigger license_activations_webhook_reset
+  after delete on public.license_activations
+  referencing old table as released
+  for each statement execute function public.reset_webhook_events();
+
+-- Expiry is not a write, so the worker calls this on each run. Keys that expired in
+-- the last two days are announced once per expiry date; older ones are left alone so
+-- adding an endpoint does not replay history.
+create or replace function public.enqueue_expired_license_webhooks()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+  v_count integer := 0;
+begin
+  for v_license in
+    select * from public.licenses
+    where deleted_at is null and expires_at <= now() and expires_at > now() - interval '2 days'
+  loop
+    perform public.enqueue_license_webhook(
+      'license.expired', v_license.license_key, null, to_jsonb(v_license), '{}',
+      'license.expired:' || v_license.license_key || ':' || v_license.expires_at
+    );
+    v_count := v_count + 1;
+  end loop;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.enqueue_expired_license_webhooks() from public, anon, authenticated;
+grant execute on function public.enqueue_expired_license_webhooks() to service_role;
+
+alter table public.webhook_endpoints enable row level security;
+alter table public.webhook_deliveries enable row level security;
+
+create policy "Admins can manage webhook endpoints"
+  on public.webhook_endpoints for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+create policy "Admins can read webhook deliveries"
+  on public.webhook_deliveries for select to authenticated using (public.has_role('admin'));
+-- Redelivery puts a delivery back in the queue.
+create policy "Admins can requeue webhook deliveries"
+  on public.webhook_deliveries for update to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
@@ -0,0 +1,63 @@
+-- Duration-based licenses: the key is sold with a number of days and `expires_at` is
+-- only set when the first machine is bound, so keys that sit unused lose no time.
+
+alter table public.licenses add column if not exists duration_days integer check (duration_days > 0);
+alter table public.licenses alter column expires_at drop not null;
+
+alter table public.licenses drop constraint if exists licenses_expiry_or_duration;
+alter table public.licenses add constraint licenses_expiry_or_duration
+  check (expires_at is not null or duration_days is not null);
+
+-- Starts the clock on the first activation. Runs for the SDK, the legacy hwid column
+-- and the dashboard alike, since they all go through license_activations.
+create or replace function public.start_duration_license()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.licenses
+  set expires_at = new.first_seen_at + make_interval(days => duration_days)
+  where license_key = new.license_key and expires_at is null;
+  return new;
+end;
+$$;
+
+-- Named to sort before license_activations_webhook_activated, so the activation webhook
+-- already carries the computed expiry.
+drop trigger if exists license_activations_start_duration on public.license_activations;
+create trigger license_activations_start_duration
+  after insert on public.license_activations
+  for each row execute function public.start_duration_license();
+
+-- Mirrors getLicenseStatus: pending < available < active < expiring (7 days) < expired.
+create or replace function public.status_rank(l public.licenses)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when l.expires_at is null then 0
+    when l.expires_at < now() then 4
+    when l.expires_at <= now() + interval '7 days' then 3
+    when l.hwid is not null
+      or exists (select 1 from public.license_activations a where a.license_key = l.license_key) then 2
+    else 1
+  end;
+$$;
+
+-- Changing the duration of a key that has not started is the same kind of change as extending it.
+create or replace function public.enforce_support_license_update()
+returns trigger
+language plpgsql
+as $$
+begin
+  if public.current_user_role() = 'support'
+    and (to_jsonb(new) - 'expires_at' - 'duration_days' - 'hwid' - 'last_seen_at')
+      is distinct from (to_jsonb(old) - 'expires_at' - 'duration_days' - 'hwid' - 'last_seen_at') then
+    raise exception 'Support can only extend licenses and reset HWIDs';
+  end if;
+  return new;
+end;
+$$;
@@ -0,0 +1,6 @@
+-- History rows are attributed to whoever inserts them, like the audit log: the client
+-- still sends `changed_by`, but it must be the signed-in user's own email.
+drop policy if exists "Support can add license history" on public.license_history;
+create policy "Support can add license history"
+  on public.license_history for insert to authenticated
+  with check (public.has_role('support') and changed_by = auth.jwt() ->> 'email');
@@ -0,0 +1,48 @@
+-- Trash retention is a team setting, and purging runs on the server once a day instead
+-- of whenever an admin happens to open the dashboard.
+create table if not exists public.trash_settings (
+  id smallint primary key default 1 check (id = 1),
+  retention_days integer not null default 30 check (retention_days > 0),
+  updated_at timestamptz not null default now()
+);
+
+insert into public.trash_settings (id) values (1) on conflict (id) do nothing;
+
+alter table public.trash_settings enable row level security;
+
+create policy "Admins can manage trash settings"
+  on public.trash_settings for all to authenticated using (public.has_role('admin')) with check (public.has_role('admin'));
+
+-- Permanently deletes keys that have been in the trash longer than the retention period,
+-- with one audit entry per key like a purge from the dashboard.
+create or replace function public.purge_expired_trash()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  with purged as (
+    delete from public.licenses l
+    where l.deleted_at < now() - make_interval(days => (select retention_days from public.trash_settings where id = 1))
+    returning l.*
+  )
+  insert into public.audit_log (actor_email, action, license_key, before, after)
+  select null, 'purge', p.license_key,
+    jsonb_build_object('license_key', p.license_key, 'expires_at', p.expires_at, 'hwid', p.hwid, 'deleted_at', p.deleted_at),
+    null
+  from purged p;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.purge_expired_trash() from public, anon, authenticated;
+grant execute on function public.purge_expired_trash() to service_role;
+
+-- pg_cron ships with Supabase; scheduling under the same name replaces an earlier job.
+create extension if not exists pg_cron;
+select cron.schedule('purge-expired-trash', '0 3 * * *', 'select public.purge_expired_trash()');
@@ -0,0 +1,168 @@
+-- Anyone holding a key can call the SDK functions, so they must not reveal the other
+-- machines bound to it, and freeing a seat needs proof of being the machine that took it.
+
+-- Handed to a machine once, when it is bound. Only the hash is kept; activations made
+-- before this migration have none and are released from the dashboard.
+alter table public.license_activations add column if not exists deactivation_token_hash text;
+
+create or replace function public.sdk_token_hash(p_token text)
+returns text
+language sql
+immutable
+as $$
+  select encode(sha256(convert_to(p_token, 'UTF8')), 'hex');
+$$;
+
+revoke all on function public.sdk_token_hash(text) from public;
+
+-- The payload now only describes the calling machine: its own activation and, for older
+-- builds, `hwid` when the legacy column points at it.
+drop function if exists public.sdk_license_payload(text, public.licenses);
+
+create or replace function public.sdk_license_payload(p_status text, p_license public.licenses, p_hwid text)
+returns jsonb
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select jsonb_build_object(
+    'status', p_status,
+    'license', jsonb_build_object(
+      'license_key', p_license.license_key,
+      'expires_at', p_license.expires_at,
+      'hwid', case when p_license.hwid = p_hwid then p_hwid end,
+      'max_activations', p_license.max_activations,
+      'product_id', p_license.product_id,
+      'plan_id', p_license.plan_id,
+      'features', p_license.features,
+      'activations', coalesce((
+        select jsonb_agg(jsonb_build_object(
+          'id', a.id,
+          'license_key', a.license_key,
+          'hwid', a.hwid,
+          'first_seen_at', a.first_seen_at,
+          'last_seen_at', a.last_seen_at
+        ))
+        from public.license_activations a
+        where a.license_key = p_license.license_key and a.hwid = p_hwid
+      ), '[]'::jsonb)
+    )
+  );
+$$;
+
+revoke all on function public.sdk_license_payload(text, public.licenses, text) from public;
+
+create or replace function public.sdk_activate(
+  p_license_key text,
+  p_hwid text,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+  v_used integer;
+  v_token text;
+begin
+  -- Row lock so two machines cannot take the last seat at the same time.
+  select * into v_license from public.licenses where license_key = p_license_key for update;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license, p_hwid); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+
+  if not found then
+    select count(*) into v_used from public.license_activations where license_key = p_license_key;
+    if v_used >= v_license.max_activations then
+      return jsonb_build_object('status', 'hwid_mismatch');
+    end if;
+
+    v_token := gen_random_uuid()::text;
+    insert into public.license_activations (license_key, hwid, deactivation_token_hash)
+    values (p_license_key, p_hwid, public.sdk_token_hash(v_token));
+    -- Keep the legacy column filled for older builds that still read it.
+    update public.licenses set hwid = p_hwid where license_key = p_license_key and hwid is null;
+  end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'activate', p_app_version, p_ip, p_country);
+  select * into v_license from public.licenses where license_key = p_license_key;
+  -- The token is only sent when the seat is taken; re-activating a bound machine does not repeat it.
+  return public.sdk_license_payload('ok', v_license, p_hwid)
+    || case when v_token is null then '{}'::jsonb else jsonb_build_object('deactivation_token', v_token) end;
+end;
+$$;
+
+create or replace function public.sdk_validate(
+  p_license_key text,
+  p_hwid text,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+  if v_license.expires_at < now() then return public.sdk_license_payload('expired', v_license, p_hwid); end if;
+
+  update public.license_activations set last_seen_at = now()
+  where license_key = p_license_key and hwid = p_hwid;
+  if not found then return jsonb_build_object('status', 'hwid_mismatch'); end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'check', p_app_version, p_ip, p_country);
+  select * into v_license from public.licenses where license_key = p_license_key;
+  return public.sdk_license_payload('ok', v_license, p_hwid);
+end;
+$$;
+
+-- Deactivation gains the token from `sdk_activate`; the old signature is dropped so the
+-- key and HWID alone can no longer free a seat.
+drop function if exists public.sdk_deactivate(text, text, text, text, text);
+
+create or replace function public.sdk_deactivate(
+  p_license_key text,
+  p_hwid text,
+  p_deactivation_token text default null,
+  p_app_version text default null,
+  p_ip text default null,
+  p_country text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_license public.licenses;
+begin
+  select * into v_license from public.licenses where license_key = p_license_key;
+  if not found then return jsonb_build_object('status', 'not_found'); end if;
+  if v_license.deleted_at is not null then return jsonb_build_object('status', 'revoked'); end if;
+
+  delete from public.license_activations
+  where license_key = p_license_key
+    and hwid = p_hwid
+    and deactivation_token_hash = public.sdk_token_hash(p_deactivation_token);
+  if not found then return jsonb_build_object('status', 'hwid_mismatch'); end if;
+
+  perform public.sdk_record_event(p_license_key, p_hwid, 'deactivate', p_app_version, p_ip, p_country);
+  return jsonb_build_object('status', 'ok');
+end;
+$$;
+
+grant execute on function public.sdk_deactivate(text, text, text, text, text, text) to anon, authenticated;
@@ -0,0 +1,4 @@
+-- Any signed-in user could call claim_first_admin; the email allow-list that was meant to
+-- guard it only lived in the dashboard build. The first admin is now added by hand:
+--   insert into public.user_roles (email, role) values ('you@example.com', 'admin');
+drop function if exists public.claim_first_admin();
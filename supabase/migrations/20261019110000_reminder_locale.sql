@@ -0,0 +1,5 @@
+-- Language of the values filled into reminder templates: the customer-name fallback and
+-- the expiry date format. The templates themselves are written in whatever language the
+-- team sends to customers.
+alter table public.reminder_settings
+  add column if not exists locale text not null default 'vi' check (locale in ('vi', 'en'));
@@ -1,10 +1,204 @@
+import type { Locale } from './services/i18n';
+
 export interface License {
   license_key: string;
-  expires_at: string;
+  // Null until the first activation for keys sold with a duration.
+  expires_at: string | null;
+  // Days of validity counted from the first activation; null for keys with a fixed expiry.
+  duration_days?: number | null;
   hwid: string | null;
+  max_activations?: number;
+  activations?: LicenseActivation[];
+  customer_name?: string | null;
+  customer_email?: string | null;
+  order_id?: string | null;
+  notes?: string | null;
+  tags?: string[];
+  product_id?: string | null;
+  plan_id?: string | null;
+  features?: string[];
+  last_seen_at?: string | null;
+  // Null for keys created before creation times were recorded.
+  created_at?: string | null;
+  deleted_at?: string | null;
+  deleted_by?: string | null;
+}
+
+export interface Product {
+  id: string;
+  name: string;
+  created_at?: string;
+}
+
+export interface Plan {
+  id: string;
+  product_id: string;
+  name: string;
+  duration_days: number;
+  max_activations: number;
+  features: string[];
+  created_at?: string;
+}
+
+export interface LicenseActivation {
+  id: number;
+  license_key: string;
+  hwid: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+export type LicenseEventType = 'activate' | 'check' | 'deactivate';
+
+export interface LicenseEvent {
+  id: number;
+  license_key: string;
+  hwid: string;
+  event: LicenseEventType;
+  app_version: string | null;
+  ip: string | null;
+  country: string | null;
+  created_at: string;
+}
+
+export type Role = 'viewer' | 'support' | 'admin';
+
+export interface TeamMember {
+  email: string;
+  role: Role;
+  created_at: string;
+  updated_by: string | null;
 }
 
 export interface SupabaseCredentials {
   url: string;
   key: string;
 }
+
+export type ConnectionEnvironment = 'production' | 'staging' | 'development';
+
+export interface ConnectionProfile extends SupabaseCredentials {
+  id: string;
+  name: string;
+  environment: ConnectionEnvironment;
+}
+
+export type LicenseHistoryAction = 'extend' | 'edit' | 'rename';
+
+export interface LicenseHistoryEntry {
+  id: number;
+  license_key: string;
+  action: LicenseHistoryAction;
+  previous_expires_at: string | null;
+  new_expires_at: string | null;
+  previous_key: string | null;
+  changed_by: string | null;
+  created_at: string;
+}
+
+export type AuditAction = 'create' | 'import' | 'update' | 'extend' | 'rename' | 'reset_hwid' | 'deactivate' | 'issue_offline' | 'delete' | 'restore' | 'purge';
+
+export interface AuditLogEntry {
+  id: number;
+  actor_email: string | null;
+  action: AuditAction;
+  license_key: string;
+  before: Partial<License> | null;
+  after: Partial<License> | null;
+  created_at: string;
+}
+
+export type ReminderChannelType = 'email' | 'webhook' | 'bot';
+
+export type BotFormat = 'telegram' | 'zalo';
+
+export interface EmailChannelConfig {
+  // 'customer' sends to the license's customer_email; 'fixed' to `address` (e.g. the sales inbox).
+  recipient: 'customer' | 'fixed';
+  address?: string;
+}
+
+export interface WebhookChannelConfig {
+  url: string;
+  // Sent as a bearer token when set.
+  secret?: string;
+}
+
+export interface BotChannelConfig {
+  format: BotFormat;
+  // Full endpoint including the bot token, e.g. https://api.telegram.org/bot<token>/sendMessage.
+  url: string;
+  chat_id: string;
+  // Zalo OA expects the token in an `access_token` header instead of the URL.
+  access_token?: string;
+}
+
+export type ReminderChannel =
+  | { id: string, name: string, enabled: boolean, created_at?: string, type: 'email', config: EmailChannelConfig }
+  | { id: string, name: string, enabled: boolean, created_at?: string, type: 'webhook', config: WebhookChannelConfig }
+  | { id: string, name: string, enabled: boolean, created_at?: string, type: 'bot', config: BotChannelConfig };
+
+export interface ReminderSettings {
+  thresholds: number[];
+  subject_template: string;
+  body_template: string;
+  // Language of the filled-in values such as {{expires_at}}.
+  locale: Locale;
+  updated_at?: string;
+}
+
+export interface ReminderLogEntry {
+  id: number;
+  license_key: string;
+  expires_at: string;
+  threshold_days: number;
+  channel_id: string;
+  status: 'sent' | 'failed';
+  error: string | null;
+  attempts: number;
+  sent_at: string;
+}
+
+export type WebhookEvent =
+  | 'license.created'
+  | 'license.activated'
+  | 'license.reset'
+  | 'license.extended'
+  | 'license.expired'
+  | 'license.deleted';
+
+export interface WebhookEndpoint {
+  id: string;
+  name: string;
+  url: string;
+  secret: string;
+  events: WebhookEvent[];
+  enabled: boolean;
+  created_at?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookPayload {
+  id: string;
+  event: WebhookEvent;
+  occurred_at: string;
+  // `before` is null for created and expired, `after` for a purged key. Activations add
+  // the `hwid`, resets the released `hwids`.
+  data: { before: License | null, after: License | null, hwid?: string, hwids?: string[] };
+}
+
+export interface WebhookDelivery {
+  id: number;
+  endpoint_id: string;
+  event: WebhookEvent;
+  license_key: string;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+  delivered_at: string | null;
+}